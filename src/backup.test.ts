@@ -0,0 +1,216 @@
+import { Database } from 'bun:sqlite'
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { appendFile, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Kysely, Migrator, sql } from 'kysely'
+import { BunSqliteDialect } from 'kysely-bun-sqlite'
+import { DateTime } from 'luxon'
+import { createBackup, readBackupManifest, restoreBackup } from './backup'
+import { importData } from './db-operations'
+import { recordImportRun } from './import-runs'
+import { migrator } from './migrations/this-sucks'
+import {
+  createDatabase,
+  type DatabaseSchema,
+  type ImportedMemory,
+} from './types'
+
+const TABLES = [
+  'memory',
+  'memory_link',
+  'memory_snapshot',
+  'import_run',
+  'import_state',
+]
+
+async function dumpTables(db: Kysely<DatabaseSchema>) {
+  const dump: Record<string, unknown[]> = {}
+  for (const table of TABLES) {
+    const { rows } = await sql`
+      SELECT * FROM ${sql.table(table)} ORDER BY rowid
+    `.execute(db)
+    dump[table] = rows
+  }
+  return dump
+}
+
+describe('backup and restore', () => {
+  let dir: string
+  let db: Kysely<DatabaseSchema>
+  let cleanup: () => Promise<void>
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'istoria-backup-'))
+    ;[db, cleanup] = await createDatabase(join(dir, 'db.sqlite'))
+  })
+
+  afterEach(async () => {
+    await cleanup()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  const memories: ImportedMemory[] = [
+    {
+      source: 'obsidian',
+      sourceKey: 'Daily/2025-03-04.md',
+      memoryCreatedAt: DateTime.fromISO('2025-03-04T09:00:00+05:30', {
+        setZone: true,
+      }),
+      title: '2025-03-04',
+      metadata: { originalPath: 'Daily/2025-03-04.md', tags: ['hike'] },
+      content: 'Went hiking with [[Sam]] 🥾\n"quoted"\ttabbed',
+      links: [{ linkType: 'link', target: 'Sam', raw: '[[Sam]]' }],
+    },
+    {
+      source: 'obsidian',
+      sourceKey: 'Sam.md',
+      memoryCreatedAt: DateTime.fromISO('2025-01-01T00:00:00Z'),
+      title: 'Sam',
+      metadata: { originalPath: 'Sam.md' },
+      content: 'Friend from climbing',
+    },
+    {
+      source: 'photo',
+      sourceKey: 'IMG_0001.jpg',
+      memoryCreatedAt: DateTime.fromISO('2024-07-01T18:30:00', {
+        zone: 'America/New_York',
+      }),
+      title: 'IMG_0001.jpg',
+      metadata: { mimeType: 'image/jpeg' },
+      contentBlob: new Uint8Array([0xff, 0xd8, 0x00, 0x0a, 0xff, 0xd9]),
+    },
+  ]
+
+  test('restores an identical database', async () => {
+    const input = join(dir, 'input.json')
+    await writeFile(input, '{}')
+    await recordImportRun(db, 'obsidian', input, {}, (options) =>
+      importData(db, memories, options)
+    )
+    // A second run, so there are snapshots to back up too
+    await recordImportRun(db, 'obsidian', input, {}, (options) =>
+      importData(
+        db,
+        memories.map((memory) => ({ ...memory, content: 'Rewritten' })),
+        options
+      )
+    )
+    await db
+      .insertInto('import_state')
+      .values({
+        source: 'obsidian',
+        path: 'Sam.md',
+        size: 20,
+        mtime: 1735689600000,
+        contentHash: 'abc',
+      })
+      .execute()
+
+    const backupDir = join(dir, 'backup')
+    const manifest = await createBackup(db, backupDir)
+    expect(manifest.schemaVersion).toBe('migration-7')
+    expect(manifest.blobs).toEqual({ count: 1, bytes: 6 })
+    expect(
+      Object.fromEntries(manifest.tables.map((t) => [t.name, t.rows]))
+    ).toEqual({
+      import_run: 2,
+      memory: 3,
+      memory_link: 1,
+      memory_snapshot: 3,
+      import_state: 1,
+    })
+
+    const restoredPath = join(dir, 'restored.sqlite')
+    await restoreBackup(backupDir, restoredPath)
+    const [restored, closeRestored] = await createDatabase(restoredPath)
+    try {
+      expect(await dumpTables(restored)).toEqual(await dumpTables(db))
+      const { rows } = await sql<{ id: string }>`
+        SELECT id FROM memory_fts WHERE memory_fts MATCH 'rewritten'
+      `.execute(restored)
+      expect(rows).toHaveLength(3)
+    } finally {
+      await closeRestored()
+    }
+  })
+
+  test('upgrades backups made with an older schema', async () => {
+    const sqlite = new Database(':memory:')
+    const old = new Kysely<unknown>({
+      dialect: new BunSqliteDialect({ database: sqlite }),
+    })
+    await new Migrator({ db: old, provider: migrator }).migrateTo('migration-5')
+    await sql`
+      INSERT INTO memory (id, source, sourceKey, memoryCreatedAt, title, metadata)
+      VALUES ('a', 'test', 'a', '2025-01-01T10:00:00.000+05:30', 'a', '{}')
+    `.execute(old)
+    const backupDir = join(dir, 'backup')
+    await createBackup(old as unknown as Kysely<DatabaseSchema>, backupDir)
+    await old.destroy()
+    expect((await readBackupManifest(backupDir)).schemaVersion).toBe(
+      'migration-5'
+    )
+
+    const restoredPath = join(dir, 'restored.sqlite')
+    await restoreBackup(backupDir, restoredPath)
+    const [restored, closeRestored] = await createDatabase(restoredPath)
+    try {
+      const memory = await restored
+        .selectFrom('memory')
+        .select(['id', 'memoryInstant', 'memoryZone'])
+        .executeTakeFirstOrThrow()
+      expect(memory).toEqual({
+        id: 'a',
+        memoryInstant: Date.parse('2025-01-01T04:30Z'),
+        memoryZone: 'UTC+05:30',
+      })
+    } finally {
+      await closeRestored()
+    }
+  })
+
+  test('refuses a backup that does not match its checksums', async () => {
+    await importData(db, memories)
+    const backupDir = join(dir, 'backup')
+    await createBackup(db, backupDir)
+    await appendFile(join(backupDir, 'memory.jsonl'), '{}\n')
+
+    const restoredPath = join(dir, 'restored.sqlite')
+    await expect(restoreBackup(backupDir, restoredPath)).rejects.toThrow(
+      "Backup file memory.jsonl doesn't match its checksum"
+    )
+    expect(await Bun.file(restoredPath).exists()).toBe(false)
+  })
+
+  test('refuses to overwrite a backup or a database', async () => {
+    await importData(db, memories)
+    const backupDir = join(dir, 'backup')
+    await createBackup(db, backupDir)
+
+    await expect(createBackup(db, backupDir)).rejects.toThrow(
+      `Backup directory is not empty: ${backupDir}`
+    )
+    const dbPath = join(dir, 'db.sqlite')
+    await expect(restoreBackup(backupDir, dbPath)).rejects.toThrow(
+      `A database already exists at ${dbPath}`
+    )
+  })
+
+  test('refuses backups from a newer schema', async () => {
+    const backupDir = join(dir, 'backup')
+    await createBackup(db, backupDir)
+    const manifestPath = join(backupDir, 'manifest.json')
+    const manifest = JSON.parse(await readFile(manifestPath, 'utf-8'))
+    await writeFile(
+      manifestPath,
+      JSON.stringify({ ...manifest, schemaVersion: 'migration-99' })
+    )
+
+    await expect(
+      restoreBackup(backupDir, join(dir, 'restored.sqlite'))
+    ).rejects.toThrow(
+      'Backup schema migration-99 is newer than this version of istoria supports'
+    )
+  })
+})
@@ -0,0 +1,336 @@
+import { Database } from 'bun:sqlite'
+import { createReadStream } from 'node:fs'
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { createInterface } from 'node:readline'
+import createDebug from 'debug'
+import { Kysely, Migrator, sql } from 'kysely'
+import { BunSqliteDialect } from 'kysely-bun-sqlite'
+import { DateTime } from 'luxon'
+import { hashContent } from './import-state'
+import { migrator } from './migrations/this-sucks'
+import type { DatabaseSchema } from './types'
+
+const d = createDebug('istoria:backup')
+
+export const BACKUP_FORMAT = 'istoria-backup'
+export const BACKUP_VERSION = 1
+
+const MANIFEST_FILE = 'manifest.json'
+const BLOB_DIR = 'blobs'
+
+// Rows read per query, so large tables are never held in memory at once
+const CHUNK_SIZE = 500
+
+// Every table with data of its own, in an order that satisfies foreign keys
+// on restore. The full-text index is rebuilt by triggers as memories are
+// restored
+const BACKUP_TABLES = [
+  'import_run',
+  'memory',
+  'memory_link',
+  'memory_snapshot',
+  'import_state',
+]
+
+export interface BackupTable {
+  name: string
+  file: string
+  rows: number
+  // sha256 of the JSONL file
+  sha256: string
+}
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT
+  version: number
+  // The last migration applied to the database that was backed up
+  schemaVersion: string
+  createdAt: string
+  tables: BackupTable[]
+  // Blobs are stored in blobs/, each named by the sha256 of its contents
+  blobs: { count: number; bytes: number }
+}
+
+// How a blob column value is written in JSONL rows
+interface BlobReference {
+  $blob: string
+}
+
+type Row = Record<string, unknown>
+
+function isBlobReference(value: unknown): value is BlobReference {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    typeof (value as Partial<BlobReference>).$blob === 'string'
+  )
+}
+
+/**
+ * Lists a table's stored columns, leaving out generated ones (see
+ * 007-add-memory-instant), which SQLite derives on restore.
+ */
+async function getColumns(
+  db: Kysely<DatabaseSchema> | Kysely<unknown>,
+  table: string
+): Promise<string[]> {
+  const { rows } = await sql<{
+    name: string
+    hidden: number
+  }>`SELECT name, hidden FROM pragma_table_xinfo(${table})`.execute(db)
+  return rows.filter((row) => row.hidden === 0).map((row) => row.name)
+}
+
+async function getSchemaVersion(
+  db: Kysely<DatabaseSchema> | Kysely<unknown>
+): Promise<string> {
+  const migrations = await new Migrator({
+    db,
+    provider: migrator,
+  }).getMigrations()
+  const applied = migrations.filter((migration) => migration.executedAt)
+  const last = applied.at(-1)
+  if (!last) {
+    throw new Error('The database has no migrations applied')
+  }
+  return last.name
+}
+
+/**
+ * Writes a lossless backup of the database to `backupDir`, which must be
+ * empty or not exist yet: a JSONL file per table with every stored column as
+ * stored (so dates keep their offsets and metadata its exact JSON), blobs as
+ * separate files named by their checksum, and a manifest with the schema
+ * version and the checksum of each file.
+ */
+export async function createBackup(
+  db: Kysely<DatabaseSchema>,
+  backupDir: string
+): Promise<BackupManifest> {
+  await mkdir(backupDir, { recursive: true })
+  if ((await readdir(backupDir)).length > 0) {
+    throw new Error(`Backup directory is not empty: ${backupDir}`)
+  }
+  await mkdir(path.join(backupDir, BLOB_DIR))
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: await getSchemaVersion(db),
+    createdAt: DateTime.utc().toISO(),
+    tables: [],
+    blobs: { count: 0, bytes: 0 },
+  }
+  const blobs = new Set<string>()
+
+  for (const table of BACKUP_TABLES) {
+    const columns = await getColumns(db, table)
+    const file = `${table}.jsonl`
+    const writer = Bun.file(path.join(backupDir, file)).writer()
+    const hasher = new Bun.CryptoHasher('sha256')
+    let rows = 0
+    let lastRowid = Number.MIN_SAFE_INTEGER
+
+    // Raw SQL, so values come back exactly as stored
+    for (;;) {
+      const chunk = await sql<Row & { __rowid: number }>`
+        SELECT rowid AS __rowid, ${sql.join(columns.map((c) => sql.ref(c)))}
+        FROM ${sql.table(table)}
+        WHERE rowid > ${lastRowid}
+        ORDER BY rowid
+        LIMIT ${CHUNK_SIZE}
+      `.execute(db)
+      if (chunk.rows.length === 0) {
+        break
+      }
+
+      for (const { __rowid, ...row } of chunk.rows) {
+        lastRowid = __rowid
+        for (const [column, value] of Object.entries(row)) {
+          if (!(value instanceof Uint8Array)) {
+            continue
+          }
+          const sha256 = hashContent(value)
+          if (!blobs.has(sha256)) {
+            await writeFile(path.join(backupDir, BLOB_DIR, sha256), value)
+            blobs.add(sha256)
+            manifest.blobs.count++
+            manifest.blobs.bytes += value.byteLength
+          }
+          row[column] = { $blob: sha256 } satisfies BlobReference
+        }
+        const line = `${JSON.stringify(row)}\n`
+        writer.write(line)
+        hasher.update(line)
+        rows++
+      }
+    }
+
+    await writer.end()
+    manifest.tables.push({
+      name: table,
+      file,
+      rows,
+      sha256: hasher.digest('hex'),
+    })
+    d('backed up %d rows of %s', rows, table)
+  }
+
+  await writeFile(
+    path.join(backupDir, MANIFEST_FILE),
+    `${JSON.stringify(manifest, null, 2)}\n`,
+    'utf-8'
+  )
+  return manifest
+}
+
+/**
+ * Reads a backup's manifest and checks that this version of istoria can
+ * restore it.
+ */
+export async function readBackupManifest(
+  backupDir: string
+): Promise<BackupManifest> {
+  let manifest: BackupManifest
+  try {
+    manifest = JSON.parse(
+      await readFile(path.join(backupDir, MANIFEST_FILE), 'utf-8')
+    )
+  } catch (error) {
+    throw new Error(
+      `Failed to read backup manifest in ${backupDir}: ${(error as Error).message}`
+    )
+  }
+
+  if (manifest.format !== BACKUP_FORMAT) {
+    throw new Error(`Not an istoria backup: ${backupDir}`)
+  }
+  if (manifest.version > BACKUP_VERSION) {
+    throw new Error(
+      `Backup format version ${manifest.version} is newer than this version of istoria supports`
+    )
+  }
+  const known = Object.keys(await migrator.getMigrations())
+  if (!known.includes(manifest.schemaVersion)) {
+    throw new Error(
+      `Backup schema ${manifest.schemaVersion} is newer than this version of istoria supports`
+    )
+  }
+  return manifest
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hasher = new Bun.CryptoHasher('sha256')
+  for await (const chunk of Bun.file(filePath).stream()) {
+    hasher.update(chunk)
+  }
+  return hasher.digest('hex')
+}
+
+async function readBlob(
+  backupDir: string,
+  sha256: string
+): Promise<Uint8Array> {
+  const data = await Bun.file(path.join(backupDir, BLOB_DIR, sha256)).bytes()
+  if (hashContent(data) !== sha256) {
+    throw new Error(`Backup blob ${sha256} is corrupt`)
+  }
+  return data
+}
+
+async function insertRow(
+  db: Kysely<unknown>,
+  table: string,
+  row: Row
+): Promise<void> {
+  const columns = Object.keys(row)
+  await sql`
+    INSERT INTO ${sql.table(table)} (${sql.join(columns.map((c) => sql.ref(c)))})
+    VALUES (${sql.join(columns.map((c) => row[c]))})
+  `.execute(db)
+}
+
+async function migrate(run: () => Promise<{ error?: unknown }>): Promise<void> {
+  const { error } = await run()
+  if (error) {
+    throw error instanceof Error
+      ? error
+      : new Error(`Failed to migrate database: ${error}`)
+  }
+}
+
+/**
+ * Restores a backup into a new database file at `dbPath`. The database is
+ * first migrated to the schema the backup was made with, so rows go back
+ * exactly as they were stored, then to the latest schema, so backups from
+ * older versions are upgraded just like a database would be. Every file is
+ * checked against its checksum, and nothing is written if a table file
+ * doesn't match.
+ */
+export async function restoreBackup(
+  backupDir: string,
+  dbPath: string
+): Promise<BackupManifest> {
+  const manifest = await readBackupManifest(backupDir)
+  for (const table of manifest.tables) {
+    if (!BACKUP_TABLES.includes(table.name)) {
+      throw new Error(`Unknown table in backup: ${table.name}`)
+    }
+    const actual = await hashFile(path.join(backupDir, table.file))
+    if (actual !== table.sha256) {
+      throw new Error(`Backup file ${table.file} doesn't match its checksum`)
+    }
+  }
+  if (await Bun.file(dbPath).exists()) {
+    throw new Error(`A database already exists at ${dbPath}`)
+  }
+
+  const sqlite = new Database(dbPath)
+  sqlite.run('PRAGMA foreign_keys = ON')
+  // No plugins, so values are inserted exactly as they were backed up
+  const db = new Kysely<unknown>({
+    dialect: new BunSqliteDialect({ database: sqlite }),
+  })
+
+  try {
+    const m = new Migrator({ db, provider: migrator })
+    await migrate(() => m.migrateTo(manifest.schemaVersion))
+
+    await db.transaction().execute(async (trx) => {
+      for (const table of manifest.tables) {
+        const lines = createInterface({
+          input: createReadStream(path.join(backupDir, table.file)),
+          crlfDelay: Infinity,
+        })
+        for await (const line of lines) {
+          if (!line) {
+            continue
+          }
+          const row: Row = JSON.parse(line)
+          for (const [column, value] of Object.entries(row)) {
+            if (isBlobReference(value)) {
+              row[column] = await readBlob(backupDir, value.$blob)
+            }
+          }
+          await insertRow(trx, table.name, row)
+        }
+        d('restored %d rows of %s', table.rows, table.name)
+      }
+    })
+
+    await migrate(() => m.migrateToLatest())
+  } catch (error) {
+    // Don't leave a half-restored database behind
+    await db.destroy()
+    sqlite.close()
+    for (const suffix of ['', '-wal', '-shm']) {
+      await rm(`${dbPath}${suffix}`, { force: true })
+    }
+    throw error
+  }
+
+  await db.destroy()
+  sqlite.close()
+  return manifest
+}
@@ -0,0 +1,327 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  spyOn,
+  test,
+} from 'bun:test'
+import {
+  mkdir,
+  mkdtemp,
+  readdir,
+  readFile,
+  rm,
+  writeFile,
+} from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { runCli } from './cli'
+
+describe('runCli', () => {
+  let tempDir: string
+  let vaultDir: string
+  let outDir: string
+  let logSpy: ReturnType<typeof spyOn>
+  let errorSpy: ReturnType<typeof spyOn>
+
+  beforeAll(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'istoria-cli-'))
+    vaultDir = join(tempDir, 'vault')
+    await mkdir(join(vaultDir, 'Daily'), { recursive: true })
+    await writeFile(
+      join(vaultDir, 'Daily', '2025-03-04.md'),
+      '# Tuesday\n\nWent hiking up Mount Tam with Sam.'
+    )
+    await writeFile(
+      join(vaultDir, 'Recipes.md'),
+      '# Recipes\n\nSourdough needs a long cold proof.'
+    )
+  })
+
+  afterAll(async () => {
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  beforeEach(async () => {
+    outDir = await mkdtemp(join(tempDir, 'out-'))
+    logSpy = spyOn(console, 'log').mockImplementation(() => {})
+    errorSpy = spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    logSpy.mockRestore()
+    errorSpy.mockRestore()
+  })
+
+  const cli = (...args: string[]) =>
+    runCli(['bun', 'istoria', '--out-dir', outDir, ...args])
+
+  const output = () =>
+    logSpy.mock.calls.map((call: unknown[]) => call.join(' ')).join('\n')
+
+  test('imports a source and reports what changed', async () => {
+    expect(await cli('import', 'obsidian', vaultDir)).toBe(0)
+    expect(await cli('import', 'obsidian', vaultDir)).toBe(0)
+
+    expect(logSpy.mock.calls).toEqual([
+      ['obsidian: 2 inserted, 0 updated, 0 unchanged'],
+      ['obsidian: 2 added, 0 changed, 0 moved, 0 removed'],
+      ['obsidian: 0 inserted, 0 updated, 2 unchanged'],
+      ['obsidian: 0 added, 0 changed, 0 moved, 0 removed'],
+    ])
+  })
+
+  test('shows per-source stats', async () => {
+    await cli('import', 'obsidian', vaultDir)
+    logSpy.mockClear()
+
+    expect(await cli('stats')).toBe(0)
+    expect(output()).toMatch(/^obsidian\s+2\s+\d{4}-\d{2}-\d{2}/)
+    expect(output()).toMatch(/total\s+2/)
+  })
+
+  test('searches imported memories', async () => {
+    await cli('import', 'obsidian', vaultDir)
+    logSpy.mockClear()
+
+    expect(await cli('search', 'sourdough', '--json')).toBe(0)
+    const results = JSON.parse(output())
+    expect(results).toHaveLength(1)
+    expect(results[0].title).toBe('Recipes')
+  })
+
+  test('exports without importing', async () => {
+    await cli('import', 'obsidian', vaultDir)
+    const exportDir = join(outDir, 'notebooklm')
+
+    expect(
+      await cli('export', 'notebooklm', '--to', exportDir, '--interval', 'year')
+    ).toBe(0)
+    expect(await readdir(exportDir)).not.toHaveLength(0)
+  })
+
+  test('covers the whole month or year a date names', async () => {
+    await cli('import', 'obsidian', vaultDir)
+    const titles = async (...filter: string[]) => {
+      logSpy.mockClear()
+      expect(await cli('search', 'hiking', '--json', ...filter)).toBe(0)
+      return JSON.parse(output()).map((r: { title: string }) => r.title)
+    }
+
+    expect(await titles('--until', '2025-03')).toEqual(['2025-03-04'])
+    expect(await titles('--until', '2025')).toEqual(['2025-03-04'])
+    expect(await titles('--until', '2025-02')).toEqual([])
+    expect(await titles('--since', '2025-03', '--until', '2025-03-04')).toEqual(
+      ['2025-03-04']
+    )
+    expect(await titles('--since', '2025-04')).toEqual([])
+    expect(await titles('--until', '2024')).toEqual([])
+  })
+
+  test('rejects search limits that are not positive whole numbers', async () => {
+    const stderrSpy = spyOn(process.stderr, 'write').mockImplementation(
+      () => true
+    )
+    try {
+      for (const limit of ['abc', '-1', '0', '2.5']) {
+        expect(await cli('search', 'hiking', '--limit', limit)).toBe(1)
+      }
+      expect(String(stderrSpy.mock.calls[0]?.[0])).toContain(
+        "option '-n, --limit <count>' argument 'abc' is invalid. Expected a positive whole number."
+      )
+    } finally {
+      stderrSpy.mockRestore()
+    }
+
+    await cli('import', 'obsidian', vaultDir)
+    logSpy.mockClear()
+    expect(await cli('search', 'hiking', '--limit', '1', '--json')).toBe(0)
+    expect(JSON.parse(output())).toHaveLength(1)
+  })
+
+  test('filters what is exported', async () => {
+    await cli('import', 'obsidian', vaultDir)
+    const exportDir = join(outDir, 'notebooklm')
+
+    expect(
+      await cli(
+        'export',
+        'notebooklm',
+        '--to',
+        exportDir,
+        '--interval',
+        'budget',
+        '--path',
+        'Daily/'
+      )
+    ).toBe(0)
+    const manifest = JSON.parse(
+      await readFile(join(exportDir, 'notebooklm-manifest.json'), 'utf-8')
+    )
+    expect(manifest.files).toHaveLength(1)
+    expect(manifest.files[0].memories).toBe(1)
+    expect(manifest.files[0].file).toBe('2025-03-04.txt')
+  })
+
+  test('keeps the manifests and audits of exports to one directory apart', async () => {
+    await cli('import', 'obsidian', vaultDir)
+    const rulesPath = join(tempDir, 'rules.json')
+    await writeFile(rulesPath, JSON.stringify({ names: { Sam: 'Alex' } }))
+    const exportDir = join(outDir, 'exports')
+
+    expect(
+      await cli(
+        'export',
+        'notebooklm',
+        '--to',
+        exportDir,
+        '--redact',
+        rulesPath
+      )
+    ).toBe(0)
+    expect(
+      await cli('export', 'claude', '--to', exportDir, '--redact', rulesPath)
+    ).toBe(0)
+
+    const files = await readdir(exportDir)
+    for (const [exporter, extension] of [
+      ['notebooklm', '.txt'],
+      ['claude', '.xml'],
+    ]) {
+      for (const name of [
+        `${exporter}-manifest.json`,
+        `${exporter}-redaction-audit.json`,
+      ]) {
+        const { files: listed } = JSON.parse(
+          await readFile(join(exportDir, name), 'utf-8')
+        )
+        expect(listed.length).toBeGreaterThan(0)
+        for (const { file } of listed) {
+          expect(file.endsWith(extension)).toBe(true)
+          expect(files).toContain(file)
+        }
+      }
+    }
+  })
+
+  test('lists import runs and undoes them', async () => {
+    expect(await cli('runs')).toBe(0)
+    expect(output()).toBe('No imports recorded yet')
+
+    await cli('import', 'obsidian', vaultDir)
+    logSpy.mockClear()
+
+    expect(await cli('runs')).toBe(0)
+    expect(output()).toMatch(
+      /^\s+1 {2}\d{4}-\d{2}-\d{2} \d{2}:\d{2} {2}obsidian\s+ok {2}2 inserted/
+    )
+    logSpy.mockClear()
+
+    expect(await cli('runs', 'undo', '1')).toBe(0)
+    expect(output()).toBe(
+      'Undid run 1: 2 deleted, 0 restored, 0 skipped (written by a later run)'
+    )
+    expect(await cli('runs', 'undo', '1')).toBe(1)
+    expect(errorSpy).toHaveBeenCalledWith(
+      'Import run 1 has already been undone'
+    )
+  })
+
+  test('redacts exports, or lists what it would redact', async () => {
+    await cli('import', 'obsidian', vaultDir)
+    const rulesPath = join(outDir, 'rules.json')
+    await writeFile(rulesPath, JSON.stringify({ names: { Sam: 'Alex' } }))
+    logSpy.mockClear()
+
+    expect(
+      await cli('export', 'notebooklm', '--redact', rulesPath, '--dry-run')
+    ).toBe(0)
+    expect(output()).toBe(
+      [
+        '2025-03-04  [obsidian] Daily/2025-03-04.md',
+        '    name: Sam -> Alex',
+        '1 redactions in 1 memories (dry run, nothing written)',
+      ].join('\n')
+    )
+    expect(await readdir(outDir)).not.toContain('notebooklm-manifest.json')
+
+    const exportDir = join(outDir, 'notebooklm')
+    expect(
+      await cli(
+        'export',
+        'notebooklm',
+        '--to',
+        exportDir,
+        '--redact',
+        rulesPath
+      )
+    ).toBe(0)
+    expect(await readFile(join(exportDir, 'March2025.txt'), 'utf-8')).toContain(
+      'Mount Tam with Alex.'
+    )
+    expect(await readdir(exportDir)).toContain(
+      'notebooklm-redaction-audit.json'
+    )
+
+    expect(await cli('export', 'notebooklm', '--dry-run')).toBe(1)
+    expect(errorSpy).toHaveBeenCalledWith('--dry-run needs --redact')
+  })
+
+  test('lists importers and exporters', async () => {
+    expect(await cli('sources')).toBe(0)
+
+    expect(output()).toContain('obsidian')
+    expect(output()).toContain('slack')
+    expect(output()).toContain('--grouping <type>')
+    expect(output()).toContain('notebooklm')
+    expect(output()).toContain('markdown')
+  })
+
+  test('backs up and restores the database', async () => {
+    await cli('import', 'obsidian', vaultDir)
+    const backupDir = join(outDir, 'backup')
+    logSpy.mockClear()
+
+    expect(await cli('backup', backupDir)).toBe(0)
+    expect(output()).toBe(`Backed up 2 memories and 0 blobs to ${backupDir}`)
+    expect(await cli('restore', backupDir)).toBe(1)
+    expect(errorSpy).toHaveBeenCalledWith(
+      `A database already exists at ${join(outDir, 'db.sqlite')}`
+    )
+    logSpy.mockClear()
+
+    const restoredDir = join(outDir, 'restored')
+    expect(
+      await runCli([
+        'bun',
+        'istoria',
+        '--out-dir',
+        restoredDir,
+        'restore',
+        backupDir,
+      ])
+    ).toBe(0)
+    expect(output()).toBe(`Restored 2 memories from ${backupDir}`)
+    logSpy.mockClear()
+
+    expect(
+      await runCli(['bun', 'istoria', '--out-dir', restoredDir, 'stats'])
+    ).toBe(0)
+    expect(output()).toMatch(/total\s+2/)
+  })
+
+  test('checks the database', async () => {
+    expect(await cli('db', 'check')).toBe(0)
+    expect(output()).toBe('ok')
+  })
+
+  test('returns a failing exit code on errors', async () => {
+    expect(await cli('export', 'notebooklm', '--interval', 'fortnight')).toBe(1)
+    expect(errorSpy).toHaveBeenCalledWith('Invalid interval: fortnight')
+
+    expect(await cli('import', 'obsidian', join(tempDir, 'missing'))).toBe(1)
+  })
+})
@@ -0,0 +1,692 @@
+import { mkdir } from 'node:fs/promises'
+import path from 'node:path'
+import { Command, CommanderError, InvalidArgumentError } from 'commander'
+import createDebug from 'debug'
+import { type Kysely, sql } from 'kysely'
+import { DateTime, type DateTimeUnit } from 'luxon'
+import { createBackup, restoreBackup } from './backup'
+import {
+  getMemories,
+  getSourceStats,
+  type ImportProgress,
+  type ImportResult,
+  importData,
+  searchMemories,
+} from './db-operations'
+import { getImportRuns, recordImportRun, undoImportRun } from './import-runs'
+import type { SyncSummary } from './import-state'
+import { type MemoryFilter, parseMetadataMatch } from './memory-filter'
+import { createRedactor, loadRedactionRules, type Redactor } from './redaction'
+import {
+  type CommandOption,
+  type CommandOptions,
+  exporters,
+  importers,
+} from './registry'
+import { writeMoodReport } from './reports/mood-report'
+import { createDatabase, type DatabaseSchema, type ImportRun } from './types'
+
+const d = createDebug('istoria:cli')
+
+interface GlobalOptions {
+  outDir: string
+}
+
+interface FilterCommandOptions {
+  since?: string
+  until?: string
+  source?: string[]
+  excludeSource?: string[]
+  title?: string[]
+  excludeTitle?: string[]
+  path?: string[]
+  excludePath?: string[]
+  meta?: string[]
+  excludeMeta?: string[]
+}
+
+interface SearchCommandOptions extends GlobalOptions, FilterCommandOptions {
+  limit: number
+  json?: boolean
+}
+
+interface ExportCommandOptions extends GlobalOptions {
+  to?: string
+  // A rules file, or true for the built-in detectors only
+  redact?: string | boolean
+  dryRun?: boolean
+}
+
+interface MoodReportCommandOptions extends GlobalOptions, FilterCommandOptions {
+  to?: string
+  minTagDays: string
+}
+
+function formatImportResult(source: string, result: ImportResult): string {
+  return `${source}: ${result.inserted} inserted, ${result.updated} updated, ${result.unchanged} unchanged`
+}
+
+function formatImportRun(run: ImportRun): string {
+  const started = run.startedAt.toLocal().toFormat('yyyy-MM-dd HH:mm')
+  const counts = `${run.inserted} inserted, ${run.updated} updated, ${run.unchanged} unchanged, ${run.removed} removed`
+  const status = run.undoneAt
+    ? 'undone'
+    : run.error
+      ? `failed: ${run.error}`
+      : run.finishedAt
+        ? 'ok'
+        : 'incomplete'
+  return `${String(run.id).padStart(4)}  ${started}  ${run.source.padEnd(10)} ${status}  ${counts}  ${run.inputPath}`
+}
+
+function formatSyncSummary(source: string, summary: SyncSummary): string[] {
+  return [
+    `${source}: ${summary.added.length} added, ${summary.changed.length} changed, ${summary.moved.length} moved, ${summary.removed.length} removed`,
+    ...summary.moved.map(({ from, to }) => `  moved ${from} -> ${to}`),
+    ...summary.removed.map((path) => `  removed ${path}`),
+  ]
+}
+
+/**
+ * Shows a running count while an import is in progress. Progress goes to
+ * stderr, and only when it's a terminal, so piped output stays clean.
+ */
+function reportProgress(source: string, progress: ImportProgress): void {
+  if (process.stderr.isTTY) {
+    process.stderr.write(`\r${source}: ${progress.processed} records...`)
+  }
+}
+
+function clearProgress(): void {
+  if (process.stderr.isTTY) {
+    process.stderr.clearLine(0)
+    process.stderr.cursorTo(0)
+  }
+}
+
+function formatOption(option: CommandOption): string {
+  const defaultValue =
+    option.defaultValue === undefined
+      ? ''
+      : ` (default: ${option.defaultValue})`
+  return `    ${option.flags}  ${option.description}${defaultValue}`
+}
+
+function addOptions(command: Command, options: CommandOption[] = []): Command {
+  for (const option of options) {
+    command.option(option.flags, option.description, option.defaultValue)
+  }
+  return command
+}
+
+/**
+ * Parses a count option such as --limit, which must be a positive whole
+ * number. Commander reports the error along with the option.
+ */
+function parseCountOption(value: string): number {
+  const count = Number(value)
+  if (!Number.isInteger(count) || count <= 0) {
+    throw new InvalidArgumentError('Expected a positive whole number.')
+  }
+  return count
+}
+
+/**
+ * The span a --since / --until value covers when it has no time: a year
+ * ("2025"), a month ("2025-03"), a week ("2025-W10") or a single day.
+ */
+function getDateUnit(value: string): DateTimeUnit | undefined {
+  if (/^\d{4}$/.test(value)) {
+    return 'year'
+  }
+  if (/^\d{4}-\d{2}$/.test(value)) {
+    return 'month'
+  }
+  if (/^\d{4}-?W\d{2}$/.test(value)) {
+    return 'week'
+  }
+  return value.length > 10 ? undefined : 'day'
+}
+
+/**
+ * Parses a --since / --until value. Dates without a time cover the whole
+ * span they name, so "--until 2025-03-04" includes everything on the 4th and
+ * "--until 2025-03" everything in March.
+ */
+function parseDateOption(value: string, edge: 'start' | 'end'): DateTime {
+  const date = DateTime.fromISO(value)
+  if (!date.isValid) {
+    throw new Error(`Invalid date: ${value}`)
+  }
+  const unit = getDateUnit(value)
+  if (!unit) {
+    return date
+  }
+  return edge === 'start' ? date.startOf(unit) : date.endOf(unit)
+}
+
+/**
+ * Adds the options shared by every command that selects memories.
+ */
+function addFilterOptions(command: Command): Command {
+  return command
+    .option('--since <date>', 'Only memories on or after this date')
+    .option('--until <date>', 'Only memories on or before this date')
+    .option('-s, --source <source...>', 'Only memories from these sources')
+    .option('--exclude-source <source...>', 'Skip memories from these sources')
+    .option('--title <glob...>', 'Only memories whose title matches a glob')
+    .option('--exclude-title <glob...>', 'Skip memories whose title matches')
+    .option('--path <prefix...>', 'Only memories under these original paths')
+    .option('--exclude-path <prefix...>', 'Skip memories under these paths')
+    .option('--meta <key[=value]...>', 'Only memories with this metadata')
+    .option(
+      '--exclude-meta <key[=value]...>',
+      'Skip memories with this metadata'
+    )
+}
+
+function parseFilterOptions(options: FilterCommandOptions): MemoryFilter {
+  return {
+    ...(options.since && { since: parseDateOption(options.since, 'start') }),
+    ...(options.until && { until: parseDateOption(options.until, 'end') }),
+    ...(options.source && { sources: options.source }),
+    ...(options.excludeSource && { excludeSources: options.excludeSource }),
+    ...(options.title && { titles: options.title }),
+    ...(options.excludeTitle && { excludeTitles: options.excludeTitle }),
+    ...(options.path && { pathPrefixes: options.path }),
+    ...(options.excludePath && { excludePathPrefixes: options.excludePath }),
+    ...(options.meta && { metadata: options.meta.map(parseMetadataMatch) }),
+    ...(options.excludeMeta && {
+      excludeMetadata: options.excludeMeta.map(parseMetadataMatch),
+    }),
+  }
+}
+
+function getDatabasePath(outDir: string): string {
+  return path.join(outDir, 'db.sqlite')
+}
+
+/**
+ * Opens the database in the output directory, runs a command against it,
+ * then closes the database and returns the command's exit code. Errors are
+ * reported and turned into exit code 1.
+ */
+async function withDatabase(
+  outDir: string,
+  command: (db: Kysely<DatabaseSchema>) => Promise<number>
+): Promise<number> {
+  try {
+    await mkdir(outDir, { recursive: true })
+    d('created output directory: %s', outDir)
+
+    const dbPath = getDatabasePath(outDir)
+    d('opening database at: %s', dbPath)
+    const [db, close] = await createDatabase(dbPath)
+
+    try {
+      return await command(db)
+    } finally {
+      d('closing database')
+      await close()
+    }
+  } catch (error) {
+    d('fatal error: %O', error)
+    console.error(error instanceof Error ? error.message : error)
+    return 1
+  }
+}
+
+export async function search(
+  db: Kysely<DatabaseSchema>,
+  query: string,
+  options: SearchCommandOptions
+): Promise<number> {
+  const results = await searchMemories(db, query, {
+    ...parseFilterOptions(options),
+    limit: options.limit,
+  })
+
+  if (options.json) {
+    const json = results.map(({ memory, rank, snippet }) => ({
+      id: memory.id,
+      source: memory.source,
+      sourceKey: memory.sourceKey,
+      title: memory.title,
+      memoryCreatedAt: memory.memoryCreatedAt.toISO(),
+      rank,
+      snippet,
+    }))
+    console.log(JSON.stringify(json, null, 2))
+    return 0
+  }
+
+  if (results.length === 0) {
+    console.log(`No memories match "${query}"`)
+    return 0
+  }
+
+  for (const { memory, snippet } of results) {
+    const date = memory.memoryCreatedAt.toFormat('yyyy-MM-dd HH:mm')
+    console.log(`${date}  [${memory.source}] ${memory.title}`)
+    console.log(`    ${snippet.replace(/\s+/g, ' ').trim()}`)
+  }
+  return 0
+}
+
+export async function stats(db: Kysely<DatabaseSchema>): Promise<number> {
+  const rows = await getSourceStats(db)
+  if (rows.length === 0) {
+    console.log('No memories imported yet')
+    return 0
+  }
+
+  let total = 0
+  for (const row of rows) {
+    total += row.count
+    const range = `${row.earliest.toISODate()} – ${row.latest.toISODate()}`
+    console.log(
+      `${row.source.padEnd(12)} ${String(row.count).padStart(8)}  ${range}`
+    )
+  }
+  console.log(`${'total'.padEnd(12)} ${String(total).padStart(8)}`)
+  return 0
+}
+
+/**
+ * Lists what redaction would replace in the memories an export would write,
+ * without writing anything.
+ */
+export async function previewRedactions(
+  db: Kysely<DatabaseSchema>,
+  filter: MemoryFilter,
+  redactor: Redactor
+): Promise<number> {
+  let total = 0
+  let memories = 0
+  for (const memory of await getMemories(db, filter)) {
+    const { matches } = redactor.redact(
+      [memory.title, memory.content ?? ''].join('\n')
+    )
+    if (matches.length === 0) {
+      continue
+    }
+    const date = memory.memoryCreatedAt.toFormat('yyyy-MM-dd')
+    const originalPath = memory.metadata['originalPath']
+    const label = typeof originalPath === 'string' ? originalPath : memory.title
+    console.log(`${date}  [${memory.source}] ${label}`)
+    for (const { rule, text, replacement } of matches) {
+      console.log(`    ${rule}: ${text} -> ${replacement}`)
+    }
+    total += matches.length
+    memories++
+  }
+  console.log(
+    `${total} redactions in ${memories} memories (dry run, nothing written)`
+  )
+  return 0
+}
+
+/**
+ * Builds the istoria command-line program. Each call returns a fresh program
+ * whose actions report their exit code through `setExitCode`, so the CLI can
+ * be driven in-process (see `runCli`).
+ */
+export function createProgram(setExitCode: (code: number) => void): Command {
+  const program = new Command()
+    .name('istoria')
+    .description('Import and process memory data')
+    .option('-o, --out-dir <path>', 'Output directory for the database', 'out')
+    .exitOverride()
+
+  const importCommand = program
+    .command('import')
+    .description('Import memories from a data source')
+
+  for (const importer of importers) {
+    addOptions(
+      importCommand
+        .command(importer.name)
+        .description(importer.description)
+        .argument('<path>', 'Path to import from'),
+      importer.options
+    ).action(async (inputPath: string, _options, command: Command) => {
+      const { outDir } = command.optsWithGlobals<GlobalOptions>()
+      const options = command.opts<CommandOptions>()
+      d(
+        'importing %s from %s with options %O',
+        importer.name,
+        inputPath,
+        options
+      )
+
+      setExitCode(
+        await withDatabase(outDir, async (db) => {
+          const result = await recordImportRun(
+            db,
+            importer.name,
+            inputPath,
+            {
+              onProgress: (progress) => reportProgress(importer.name, progress),
+            },
+            (importOptions) =>
+              importer.sync
+                ? importer.sync(db, inputPath, options, importOptions)
+                : importData(
+                    db,
+                    importer.run(inputPath, options),
+                    importOptions
+                  )
+          )
+          clearProgress()
+          console.log(formatImportResult(importer.name, result))
+          if ('summary' in result) {
+            for (const line of formatSyncSummary(
+              importer.name,
+              result.summary
+            )) {
+              console.log(line)
+            }
+          }
+          return 0
+        })
+      )
+    })
+  }
+
+  const exportCommand = program
+    .command('export')
+    .description('Export imported memories to another format')
+
+  for (const exporter of exporters) {
+    addOptions(
+      addFilterOptions(
+        exportCommand
+          .command(exporter.name)
+          .description(exporter.description)
+          .option('--to <dir>', 'Directory to export to (default: the out-dir)')
+          .option(
+            '--redact [rules]',
+            'Redact emails, phone numbers, cards, API keys and the rules file'
+          )
+          .option('--dry-run', 'With --redact, list matches without exporting')
+      ),
+      exporter.options
+    ).action(async (_options, command: Command) => {
+      const { outDir, to, redact, dryRun, ...options } =
+        command.optsWithGlobals<ExportCommandOptions & CommandOptions>()
+      const filterOptions = command.opts<FilterCommandOptions>()
+      const outputDir = to ?? outDir
+      d('exporting %s to %s with options %O', exporter.name, outputDir, options)
+
+      setExitCode(
+        await withDatabase(outDir, async (db) => {
+          const filter = parseFilterOptions(filterOptions)
+          if (dryRun && !redact) {
+            throw new Error('--dry-run needs --redact')
+          }
+          const redactor = redact
+            ? createRedactor(
+                typeof redact === 'string'
+                  ? await loadRedactionRules(redact)
+                  : {}
+              )
+            : undefined
+          if (redactor && dryRun) {
+            return previewRedactions(db, filter, redactor)
+          }
+
+          await mkdir(outputDir, { recursive: true })
+          await exporter.run(db, outputDir, options, filter, redactor)
+          console.log(`${exporter.name}: exported to ${outputDir}`)
+          return 0
+        })
+      )
+    })
+  }
+
+  program
+    .command('sources')
+    .description('List the available importers and exporters')
+    .action(() => {
+      console.log('Importers (istoria import <name> <path>):')
+      for (const importer of importers) {
+        console.log(`  ${importer.name.padEnd(10)} ${importer.description}`)
+        for (const option of importer.options ?? []) {
+          console.log(formatOption(option))
+        }
+      }
+
+      console.log('')
+      console.log('Exporters (istoria export <name>):')
+      for (const exporter of exporters) {
+        console.log(`  ${exporter.name.padEnd(10)} ${exporter.description}`)
+        for (const option of exporter.options ?? []) {
+          console.log(formatOption(option))
+        }
+      }
+      setExitCode(0)
+    })
+
+  program
+    .command('stats')
+    .description('Show how many memories each source has and when they span')
+    .action(async (_options, command: Command) => {
+      const { outDir } = command.optsWithGlobals<GlobalOptions>()
+      setExitCode(await withDatabase(outDir, stats))
+    })
+
+  addFilterOptions(
+    program
+      .command('search')
+      .description('Full-text search over imported memories')
+      .argument('<query>', 'Words to search for')
+  )
+    .option(
+      '-n, --limit <count>',
+      'Maximum number of results',
+      parseCountOption,
+      20
+    )
+    .option('--json', 'Output results as JSON')
+    .action(async (query: string, _options, command: Command) => {
+      const options = command.optsWithGlobals<SearchCommandOptions>()
+      setExitCode(
+        await withDatabase(options.outDir, (db) => search(db, query, options))
+      )
+    })
+
+  const reportCommand = program
+    .command('report')
+    .description('Write reports computed from imported memories')
+
+  addFilterOptions(
+    reportCommand
+      .command('mood')
+      .description(
+        'Mood by week, month and weekday, tags on good and bad days, and streaks (from Daylio)'
+      )
+      .option('--to <dir>', 'Directory to write to (default: the out-dir)')
+  )
+    .option(
+      '--min-tag-days <count>',
+      'Leave out tags logged on fewer days from the tag rankings',
+      '3'
+    )
+    .action(async (_options, command: Command) => {
+      const options = command.optsWithGlobals<MoodReportCommandOptions>()
+      const outputDir = options.to ?? options.outDir
+      setExitCode(
+        await withDatabase(options.outDir, async (db) => {
+          const minTagDays = Number(options.minTagDays)
+          if (!Number.isInteger(minTagDays) || minTagDays < 1) {
+            throw new Error(`Invalid --min-tag-days: ${options.minTagDays}`)
+          }
+
+          await mkdir(outputDir, { recursive: true })
+          const report = await writeMoodReport(db, outputDir, {
+            filter: parseFilterOptions(options),
+            minTagDays,
+          })
+          console.log(
+            `mood: ${report.days.length} days reported to ${outputDir}`
+          )
+          return 0
+        })
+      )
+    })
+
+  const runsCommand = program
+    .command('runs')
+    .description('List past imports, or undo one')
+
+  runsCommand
+    .command('list', { isDefault: true })
+    .description('List import runs, most recent first')
+    .action(async (_options, command: Command) => {
+      const { outDir } = command.optsWithGlobals<GlobalOptions>()
+      setExitCode(
+        await withDatabase(outDir, async (db) => {
+          const runs = await getImportRuns(db)
+          if (runs.length === 0) {
+            console.log('No imports recorded yet')
+          }
+          for (const run of runs) {
+            console.log(formatImportRun(run))
+          }
+          return 0
+        })
+      )
+    })
+
+  runsCommand
+    .command('undo')
+    .description('Roll back an import run')
+    .argument('<id>', 'Id of the run, as listed by `istoria runs`')
+    .action(async (id: string, _options, command: Command) => {
+      const { outDir } = command.optsWithGlobals<GlobalOptions>()
+      setExitCode(
+        await withDatabase(outDir, async (db) => {
+          const runId = Number(id)
+          if (!Number.isInteger(runId)) {
+            throw new Error(`Invalid run id: ${id}`)
+          }
+          const result = await undoImportRun(db, runId)
+          console.log(
+            `Undid run ${runId}: ${result.deleted} deleted, ${result.restored} restored, ${result.skipped} skipped (written by a later run)`
+          )
+          return 0
+        })
+      )
+    })
+
+  program
+    .command('backup')
+    .description(
+      'Write a lossless backup of the database (JSONL, blobs and a manifest)'
+    )
+    .argument('<dir>', 'New or empty directory to write the backup to')
+    .action(async (backupDir: string, _options, command: Command) => {
+      const { outDir } = command.optsWithGlobals<GlobalOptions>()
+      setExitCode(
+        await withDatabase(outDir, async (db) => {
+          const manifest = await createBackup(db, backupDir)
+          const memories =
+            manifest.tables.find((table) => table.name === 'memory')?.rows ?? 0
+          console.log(
+            `Backed up ${memories} memories and ${manifest.blobs.count} blobs to ${backupDir}`
+          )
+          return 0
+        })
+      )
+    })
+
+  program
+    .command('restore')
+    .description('Restore a backup into a new database in the out-dir')
+    .argument('<dir>', 'Directory written by `istoria backup`')
+    .action(async (backupDir: string, _options, command: Command) => {
+      const { outDir } = command.optsWithGlobals<GlobalOptions>()
+      try {
+        await mkdir(outDir, { recursive: true })
+        const manifest = await restoreBackup(backupDir, getDatabasePath(outDir))
+        const memories =
+          manifest.tables.find((table) => table.name === 'memory')?.rows ?? 0
+        console.log(`Restored ${memories} memories from ${backupDir}`)
+        setExitCode(0)
+      } catch (error) {
+        d('restore failed: %O', error)
+        console.error(error instanceof Error ? error.message : error)
+        setExitCode(1)
+      }
+    })
+
+  const dbCommand = program
+    .command('db')
+    .description('Inspect and maintain the database')
+
+  dbCommand
+    .command('path')
+    .description('Print the path of the database file')
+    .action((_options, command: Command) => {
+      const { outDir } = command.optsWithGlobals<GlobalOptions>()
+      console.log(path.resolve(getDatabasePath(outDir)))
+      setExitCode(0)
+    })
+
+  dbCommand
+    .command('vacuum')
+    .description('Rebuild the database file to reclaim unused space')
+    .action(async (_options, command: Command) => {
+      const { outDir } = command.optsWithGlobals<GlobalOptions>()
+      setExitCode(
+        await withDatabase(outDir, async (db) => {
+          await sql`VACUUM`.execute(db)
+          console.log('Database vacuumed')
+          return 0
+        })
+      )
+    })
+
+  dbCommand
+    .command('check')
+    .description('Run an integrity check on the database')
+    .action(async (_options, command: Command) => {
+      const { outDir } = command.optsWithGlobals<GlobalOptions>()
+      setExitCode(
+        await withDatabase(outDir, async (db) => {
+          const { rows } = await sql<{
+            integrity_check: string
+          }>`PRAGMA integrity_check`.execute(db)
+          for (const row of rows) {
+            console.log(row.integrity_check)
+          }
+          return rows.length === 1 && rows[0]?.integrity_check === 'ok' ? 0 : 1
+        })
+      )
+    })
+
+  return program
+}
+
+/**
+ * Runs the CLI with the given arguments (in process.argv form, i.e. starting
+ * with the runtime and script paths) and returns its exit code.
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  let exitCode = 0
+  const program = createProgram((code) => {
+    exitCode = code
+  })
+
+  try {
+    await program.parseAsync(argv)
+  } catch (error) {
+    if (error instanceof CommanderError) {
+      d('commander exited: %s', error.code)
+      return error.exitCode
+    }
+    throw error
+  }
+
+  return exitCode
+}
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { type Kysely, sql } from 'kysely'
+import { DateTime } from 'luxon'
+import { getMemories, importData, searchMemories } from './db-operations'
+import { createDatabase, type DatabaseSchema, type NewMemory } from './types'
+
+describe('column codecs', () => {
+  let db: Kysely<DatabaseSchema>
+  let cleanup: () => Promise<void>
+
+  beforeEach(async () => {
+    ;[db, cleanup] = await createDatabase(':memory:')
+  })
+
+  afterEach(async () => {
+    await cleanup()
+  })
+
+  const note = (
+    sourceKey: string,
+    title: string,
+    content: string
+  ): NewMemory => ({
+    source: 'obsidian',
+    sourceKey,
+    memoryCreatedAt: DateTime.fromISO('2025-03-04T09:00:00Z'),
+    title,
+    metadata: { originalPath: sourceKey, due: '2025-03-05T10:00:00Z' },
+    content,
+  })
+
+  test('reads back text that looks like dates or JSON as written', async () => {
+    const memories = [
+      note('a.md', '2025-03-04T09:00:00 standup', 'Notes from standup'),
+      note('b.md', '{Braces}', '{"model": "gpt", "temperature": 0.2}'),
+      note('c.md', '[[Wikilink]]', '[1, 2, 3]'),
+      note('d.md', 'Config', '```json\n{"a": [1, 2]}\n```'),
+      note('e.md', 'Broken', '{not json}'),
+      note('f.md', '2025-03-04T09:00:00', '2025-03-04T09:00:00.000Z'),
+    ]
+    await importData(db, memories)
+
+    const stored = await getMemories(db, {})
+    expect(stored.map((m) => [m.title, m.content])).toEqual(
+      memories.map((m) => [m.title, m.content])
+    )
+    for (const memory of stored) {
+      expect(DateTime.isDateTime(memory.memoryCreatedAt)).toBe(true)
+      expect(DateTime.isDateTime(memory.createdAt)).toBe(true)
+      // JSON values stay as they are, dates included
+      expect(memory.metadata).toEqual({
+        originalPath: memory.sourceKey,
+        due: '2025-03-05T10:00:00Z',
+      })
+    }
+
+    const [result] = await searchMemories(db, 'temperature')
+    expect(result?.memory.content).toBe('{"model": "gpt", "temperature": 0.2}')
+  })
+
+  test('reads databases written before codecs', async () => {
+    // As rows were stored before: ISO strings with offsets and JSON text
+    await sql`
+      INSERT INTO memory (
+        id, source, sourceKey, createdAt, memoryCreatedAt, title, metadata,
+        content
+      ) VALUES (
+        'old', 'daylio', '2024-05-02', '2024-05-03T08:00:00.000+00:00',
+        '2024-05-02T21:00:00.000+01:00', 'Daylio: 2024-05-02',
+        '{"dayKey":"2024-05-02","tags":["travel"]}', 'Rad: tram'
+      )
+    `.execute(db)
+
+    const [memory] = await getMemories(db, {})
+    expect(memory?.memoryCreatedAt.toMillis()).toBe(
+      Date.parse('2024-05-02T20:00:00Z')
+    )
+    expect(memory?.createdAt.toMillis()).toBe(
+      Date.parse('2024-05-03T08:00:00Z')
+    )
+    expect(memory?.metadata).toEqual({ dayKey: '2024-05-02', tags: ['travel'] })
+    expect(memory?.content).toBe('Rad: tram')
+  })
+
+  test('decodes nullable timestamps', async () => {
+    await db
+      .insertInto('import_run')
+      .values({
+        source: 'obsidian',
+        inputPath: '2025-03-04T09:00:00Z',
+        inputHash: null,
+        startedAt: DateTime.fromISO('2025-03-04T09:00:00Z'),
+        finishedAt: null,
+        inserted: 0,
+        updated: 0,
+        unchanged: 0,
+        removed: 0,
+        error: '{"code": 1}',
+        undoneAt: null,
+      })
+      .execute()
+
+    const run = await db
+      .selectFrom('import_run')
+      .selectAll()
+      .executeTakeFirstOrThrow()
+    expect(run.startedAt.toMillis()).toBe(Date.parse('2025-03-04T09:00:00Z'))
+    expect(run.finishedAt).toBeNull()
+    expect(run.inputPath).toBe('2025-03-04T09:00:00Z')
+    expect(run.error).toBe('{"code": 1}')
+  })
+
+  test('reports invalid stored values', async () => {
+    await importData(db, [note('a.md', 'A', 'a')])
+    await sql`UPDATE memory SET memoryCreatedAt = 'yesterday'`.execute(db)
+
+    await expect(getMemories(db, {})).rejects.toThrow(
+      'Failed to read memoryCreatedAt: Invalid timestamp in the database: yesterday'
+    )
+  })
+})
@@ -0,0 +1,160 @@
+import createDebug from 'debug'
+import {
+  AliasNode,
+  type KyselyPlugin,
+  type OperationNode,
+  type QueryId,
+  type RootOperationNode,
+  TableNode,
+  type UnknownRow,
+} from 'kysely'
+import { DateTime } from 'luxon'
+
+const d = createDebug('istoria:codecs')
+
+/**
+ * Converts a column's values between what the code works with and what
+ * SQLite stores.
+ */
+export interface ColumnCodec {
+  encode(value: unknown): unknown
+  decode(value: unknown): unknown
+}
+
+/**
+ * Codecs by table and column. Columns without one are read back as stored.
+ */
+export type ColumnCodecs = Record<string, Record<string, ColumnCodec>>
+
+/**
+ * Luxon DateTimes, stored as ISO strings with their offset and read back in
+ * the default zone.
+ */
+export const timestampCodec: ColumnCodec = {
+  encode: (value) => (DateTime.isDateTime(value) ? value.toISO() : value),
+  decode: (value) => {
+    if (typeof value !== 'string') {
+      return value
+    }
+    const dateTime = DateTime.fromISO(value)
+    if (!dateTime.isValid) {
+      throw new Error(`Invalid timestamp in the database: ${value}`)
+    }
+    return dateTime
+  },
+}
+
+/**
+ * JSON objects and arrays, stored as JSON text.
+ */
+export const jsonCodec: ColumnCodec = {
+  encode: (value) =>
+    value !== null && typeof value === 'object' && !ArrayBuffer.isView(value)
+      ? JSON.stringify(value)
+      : value,
+  decode: (value) => (typeof value === 'string' ? JSON.parse(value) : value),
+}
+
+/**
+ * Encodes a query parameter. Parameters don't say which column they're for,
+ * so this goes by type: DateTimes and plain objects are the only values that
+ * need converting, and nothing else is touched. Arrays are left alone since
+ * they're only ever used for `in` lists.
+ */
+export function encodeParameter(value: unknown): unknown {
+  if (DateTime.isDateTime(value)) {
+    return timestampCodec.encode(value)
+  }
+  if (
+    value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    !ArrayBuffer.isView(value)
+  ) {
+    return jsonCodec.encode(value)
+  }
+  return value
+}
+
+function getTableName(node: OperationNode | undefined): string | undefined {
+  if (node && AliasNode.is(node)) {
+    return getTableName(node.node)
+  }
+  return node && TableNode.is(node) ? node.table.identifier.name : undefined
+}
+
+/**
+ * Lists the tables a query reads its result columns from: the FROM and
+ * joined tables of a select, or the table an insert, update or delete
+ * returns from. Tables only used in subqueries don't count.
+ */
+function getResultTables(node: RootOperationNode): string[] {
+  const tables: (OperationNode | undefined)[] = []
+  switch (node.kind) {
+    case 'SelectQueryNode':
+      tables.push(...(node.from?.froms ?? []))
+      tables.push(...(node.joins ?? []).map((join) => join.table))
+      break
+    case 'InsertQueryNode':
+      tables.push(node.into)
+      break
+    case 'UpdateQueryNode':
+      tables.push(node.table)
+      break
+    case 'DeleteQueryNode':
+      tables.push(...node.from.froms)
+      break
+  }
+  return tables.flatMap((table) => getTableName(table) ?? [])
+}
+
+/**
+ * A Kysely plugin that decodes result columns with the codecs of the tables
+ * the query reads from, so that only known columns are converted: text that
+ * happens to look like a date or JSON comes back as written. Raw SQL queries
+ * are returned as stored.
+ */
+export function createCodecPlugin(codecs: ColumnCodecs): KyselyPlugin {
+  const decoders = new WeakMap<QueryId, Map<string, ColumnCodec>>()
+
+  return {
+    transformQuery({ node, queryId }) {
+      const columns = new Map<string, ColumnCodec>()
+      for (const table of getResultTables(node)) {
+        for (const [column, codec] of Object.entries(codecs[table] ?? {})) {
+          columns.set(column, codec)
+        }
+      }
+      if (columns.size > 0) {
+        decoders.set(queryId, columns)
+      }
+      return node
+    },
+
+    async transformResult({ result, queryId }) {
+      const columns = decoders.get(queryId)
+      if (!columns) {
+        return result
+      }
+      return {
+        ...result,
+        rows: result.rows.map((row) => {
+          const decoded: UnknownRow = { ...row }
+          for (const [column, codec] of columns) {
+            if (column in decoded) {
+              try {
+                decoded[column] = codec.decode(decoded[column])
+              } catch (error) {
+                d('failed to decode %s: %O', column, error)
+                throw new Error(
+                  `Failed to read ${column}: ${(error as Error).message}`
+                )
+              }
+            }
+          }
+          return decoded
+        }),
+      }
+    },
+  }
+}
@@ -1,7 +1,15 @@
+import { Database } from 'bun:sqlite'
 import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
-import type { Kysely } from 'kysely'
+import { Kysely, Migrator, sql } from 'kysely'
+import { BunSqliteDialect } from 'kysely-bun-sqlite'
 import { DateTime } from 'luxon'
-import { importData } from './db-operations'
+import {
+  getMemories,
+  getSourceStats,
+  importData,
+  searchMemories,
+} from './db-operations'
+import { migrator } from './migrations/this-sucks'
 import { createDatabase, type DatabaseSchema, type NewMemory } from './types'
 
 describe('importData', () => {
@@ -23,6 +31,7 @@ describe('importData', () => {
 
     const record: NewMemory = {
       source: 'test',
+      sourceKey: 'test-memory',
       memoryCreatedAt: testDate,
       title: 'Test Memory',
       metadata: { foo: 'bar' },
@@ -53,6 +62,7 @@ describe('importData', () => {
     const records: NewMemory[] = [
       {
         source: 'test',
+        sourceKey: 'first',
         memoryCreatedAt: DateTime.fromISO('2025-01-01'),
         title: 'First',
         metadata: {},
@@ -60,6 +70,7 @@ describe('importData', () => {
       },
       {
         source: 'test',
+        sourceKey: 'second',
         memoryCreatedAt: DateTime.fromISO('2025-06-15'),
         title: 'Second',
         metadata: {},
@@ -72,4 +83,335 @@ describe('importData', () => {
     const results = await db.selectFrom('memory').selectAll().execute()
     expect(results).toHaveLength(2)
   })
+  test('re-importing the same records is a no-op', async () => {
+    const records: NewMemory[] = [
+      {
+        source: 'test',
+        sourceKey: 'a.md',
+        memoryCreatedAt: DateTime.fromISO('2025-01-01'),
+        title: 'A',
+        metadata: {},
+        content: 'Content A',
+      },
+      {
+        source: 'test',
+        sourceKey: 'b.md',
+        memoryCreatedAt: DateTime.fromISO('2025-01-02'),
+        title: 'B',
+        metadata: {},
+        content: 'Content B',
+      },
+    ]
+
+    const first = await importData(db, records)
+    expect(first).toEqual({ inserted: 2, updated: 0, unchanged: 0 })
+
+    const second = await importData(db, records)
+    expect(second).toEqual({ inserted: 0, updated: 0, unchanged: 2 })
+
+    const results = await db.selectFrom('memory').selectAll().execute()
+    expect(results).toHaveLength(2)
+  })
+
+  test('updates changed records in place', async () => {
+    const record: NewMemory = {
+      source: 'test',
+      sourceKey: 'note.md',
+      memoryCreatedAt: DateTime.fromISO('2025-01-01'),
+      title: 'Note',
+      metadata: {},
+      content: 'Original',
+    }
+
+    await importData(db, [record])
+    const [before] = await db.selectFrom('memory').selectAll().execute()
+
+    const result = await importData(db, [
+      { ...record, content: 'Edited' },
+      { ...record, sourceKey: 'other.md', title: 'Other' },
+    ])
+    expect(result).toEqual({ inserted: 1, updated: 1, unchanged: 0 })
+
+    const after = await db
+      .selectFrom('memory')
+      .selectAll()
+      .where('sourceKey', '=', 'note.md')
+      .executeTakeFirstOrThrow()
+    expect(after.id).toBe(before!.id)
+    expect(after.content).toBe('Edited')
+  })
+
+  test('the same key in different sources is a different memory', async () => {
+    const record: NewMemory = {
+      source: 'obsidian',
+      sourceKey: '2025-01-01',
+      memoryCreatedAt: DateTime.fromISO('2025-01-01'),
+      title: '2025-01-01',
+      metadata: {},
+    }
+
+    const result = await importData(db, [
+      record,
+      { ...record, source: 'daylio' },
+    ])
+    expect(result.inserted).toBe(2)
+  })
+
+  describe('streaming', () => {
+    const start = DateTime.fromISO('2000-01-01T09:00:00Z')
+
+    async function* syntheticMemories(
+      count: number,
+      failAt?: number
+    ): AsyncGenerator<NewMemory> {
+      for (let i = 0; i < count; i++) {
+        if (i === failAt) {
+          throw new Error('source failed')
+        }
+        yield {
+          source: 'synthetic',
+          sourceKey: `record-${i}`,
+          memoryCreatedAt: start.plus({ hours: i }),
+          title: `Record ${i}`,
+          metadata: { index: i },
+          content: `Synthetic record number ${i}`,
+        }
+      }
+    }
+
+    const countMemories = async () => {
+      const { count } = await db
+        .selectFrom('memory')
+        .select((eb) => eb.fn.countAll<number>().as('count'))
+        .executeTakeFirstOrThrow()
+      return count
+    }
+
+    test('imports tens of thousands of records in batches', async () => {
+      const progress: number[] = []
+      const result = await importData(db, syntheticMemories(25_000), {
+        batchSize: 1000,
+        onProgress: ({ processed }) => progress.push(processed),
+      })
+
+      expect(result).toEqual({ inserted: 25_000, updated: 0, unchanged: 0 })
+      expect(await countMemories()).toBe(25_000)
+      expect(progress).toHaveLength(25)
+      expect(progress.at(-1)).toBe(25_000)
+
+      const again = await importData(db, syntheticMemories(25_000))
+      expect(again).toEqual({ inserted: 0, updated: 0, unchanged: 25_000 })
+    }, 120_000)
+
+    test('reports a final partial batch', async () => {
+      const progress: number[] = []
+      await importData(db, syntheticMemories(250), {
+        batchSize: 100,
+        onProgress: ({ processed }) => progress.push(processed),
+      })
+
+      expect(progress).toEqual([100, 200, 250])
+    })
+
+    test('a failed run keeps committed batches and drops the rest', async () => {
+      const progress: number[] = []
+      await expect(
+        importData(db, syntheticMemories(1000, 450), {
+          batchSize: 100,
+          onProgress: ({ processed }) => progress.push(processed),
+        })
+      ).rejects.toThrow('source failed')
+
+      expect(await countMemories()).toBe(400)
+      expect(progress).toEqual([100, 200, 300, 400])
+
+      // Re-running finishes the job without duplicating anything
+      const result = await importData(db, syntheticMemories(1000))
+      expect(result).toEqual({ inserted: 600, updated: 0, unchanged: 400 })
+    })
+  })
+})
+
+describe('searchMemories', () => {
+  let db: Kysely<DatabaseSchema>
+  let cleanup: () => Promise<void>
+
+  const records: NewMemory[] = [
+    {
+      source: 'obsidian',
+      sourceKey: 'Trips/Lisbon.md',
+      memoryCreatedAt: DateTime.fromISO('2024-05-01T09:00:00+01:00'),
+      title: 'Lisbon trip',
+      metadata: { originalPath: 'Trips/Lisbon.md' },
+      content: 'Booked the tram tour and a day in Sintra.',
+    },
+    {
+      source: 'daylio',
+      sourceKey: '2024-05-02',
+      memoryCreatedAt: DateTime.fromISO('2024-05-02T21:00:00+01:00'),
+      title: 'Daylio: 2024-05-02',
+      metadata: { dayKey: '2024-05-02' },
+      content: 'Rad: Rode the tram all afternoon (travel)',
+    },
+    {
+      source: 'daylio',
+      sourceKey: '2025-01-10',
+      memoryCreatedAt: DateTime.fromISO('2025-01-10T20:00:00-08:00'),
+      title: 'Daylio: 2025-01-10',
+      metadata: { dayKey: '2025-01-10' },
+      content: "Meh: Didn't do much (home)",
+    },
+  ]
+
+  beforeEach(async () => {
+    ;[db, cleanup] = await createDatabase(':memory:')
+    await importData(db, records)
+  })
+
+  afterEach(async () => {
+    await cleanup()
+  })
+
+  test('finds matches across sources with highlighted snippets', async () => {
+    const results = await searchMemories(db, 'tram')
+
+    expect(results.map((r) => r.memory.sourceKey).sort()).toEqual([
+      '2024-05-02',
+      'Trips/Lisbon.md',
+    ])
+    for (const result of results) {
+      expect(result.snippet).toContain('**tram**')
+    }
+  })
+
+  test('ranks title matches above content matches', async () => {
+    const results = await searchMemories(db, 'lisbon')
+    expect(results[0]?.memory.title).toBe('Lisbon trip')
+  })
+
+  test('filters by source and date', async () => {
+    const bySource = await searchMemories(db, 'tram', { sources: ['daylio'] })
+    expect(bySource.map((r) => r.memory.sourceKey)).toEqual(['2024-05-02'])
+
+    const byDate = await searchMemories(db, 'tram', {
+      since: DateTime.fromISO('2024-05-02T00:00:00Z'),
+    })
+    expect(byDate.map((r) => r.memory.sourceKey)).toEqual(['2024-05-02'])
+
+    const until = await searchMemories(db, 'tram', {
+      until: DateTime.fromISO('2024-05-01T23:59:59Z'),
+    })
+    expect(until.map((r) => r.memory.sourceKey)).toEqual(['Trips/Lisbon.md'])
+  })
+
+  test('treats punctuation in queries as text', async () => {
+    const results = await searchMemories(db, "didn't")
+    expect(results.map((r) => r.memory.sourceKey)).toEqual(['2025-01-10'])
+  })
+
+  test('stays in sync when memories change or are deleted', async () => {
+    await importData(db, [{ ...records[0]!, content: 'Went by ferry instead' }])
+    expect(await searchMemories(db, 'ferry')).toHaveLength(1)
+    expect(
+      (await searchMemories(db, 'tram')).map((r) => r.memory.source)
+    ).toEqual(['daylio'])
+
+    await db.deleteFrom('memory').where('source', '=', 'daylio').execute()
+    expect(await searchMemories(db, 'tram')).toHaveLength(0)
+  })
+})
+
+describe('memory instants', () => {
+  let db: Kysely<DatabaseSchema>
+  let cleanup: () => Promise<void>
+
+  const at = (sourceKey: string, time: DateTime): NewMemory => ({
+    source: 'test',
+    sourceKey,
+    memoryCreatedAt: time,
+    title: sourceKey,
+    metadata: {},
+  })
+
+  beforeEach(async () => {
+    ;[db, cleanup] = await createDatabase(':memory:')
+  })
+
+  afterEach(async () => {
+    await cleanup()
+  })
+
+  test('orders memories by instant whatever their offsets', async () => {
+    await importData(db, [
+      // 10:00 UTC
+      at(
+        'Auckland',
+        DateTime.fromISO('2025-01-01T23:00+13:00', { setZone: true })
+      ),
+      // 09:00 UTC
+      at(
+        'Lisbon',
+        DateTime.fromISO('2025-01-01T09:00', { zone: 'Europe/Lisbon' })
+      ),
+      // 11:00 UTC
+      at(
+        'Honolulu',
+        DateTime.fromISO('2025-01-01T01:00', { zone: 'Pacific/Honolulu' })
+      ),
+    ])
+
+    const memories = await getMemories(db, {})
+    expect(
+      memories.map((m) => [m.sourceKey, m.memoryInstant, m.memoryZone])
+    ).toEqual([
+      ['Lisbon', Date.parse('2025-01-01T09:00Z'), 'Europe/Lisbon'],
+      ['Auckland', Date.parse('2025-01-01T10:00Z'), 'UTC+13'],
+      ['Honolulu', Date.parse('2025-01-01T11:00Z'), 'Pacific/Honolulu'],
+    ])
+
+    const [stats] = await getSourceStats(db)
+    expect(stats?.earliest.toISO()).toBe('2025-01-01T09:00:00.000Z')
+    expect(stats?.latest.toISO()).toBe('2025-01-01T11:00:00.000Z')
+  })
+
+  test('backfills zones from the stored offsets of existing memories', async () => {
+    const sqlite = new Database(':memory:')
+    const raw = new Kysely<unknown>({
+      dialect: new BunSqliteDialect({ database: sqlite }),
+    })
+    const m = new Migrator({ db: raw, provider: migrator })
+    await m.migrateTo('migration-5')
+    await sql`
+      INSERT INTO memory (id, source, sourceKey, memoryCreatedAt, title, metadata)
+      VALUES
+        ('a', 'test', 'a', '2025-01-01T10:00:00.000+05:30', 'a', '{}'),
+        ('b', 'test', 'b', '2025-01-01T04:00:00.000Z', 'b', '{}')
+    `.execute(raw)
+
+    await m.migrateToLatest()
+    const { rows } = await sql<{
+      id: string
+      memoryInstant: number
+      memoryZone: string
+    }>`
+      SELECT id, memoryInstant, memoryZone FROM memory ORDER BY memoryInstant
+    `.execute(raw)
+    expect(rows).toEqual([
+      {
+        id: 'b',
+        memoryInstant: Date.parse('2025-01-01T04:00Z'),
+        memoryZone: 'UTC',
+      },
+      {
+        id: 'a',
+        memoryInstant: Date.parse('2025-01-01T04:30Z'),
+        memoryZone: 'UTC+05:30',
+      },
+    ])
+    // Luxon reads the backfilled zones as fixed offsets
+    expect(DateTime.now().setZone('UTC+05:30').offset).toBe(330)
+
+    await raw.destroy()
+    sqlite.close()
+  })
 })
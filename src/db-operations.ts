@@ -1,27 +1,306 @@
 import createDebug from 'debug'
-import type { Kysely } from 'kysely'
-import type { DatabaseSchema, Memory, NewMemory } from './types'
+import { type Kysely, sql, type Transaction } from 'kysely'
+import { DateTime } from 'luxon'
+import { snapshotMemories } from './import-runs'
+import { type MemoryFilter, memoryFilter } from './memory-filter'
+import { replaceMemoryLinks, resolveMemoryLinks } from './memory-links'
+import type { DatabaseSchema, ImportedMemory, Memory } from './types'
 
 const d = createDebug('istoria:db')
 
+export interface SearchOptions extends MemoryFilter {
+  limit?: number
+}
+
+export interface SearchResult {
+  memory: Memory
+  // bm25 score; lower is a better match
+  rank: number
+  // Matching excerpt with hits wrapped in **double asterisks**
+  snippet: string
+}
+
+export interface SourceStats {
+  source: string
+  count: number
+  earliest: DateTime
+  latest: DateTime
+}
+
+export interface ImportResult {
+  inserted: number
+  updated: number
+  unchanged: number
+}
+
+export interface ImportProgress extends ImportResult {
+  // Records read from the source so far
+  processed: number
+}
+
+export interface ImportOptions {
+  // Records written per transaction
+  batchSize?: number
+  // Called after each batch is committed, with running totals
+  onProgress?: (progress: ImportProgress) => void
+  // The import run writing the memories (see import-runs). Memories are
+  // linked to it, and snapshotted before it updates them so it can be undone
+  runId?: number
+}
+
+const DEFAULT_BATCH_SIZE = 500
+
+/**
+ * Computes a hash over everything an importer controls about a memory, so
+ * that re-imports can tell whether a row actually changed.
+ */
+export function computeContentHash(memory: ImportedMemory): string {
+  const hasher = new Bun.CryptoHasher('sha256')
+  hasher.update(
+    JSON.stringify([
+      memory.title,
+      memory.memoryCreatedAt.toISO(),
+      memory.metadata,
+      memory.content ?? null,
+      // Only hashed when present, so memories without links keep their hash
+      ...(memory.links ? [memory.links] : []),
+    ])
+  )
+  if (memory.contentBlob) {
+    hasher.update(memory.contentBlob)
+  }
+  return hasher.digest('hex')
+}
+
+/**
+ * Writes one batch of memories, updating the running totals in `result`.
+ */
+async function writeBatch(
+  trx: Transaction<DatabaseSchema>,
+  batch: ImportedMemory[],
+  result: ImportResult,
+  runId: number | undefined
+): Promise<void> {
+  const importRunId = runId ?? null
+  for (const { links, ...memory } of batch) {
+    const contentHash = computeContentHash(
+      links ? { ...memory, links } : memory
+    )
+    const memoryZone = memory.memoryCreatedAt.zoneName ?? 'UTC'
+    const existing = await trx
+      .selectFrom('memory')
+      .select(['id', 'contentHash'])
+      .where('source', '=', memory.source)
+      .where('sourceKey', '=', memory.sourceKey)
+      .executeTakeFirst()
+
+    if (!existing) {
+      const { id } = await trx
+        .insertInto('memory')
+        .values({ ...memory, memoryZone, contentHash, importRunId })
+        .returning('id')
+        .executeTakeFirstOrThrow()
+      if (links) {
+        await replaceMemoryLinks(trx, id, links)
+      }
+      result.inserted++
+      continue
+    }
+
+    if (existing.contentHash === contentHash) {
+      result.unchanged++
+      continue
+    }
+
+    d('updating %s:%s', memory.source, memory.sourceKey)
+    if (runId !== undefined) {
+      await snapshotMemories(trx, runId, [existing.id])
+    }
+    await trx
+      .updateTable('memory')
+      .set({
+        title: memory.title,
+        memoryCreatedAt: memory.memoryCreatedAt,
+        memoryZone,
+        metadata: memory.metadata,
+        content: memory.content ?? null,
+        contentBlob: memory.contentBlob ?? null,
+        contentHash,
+        importRunId,
+      })
+      .where('id', '=', existing.id)
+      .execute()
+    if (links) {
+      await replaceMemoryLinks(trx, existing.id, links)
+    }
+    result.updated++
+  }
+}
+
+/**
+ * Writes memories to the database, keyed on (source, sourceKey). New keys are
+ * inserted, existing keys are updated only when their content hash differs,
+ * and everything else is left alone - so importing the same data twice is a
+ * no-op.
+ *
+ * Memories are consumed as a stream and written in batches, each in its own
+ * transaction, so large sources never have to fit in memory. If the source or
+ * a write fails, batches already committed stay and the failing batch is
+ * rolled back; since re-imports are idempotent, running the import again
+ * picks up where it left off.
+ *
+ * Links between memories are resolved once everything has been written, so
+ * links to memories later in the stream (or from earlier imports) resolve.
+ */
 export async function importData(
   db: Kysely<DatabaseSchema>,
-  data: NewMemory[]
-) {
-  d('importing %d records to memory table', data.length)
-  await db.insertInto('memory').values(data).execute()
-  d('import completed')
+  data: AsyncIterable<ImportedMemory> | Iterable<ImportedMemory>,
+  options: ImportOptions = {}
+): Promise<ImportResult> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE
+  d('importing records to memory table in batches of %d', batchSize)
+  const result: ImportResult = { inserted: 0, updated: 0, unchanged: 0 }
+  let processed = 0
+  let batch: ImportedMemory[] = []
+
+  const flush = async () => {
+    if (batch.length === 0) {
+      return
+    }
+
+    // Totals are only updated once the batch has committed
+    const batchResult: ImportResult = { inserted: 0, updated: 0, unchanged: 0 }
+    await db
+      .transaction()
+      .execute((trx) => writeBatch(trx, batch, batchResult, options.runId))
+
+    result.inserted += batchResult.inserted
+    result.updated += batchResult.updated
+    result.unchanged += batchResult.unchanged
+    processed += batch.length
+    batch = []
+
+    d('committed batch, %d records processed', processed)
+    options.onProgress?.({ ...result, processed })
+  }
+
+  for await (const memory of data) {
+    batch.push(memory)
+    if (batch.length >= batchSize) {
+      await flush()
+    }
+  }
+  await flush()
+  await resolveMemoryLinks(db)
+
+  d(
+    'import completed: %d inserted, %d updated, %d unchanged',
+    result.inserted,
+    result.updated,
+    result.unchanged
+  )
+  return result
 }
 
-export async function getAllMemories(
-  db: Kysely<DatabaseSchema>
+/**
+ * Fetches the memories matching a filter, oldest first (by instant, whatever
+ * their offsets).
+ */
+export async function getMemories(
+  db: Kysely<DatabaseSchema>,
+  filter: MemoryFilter
 ): Promise<Memory[]> {
-  d('fetching all memories ordered by memoryCreatedAt')
+  d('fetching memories matching %O', filter)
   const memories = await db
     .selectFrom('memory')
     .selectAll()
-    .orderBy('memoryCreatedAt', 'asc')
+    .where((eb) => memoryFilter(eb, filter))
+    .orderBy('memoryInstant', 'asc')
     .execute()
   d('fetched %d memories', memories.length)
   return memories
 }
+
+export async function getAllMemories(
+  db: Kysely<DatabaseSchema>
+): Promise<Memory[]> {
+  return getMemories(db, {})
+}
+
+/**
+ * Counts memories per source along with the earliest and latest memory of
+ * each. Dates are compared as instants and returned in UTC.
+ */
+export async function getSourceStats(
+  db: Kysely<DatabaseSchema>
+): Promise<SourceStats[]> {
+  const rows = await db
+    .selectFrom('memory')
+    .select([
+      'source',
+      sql<number>`count(*)`.as('count'),
+      sql<number>`min(memoryInstant)`.as('earliest'),
+      sql<number>`max(memoryInstant)`.as('latest'),
+    ])
+    .groupBy('source')
+    .orderBy('source', 'asc')
+    .execute()
+
+  return rows.map((row) => ({
+    source: row.source,
+    count: row.count,
+    earliest: DateTime.fromMillis(row.earliest, { zone: 'utc' }),
+    latest: DateTime.fromMillis(row.latest, { zone: 'utc' }),
+  }))
+}
+
+/**
+ * Turns free text into an FTS5 query that matches documents containing every
+ * word, quoting each word so punctuation (e.g. "don't" or "c++") can't be
+ * misread as query syntax.
+ */
+export function toFtsQuery(text: string): string {
+  return text
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((term) => `"${term.replaceAll('"', '""')}"`)
+    .join(' ')
+}
+
+/**
+ * Full-text search over memory titles and content, best matches first.
+ * Title matches are weighted above content matches.
+ */
+export async function searchMemories(
+  db: Kysely<DatabaseSchema>,
+  query: string,
+  options: SearchOptions = {}
+): Promise<SearchResult[]> {
+  const ftsQuery = toFtsQuery(query)
+  d('searching for %s with options %O', ftsQuery, options)
+  if (!ftsQuery) {
+    return []
+  }
+
+  const { limit, ...filter } = options
+  const rows = await db
+    .selectFrom('memory_fts')
+    .innerJoin('memory', 'memory.id', 'memory_fts.id')
+    .selectAll('memory')
+    .select([
+      sql<number>`bm25(memory_fts, 0, 10.0, 1.0)`.as('rank'),
+      sql<string>`snippet(memory_fts, -1, '**', '**', '…', 16)`.as('snippet'),
+    ])
+    .where(sql<boolean>`memory_fts MATCH ${ftsQuery}`)
+    .where((eb) => memoryFilter(eb, filter))
+    .orderBy('rank', 'asc')
+    .limit(limit ?? 20)
+    .execute()
+  d('found %d results', rows.length)
+
+  return rows.map(({ rank, snippet, ...memory }) => ({
+    memory,
+    rank,
+    snippet,
+  }))
+}
@@ -0,0 +1,146 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from 'bun:test'
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { Kysely } from 'kysely'
+import { DateTime, Settings } from 'luxon'
+import { importData } from '../db-operations'
+import { createRedactor, getRedactionAuditFile } from '../redaction'
+import { createDatabase, type DatabaseSchema, type NewMemory } from '../types'
+import { exportToClaudeProjects } from './claude-export'
+
+function memory(
+  source: string,
+  day: string,
+  time: string,
+  content: string
+): NewMemory {
+  return {
+    source,
+    sourceKey: `${day}/${time}`,
+    memoryCreatedAt: DateTime.fromISO(`${day}T${time}`),
+    title: `${source} ${day}`,
+    metadata: {},
+    content,
+  }
+}
+
+describe('exportToClaudeProjects', () => {
+  let db: Kysely<DatabaseSchema>
+  let cleanup: () => Promise<void>
+  let outDir: string
+  let defaultZone: typeof Settings.defaultZone
+
+  beforeAll(() => {
+    defaultZone = Settings.defaultZone
+    Settings.defaultZone = 'UTC'
+  })
+
+  afterAll(() => {
+    Settings.defaultZone = defaultZone
+  })
+
+  beforeEach(async () => {
+    ;[db, cleanup] = await createDatabase(':memory:')
+    outDir = await mkdtemp(join(tmpdir(), 'istoria-claude-'))
+  })
+
+  afterEach(async () => {
+    await cleanup()
+    await rm(outDir, { recursive: true, force: true })
+  })
+
+  test('tags each memory with its source and date', async () => {
+    await importData(db, [
+      memory('obsidian', '2025-01-30', '09:00', 'Hiked <Mount Tam> & back'),
+      {
+        ...memory('slack', '2025-01-30', '12:00', 'Said "</memory>" in chat'),
+        title: 'Slack: "general"',
+      },
+    ])
+
+    const manifest = await exportToClaudeProjects(db, outDir)
+    expect(manifest.files).toHaveLength(1)
+    expect(manifest.files[0]).toMatchObject({
+      file: '2025-01-30.xml',
+      from: '2025-01-30',
+      to: '2025-01-30',
+      memories: 2,
+      sources: ['obsidian', 'slack'],
+    })
+
+    expect(await readFile(join(outDir, '2025-01-30.xml'), 'utf-8')).toBe(
+      [
+        '<memories from="2025-01-30" to="2025-01-30">',
+        '<memory source="obsidian" date="2025-01-30T09:00:00Z" title="obsidian 2025-01-30">',
+        'Hiked &lt;Mount Tam&gt; &amp; back',
+        '</memory>',
+        '<memory source="slack" date="2025-01-30T12:00:00Z" title="Slack: &quot;general&quot;">',
+        'Said &quot;&lt;/memory&gt;&quot; in chat',
+        '</memory>',
+        '</memories>',
+        '',
+      ].join('\n')
+    )
+  })
+
+  test('packs consecutive days up to a token budget', async () => {
+    const words = (count: number) =>
+      Array.from({ length: count }, (_, i) => `word${i}`).join(' ')
+    await importData(db, [
+      memory('obsidian', '2025-01-30', '09:00', words(40)),
+      memory('obsidian', '2025-01-31', '09:00', words(40)),
+      memory('slack', '2025-02-01', '10:00', words(300)),
+      memory('daylio', '2025-02-03', '21:00', words(10)),
+    ])
+
+    const manifest = await exportToClaudeProjects(db, outDir, {
+      maxTokens: 400,
+    })
+    expect(
+      manifest.files.map((file) => [file.file, file.days, !!file.overBudget])
+    ).toEqual([
+      ['2025-01-30_to_2025-01-31.xml', 2, false],
+      ['2025-02-01.xml', 1, true],
+      ['2025-02-03.xml', 1, false],
+    ])
+    expect((await readdir(outDir)).sort()).toEqual([
+      '2025-01-30_to_2025-01-31.xml',
+      '2025-02-01.xml',
+      '2025-02-03.xml',
+      'claude-manifest.json',
+    ])
+  })
+
+  test('redacts titles and content and audits each file', async () => {
+    await importData(db, [
+      {
+        ...memory('slack', '2025-02-01', '22:00', 'Ask Sam at sam@example.com'),
+        title: 'DM with Sam',
+      },
+    ])
+
+    await exportToClaudeProjects(db, outDir, {
+      redactor: createRedactor({ names: { Sam: 'Alex' } }),
+    })
+
+    const file = await readFile(join(outDir, '2025-02-01.xml'), 'utf-8')
+    expect(file).toContain('title="DM with Alex"')
+    expect(file).toContain('Ask Alex at [EMAIL]')
+    const audit = JSON.parse(
+      await readFile(join(outDir, getRedactionAuditFile('claude')), 'utf-8')
+    )
+    expect(audit.files[0]).toMatchObject({
+      file: '2025-02-01.xml',
+      redactions: 3,
+    })
+  })
+})
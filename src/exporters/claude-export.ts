@@ -0,0 +1,227 @@
+import { writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import createDebug from 'debug'
+import type { Kysely } from 'kysely'
+import { getMemories } from '../db-operations'
+import type { MemoryFilter } from '../memory-filter'
+import {
+  type FileRedactions,
+  type RedactionMatch,
+  type Redactor,
+  writeRedactionAudit,
+} from '../redaction'
+import type { ExporterDefinition } from '../registry'
+import type { DatabaseSchema, Memory } from '../types'
+import {
+  DAY_ZONE_OPTION,
+  estimateTokens,
+  getMemoryTime,
+  groupByBudget,
+  groupByDay,
+  parseLimit,
+  validateDayZone,
+} from './grouping'
+
+const d = createDebug('istoria:claude')
+
+// Project knowledge shares the model's context window with the
+// conversation, so files are kept to a fraction of it by default
+export const DEFAULT_MAX_TOKENS = 100_000
+
+export interface ClaudeExportOptions {
+  // Estimated tokens per file
+  maxTokens?: number
+  // Only export matching memories; exports everything by default
+  filter?: MemoryFilter
+  // Redact each memory as it's written, and write an audit of what was
+  // redacted in each file
+  redactor?: Redactor
+  // Zone to split days (and show times) in: a zone name like
+  // "Europe/Berlin", or 'local' for each memory's own zone. Defaults to the
+  // system zone
+  dayZone?: string
+}
+
+export interface ClaudeManifestEntry {
+  file: string
+  from: string
+  to: string
+  days: number
+  memories: number
+  sources: string[]
+  estimatedTokens: number
+  bytes: number
+  // Set when a single day is larger than maxTokens on its own
+  overBudget?: boolean
+}
+
+export interface ClaudeExportManifest {
+  maxTokens: number
+  files: ClaudeManifestEntry[]
+}
+
+// Named for the exporter, like the redaction audit, so other exports to the
+// same directory leave it alone
+const MANIFEST_FILE = 'claude-manifest.json'
+
+interface ClaudeDay {
+  dayKey: string
+  memories: Memory[]
+  text: string
+  estimatedTokens: number
+  redactions: RedactionMatch[]
+}
+
+const XML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+}
+
+/**
+ * Escape text for XML content and attribute values, so that nothing a memory
+ * contains (a `</memory>` included) can break the document structure.
+ */
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"]/g, (char) => XML_ESCAPES[char] ?? char)
+}
+
+/**
+ * Format a memory as a <memory> element with its source, date and title as
+ * attributes. The title and content are redacted before they're escaped.
+ */
+function formatMemory(
+  memory: Memory,
+  options: ClaudeExportOptions
+): { text: string; redactions: RedactionMatch[] } {
+  const redact = (value: string) =>
+    options.redactor
+      ? options.redactor.redact(value)
+      : { text: value, matches: [] }
+  const title = redact(memory.title)
+  const content = redact(memory.content ?? '')
+
+  const date = getMemoryTime(memory, options.dayZone).toISO({
+    suppressMilliseconds: true,
+  })
+  const attributes = [
+    `source="${escapeXml(memory.source)}"`,
+    `date="${date}"`,
+    `title="${escapeXml(title.text)}"`,
+  ].join(' ')
+  return {
+    text: `<memory ${attributes}>\n${escapeXml(content.text)}\n</memory>`,
+    redactions: [...title.matches, ...content.matches],
+  }
+}
+
+/**
+ * Export memories as XML-tagged documents for Claude Projects knowledge.
+ * Consecutive days are packed into files of up to `maxTokens` estimated
+ * tokens, each a <memories> element covering a range of days. A
+ * claude-manifest.json lists each file's date range, sources and size.
+ */
+export async function exportToClaudeProjects(
+  db: Kysely<DatabaseSchema>,
+  outputDir: string,
+  options: ClaudeExportOptions = {}
+): Promise<ClaudeExportManifest> {
+  validateDayZone(options.dayZone)
+  const maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS
+  const manifest: ClaudeExportManifest = { maxTokens, files: [] }
+
+  const memories = await getMemories(db, options.filter ?? {})
+  d('fetched %d memories for export', memories.length)
+
+  const days: ClaudeDay[] = groupByDay(memories, options.dayZone).map(
+    ({ dayKey, memories: dayMemories }) => {
+      const formatted = dayMemories.map((memory) =>
+        formatMemory(memory, options)
+      )
+      const text = formatted.map((memory) => memory.text).join('\n')
+      return {
+        dayKey,
+        memories: dayMemories,
+        text,
+        estimatedTokens: estimateTokens(text),
+        redactions: formatted.flatMap((memory) => memory.redactions),
+      }
+    }
+  )
+
+  const files = groupByBudget(days, maxTokens, (day) => day.estimatedTokens)
+  d('grouped %d days into %d files', days.length, files.length)
+
+  const audit: FileRedactions[] = []
+  for (const file of files) {
+    const name = `${file.key}.xml`
+    const from = file.days[0]?.dayKey ?? ''
+    const to = file.days.at(-1)?.dayKey ?? ''
+    const content = [
+      `<memories from="${from}" to="${to}">`,
+      ...file.days.map((day) => day.text),
+      '</memories>\n',
+    ].join('\n')
+
+    await writeFile(path.join(outputDir, name), content, 'utf-8')
+    d('wrote %s with %d days', name, file.days.length)
+
+    const fileMemories = file.days.flatMap((day) => day.memories)
+    const estimatedTokens = file.days.reduce(
+      (total, day) => total + day.estimatedTokens,
+      0
+    )
+    manifest.files.push({
+      file: name,
+      from,
+      to,
+      days: file.days.length,
+      memories: fileMemories.length,
+      sources: [...new Set(fileMemories.map((m) => m.source))].sort(),
+      estimatedTokens,
+      bytes: Buffer.byteLength(content, 'utf-8'),
+      ...(estimatedTokens > maxTokens && { overBudget: true }),
+    })
+    audit.push({
+      file: name,
+      matches: file.days.flatMap((day) => day.redactions),
+    })
+  }
+
+  await writeFile(
+    path.join(outputDir, MANIFEST_FILE),
+    `${JSON.stringify(manifest, null, 2)}\n`,
+    'utf-8'
+  )
+  if (options.redactor) {
+    await writeRedactionAudit(outputDir, 'claude', audit)
+  }
+
+  d('export complete')
+  return manifest
+}
+
+export const claudeProjectsExporter: ExporterDefinition = {
+  name: 'claude',
+  description:
+    'XML-tagged documents for Claude Projects knowledge, packed to a token budget',
+  options: [
+    {
+      flags: '--max-tokens <count>',
+      description: `Estimated tokens per file (default: ${DEFAULT_MAX_TOKENS})`,
+    },
+    DAY_ZONE_OPTION,
+  ],
+  run: async (db, outputDir, options, filter, redactor) => {
+    const maxTokens = String(options['maxTokens'] ?? '')
+    await exportToClaudeProjects(db, outputDir, {
+      filter,
+      ...(maxTokens && { maxTokens: parseLimit(maxTokens) }),
+      ...(typeof options['dayZone'] === 'string' && {
+        dayZone: options['dayZone'],
+      }),
+      ...(redactor && { redactor }),
+    })
+  },
+}
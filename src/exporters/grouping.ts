@@ -0,0 +1,175 @@
+import { DateTime } from 'luxon'
+import type { CommandOption } from '../registry'
+import type { Memory } from '../types'
+
+export type BudgetUnit = 'words' | 'tokens'
+
+export interface ExportBudget {
+  limit: number
+  unit: BudgetUnit
+}
+
+// A day's memories, keyed by date ("2025-03-04")
+export interface ExportDayGroup {
+  dayKey: string
+  memories: Memory[]
+}
+
+// Days that go into one file, keyed by what the file covers: "March2025",
+// "2025", or a range of days like "2025-01-01_to_2025-03-15"
+export interface FileGroup<Day extends { dayKey: string }> {
+  key: string
+  days: Day[]
+}
+
+export const DAY_ZONE_OPTION: CommandOption = {
+  flags: '--day-zone <zone>',
+  description:
+    "Zone to split days in, e.g. 'Europe/Berlin', or 'local' for each memory's own zone (default: the system zone)",
+}
+
+/**
+ * Checks a day zone option: 'local', or a zone Luxon knows.
+ */
+export function validateDayZone(dayZone: string | undefined): void {
+  if (
+    dayZone &&
+    dayZone !== 'local' &&
+    !DateTime.now().setZone(dayZone).isValid
+  ) {
+    throw new Error(`Invalid zone: ${dayZone}`)
+  }
+}
+
+/**
+ * A memory's time in the zone days are split in: its own zone for 'local',
+ * otherwise the given zone, or the system zone by default.
+ */
+export function getMemoryTime(
+  memory: Memory,
+  dayZone: string | undefined
+): DateTime {
+  const zone = dayZone === 'local' ? memory.memoryZone : dayZone
+  return zone ? memory.memoryCreatedAt.setZone(zone) : memory.memoryCreatedAt
+}
+
+/**
+ * Get the day key for grouping memories by day.
+ */
+export function getDayKey(date: DateTime): string {
+  return date.toFormat('yyyy-MM-dd')
+}
+
+/**
+ * Group memories by the day they happened on in `dayZone`, chronologically.
+ * Memories keep their order within each day.
+ */
+export function groupByDay(
+  memories: Memory[],
+  dayZone: string | undefined
+): ExportDayGroup[] {
+  const memoriesByDay = new Map<string, Memory[]>()
+  for (const memory of memories) {
+    const dayKey = getDayKey(getMemoryTime(memory, dayZone))
+    const existing = memoriesByDay.get(dayKey) ?? []
+    existing.push(memory)
+    memoriesByDay.set(dayKey, existing)
+  }
+
+  return [...memoriesByDay]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([dayKey, dayMemories]) => ({ dayKey, memories: dayMemories }))
+}
+
+/**
+ * Get the file key for a given date and interval.
+ * Returns "March2025" for month interval, "2017" for year interval.
+ */
+function getFileKey(date: DateTime, interval: 'month' | 'year'): string {
+  if (interval === 'year') {
+    return date.toFormat('yyyy')
+  }
+  return date.toFormat('MMMM yyyy').replace(' ', '')
+}
+
+/**
+ * Get the key for a budget file from the range of days it covers,
+ * e.g. "2025-01-01_to_2025-03-15" or just "2025-01-01" for a single day.
+ */
+function getRangeFileKey(days: { dayKey: string }[]): string {
+  const from = days[0]?.dayKey ?? ''
+  const to = days.at(-1)?.dayKey ?? ''
+  return from === to ? from : `${from}_to_${to}`
+}
+
+/**
+ * Group days into one file per calendar month or year.
+ */
+export function groupByInterval<Day extends { dayKey: string }>(
+  days: Day[],
+  interval: 'month' | 'year'
+): FileGroup<Day>[] {
+  const daysByFile = new Map<string, Day[]>()
+  for (const day of days) {
+    const fileKey = getFileKey(DateTime.fromISO(day.dayKey), interval)
+    const existing = daysByFile.get(fileKey) ?? []
+    existing.push(day)
+    daysByFile.set(fileKey, existing)
+  }
+
+  return [...daysByFile].map(([key, fileDays]) => ({ key, days: fileDays }))
+}
+
+/**
+ * Pack consecutive days into files up to `limit`, measuring each day with
+ * `getSize`. Days are never split, so a day larger than the limit gets a file
+ * to itself.
+ */
+export function groupByBudget<Day extends { dayKey: string }>(
+  days: Day[],
+  limit: number,
+  getSize: (day: Day) => number
+): FileGroup<Day>[] {
+  const groups: Day[][] = []
+  let current: Day[] = []
+  let currentSize = 0
+
+  for (const day of days) {
+    const size = getSize(day)
+    if (current.length > 0 && currentSize + size > limit) {
+      groups.push(current)
+      current = []
+      currentSize = 0
+    }
+    current.push(day)
+    currentSize += size
+  }
+  if (current.length > 0) {
+    groups.push(current)
+  }
+
+  return groups.map((fileDays) => ({
+    key: getRangeFileKey(fileDays),
+    days: fileDays,
+  }))
+}
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length
+}
+
+/**
+ * Rough token count for budgeting, using the common ~4 characters per token
+ * rule of thumb; close enough to pack files without a tokenizer.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+export function parseLimit(value: string): number {
+  const limit = Number(value)
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new Error(`Invalid limit: ${value}`)
+  }
+  return limit
+}
@@ -0,0 +1,134 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from 'bun:test'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { Kysely } from 'kysely'
+import { DateTime, Settings } from 'luxon'
+import { importData } from '../db-operations'
+import { createRedactor, getRedactionAuditFile } from '../redaction'
+import { createDatabase, type DatabaseSchema, type NewMemory } from '../types'
+import { exportToMarkdown } from './markdown-export'
+
+const MEMORIES: NewMemory[] = [
+  {
+    source: 'obsidian',
+    sourceKey: 'Daily/2025-03-04.md',
+    memoryCreatedAt: DateTime.fromISO('2025-03-04T09:00:00Z'),
+    title: 'Tuesday',
+    metadata: { tags: ['hiking', 'with: friends'] },
+    content: 'Went up Mount Tam with Sam (sam@example.com).',
+  },
+  {
+    source: 'slack',
+    sourceKey: 'general/2025-03-04',
+    memoryCreatedAt: DateTime.fromISO('2025-03-04T12:30:00Z'),
+    title: 'Slack: #general',
+    metadata: {},
+    content: 'lunch?',
+  },
+  {
+    source: 'daylio',
+    sourceKey: '2025-04-01',
+    memoryCreatedAt: DateTime.fromISO('2025-04-01T21:00:00Z'),
+    title: 'Daylio: 2025-04-01',
+    metadata: {},
+    content: 'Good: reading',
+  },
+]
+
+describe('exportToMarkdown', () => {
+  let db: Kysely<DatabaseSchema>
+  let cleanup: () => Promise<void>
+  let outDir: string
+  let defaultZone: typeof Settings.defaultZone
+
+  beforeAll(() => {
+    defaultZone = Settings.defaultZone
+    Settings.defaultZone = 'UTC'
+  })
+
+  afterAll(() => {
+    Settings.defaultZone = defaultZone
+  })
+
+  beforeEach(async () => {
+    ;[db, cleanup] = await createDatabase(':memory:')
+    await importData(db, MEMORIES)
+    outDir = await mkdtemp(join(tmpdir(), 'istoria-markdown-'))
+  })
+
+  afterEach(async () => {
+    await cleanup()
+    await rm(outDir, { recursive: true, force: true })
+  })
+
+  test('writes a note per day in year and month folders', async () => {
+    expect(await exportToMarkdown(db, outDir)).toEqual([
+      '2025/03/2025-03-04.md',
+      '2025/04/2025-04-01.md',
+    ])
+
+    expect(await readFile(join(outDir, '2025/03/2025-03-04.md'), 'utf-8')).toBe(
+      [
+        '---',
+        'date: 2025-03-04',
+        'sources:',
+        '  - "obsidian"',
+        '  - "slack"',
+        'memories: 2',
+        'tags:',
+        '  - "hiking"',
+        '  - "with: friends"',
+        '---',
+        '',
+        '# 2025-03-04',
+        '',
+        '## Tuesday',
+        '09:00 · obsidian',
+        '',
+        'Went up Mount Tam with Sam (sam@example.com).',
+        '',
+        '## Slack: #general',
+        '12:30 · slack',
+        '',
+        'lunch?',
+        '',
+      ].join('\n')
+    )
+  })
+
+  test('splits days in the given zone', async () => {
+    expect(
+      await exportToMarkdown(db, outDir, { dayZone: 'Pacific/Kiritimati' })
+    ).toEqual([
+      '2025/03/2025-03-04.md',
+      '2025/03/2025-03-05.md',
+      '2025/04/2025-04-02.md',
+    ])
+  })
+
+  test('redacts notes and audits each one', async () => {
+    await exportToMarkdown(db, outDir, {
+      redactor: createRedactor({ names: { Sam: 'Alex' } }),
+    })
+
+    const note = await readFile(join(outDir, '2025/03/2025-03-04.md'), 'utf-8')
+    expect(note).toContain('Mount Tam with Alex ([EMAIL]).')
+    const audit = JSON.parse(
+      await readFile(join(outDir, getRedactionAuditFile('markdown')), 'utf-8')
+    )
+    expect(audit.files.map((file: { file: string }) => file.file)).toEqual([
+      '2025/03/2025-03-04.md',
+      '2025/04/2025-04-01.md',
+    ])
+    expect(audit.files[0].redactions).toBe(2)
+  })
+})
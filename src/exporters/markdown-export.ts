@@ -0,0 +1,157 @@
+import { mkdir, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import createDebug from 'debug'
+import type { Kysely } from 'kysely'
+import { getMemories } from '../db-operations'
+import type { MemoryFilter } from '../memory-filter'
+import {
+  type FileRedactions,
+  type Redactor,
+  writeRedactionAudit,
+} from '../redaction'
+import type { ExporterDefinition } from '../registry'
+import type { DatabaseSchema, Memory } from '../types'
+import {
+  DAY_ZONE_OPTION,
+  type ExportDayGroup,
+  getMemoryTime,
+  groupByDay,
+  validateDayZone,
+} from './grouping'
+
+const d = createDebug('istoria:markdown')
+
+export interface MarkdownExportOptions {
+  // Only export matching memories; exports everything by default
+  filter?: MemoryFilter
+  // Redact each note as it's written, and write an audit of what was
+  // redacted in each note
+  redactor?: Redactor
+  // Zone to split days (and show times) in: a zone name like
+  // "Europe/Berlin", or 'local' for each memory's own zone. Defaults to the
+  // system zone
+  dayZone?: string
+}
+
+/**
+ * Tags of a day's memories, from the `tags` metadata list importers like
+ * obsidian keep.
+ */
+function getTags(memories: Memory[]): string[] {
+  const tags = new Set<string>()
+  for (const memory of memories) {
+    const memoryTags = memory.metadata['tags']
+    if (Array.isArray(memoryTags)) {
+      for (const tag of memoryTags) {
+        if (typeof tag === 'string') {
+          tags.add(tag)
+        }
+      }
+    }
+  }
+  return [...tags].sort()
+}
+
+/**
+ * YAML frontmatter for a day's note. List items are written as JSON strings,
+ * which YAML reads as quoted scalars, so tags with any characters in them
+ * stay valid.
+ */
+function formatFrontmatter(day: ExportDayGroup): string {
+  const sources = [...new Set(day.memories.map((m) => m.source))].sort()
+  const tags = getTags(day.memories)
+  const lines = ['---', `date: ${day.dayKey}`, 'sources:']
+  lines.push(...sources.map((source) => `  - ${JSON.stringify(source)}`))
+  lines.push(`memories: ${day.memories.length}`)
+  if (tags.length > 0) {
+    lines.push('tags:')
+    lines.push(...tags.map((tag) => `  - ${JSON.stringify(tag)}`))
+  }
+  lines.push('---')
+  return lines.join('\n')
+}
+
+function formatMemory(memory: Memory, dayZone: string | undefined): string {
+  const time = getMemoryTime(memory, dayZone).toFormat('HH:mm')
+  const lines = [`## ${memory.title}`, `${time} · ${memory.source}`]
+  if (memory.content) {
+    lines.push('', memory.content)
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Format a day as a Markdown note: frontmatter with the date, sources, number
+ * of memories and tags, then each memory under its title.
+ */
+function formatDayNote(
+  day: ExportDayGroup,
+  dayZone: string | undefined
+): string {
+  const memories = day.memories.map((memory) => formatMemory(memory, dayZone))
+  return `${formatFrontmatter(day)}\n\n# ${day.dayKey}\n\n${memories.join('\n\n')}\n`
+}
+
+/**
+ * Get a day's note path within the export, e.g. "2025/03/2025-03-04.md".
+ */
+function getNotePath(dayKey: string): string {
+  return path.posix.join(dayKey.slice(0, 4), dayKey.slice(5, 7), `${dayKey}.md`)
+}
+
+/**
+ * Export memories as an Obsidian-friendly tree of Markdown notes, one per day
+ * in year and month folders. Returns the paths of the notes written,
+ * relative to `outputDir`.
+ */
+export async function exportToMarkdown(
+  db: Kysely<DatabaseSchema>,
+  outputDir: string,
+  options: MarkdownExportOptions = {}
+): Promise<string[]> {
+  validateDayZone(options.dayZone)
+
+  const memories = await getMemories(db, options.filter ?? {})
+  d('fetched %d memories for export', memories.length)
+
+  const files: string[] = []
+  const audit: FileRedactions[] = []
+  for (const day of groupByDay(memories, options.dayZone)) {
+    const note = formatDayNote(day, options.dayZone)
+    const { text, matches } = options.redactor
+      ? options.redactor.redact(note)
+      : { text: note, matches: [] }
+
+    const file = getNotePath(day.dayKey)
+    const filePath = path.join(outputDir, file)
+    await mkdir(path.dirname(filePath), { recursive: true })
+    await writeFile(filePath, text, 'utf-8')
+    d('wrote %s with %d memories', filePath, day.memories.length)
+
+    files.push(file)
+    audit.push({ file, matches })
+  }
+
+  if (options.redactor) {
+    await writeRedactionAudit(outputDir, 'markdown', audit)
+  }
+
+  d('export complete')
+  return files
+}
+
+export const markdownExporter: ExporterDefinition = {
+  name: 'markdown',
+  description:
+    'A Markdown note per day with frontmatter, in year and month folders (e.g. for Obsidian)',
+  options: [DAY_ZONE_OPTION],
+  run: async (db, outputDir, options, filter, redactor) => {
+    await exportToMarkdown(db, outputDir, {
+      filter,
+      ...(typeof options['dayZone'] === 'string' && {
+        dayZone: options['dayZone'],
+      }),
+      ...(redactor && { redactor }),
+    })
+  },
+}
@@ -0,0 +1,401 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from 'bun:test'
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { Kysely } from 'kysely'
+import { DateTime, Settings } from 'luxon'
+import { importData } from '../db-operations'
+import { createRedactor, getRedactionAuditFile } from '../redaction'
+import {
+  createDatabase,
+  type DatabaseSchema,
+  type ImportedMemory,
+  type LinkReference,
+  type NewMemory,
+} from '../types'
+import {
+  type ExportManifest,
+  exportToNotebookLM,
+  type NotebookLMExportOptions,
+} from './notebooklm-export'
+import { parseTemplate } from './templates'
+
+function memory(
+  source: string,
+  day: string,
+  time: string,
+  words: number
+): NewMemory {
+  return {
+    source,
+    sourceKey: `${day}/${time}`,
+    memoryCreatedAt: DateTime.fromISO(`${day}T${time}`),
+    title: `${source} ${day}`,
+    metadata: {},
+    content: Array.from({ length: words }, (_, i) => `word${i}`).join(' '),
+  }
+}
+
+// Each day's formatted text is its content plus a handful of words of
+// headings (the <date> tag, title and time)
+const MEMORIES = [
+  memory('obsidian', '2025-01-30', '09:00', 40),
+  memory('slack', '2025-01-30', '12:00', 40),
+  memory('obsidian', '2025-01-31', '09:00', 20),
+  memory('daylio', '2025-02-01', '21:00', 20),
+  memory('slack', '2025-02-03', '10:00', 300),
+  memory('obsidian', '2025-03-10', '08:00', 10),
+]
+
+describe('exportToNotebookLM', () => {
+  let db: Kysely<DatabaseSchema>
+  let cleanup: () => Promise<void>
+  let outDir: string
+  let defaultZone: typeof Settings.defaultZone
+
+  beforeAll(() => {
+    defaultZone = Settings.defaultZone
+    Settings.defaultZone = 'UTC'
+  })
+
+  afterAll(() => {
+    Settings.defaultZone = defaultZone
+  })
+
+  beforeEach(async () => {
+    ;[db, cleanup] = await createDatabase(':memory:')
+    await importData(db, MEMORIES)
+    outDir = await mkdtemp(join(tmpdir(), 'istoria-notebooklm-'))
+  })
+
+  afterEach(async () => {
+    await cleanup()
+    await rm(outDir, { recursive: true, force: true })
+  })
+
+  const readManifest = async (): Promise<ExportManifest> =>
+    JSON.parse(
+      await readFile(join(outDir, 'notebooklm-manifest.json'), 'utf-8')
+    )
+
+  test('writes a file per month with a manifest', async () => {
+    await exportToNotebookLM(db, outDir, 'month')
+
+    expect((await readdir(outDir)).sort()).toEqual([
+      'February2025.txt',
+      'January2025.txt',
+      'March2025.txt',
+      'notebooklm-manifest.json',
+    ])
+
+    const manifest = await readManifest()
+    expect(manifest.interval).toBe('month')
+    expect(manifest.files.map((f) => [f.file, f.from, f.to])).toEqual([
+      ['January2025.txt', '2025-01-30', '2025-01-31'],
+      ['February2025.txt', '2025-02-01', '2025-02-03'],
+      ['March2025.txt', '2025-03-10', '2025-03-10'],
+    ])
+    expect(manifest.files[0]?.sources).toEqual(['obsidian', 'slack'])
+    expect(manifest.files[0]?.memories).toBe(3)
+  })
+
+  test('renders memories, days and files with a template', async () => {
+    const template = parseTemplate(
+      [
+        '=== memory ===',
+        '{{#if source == "slack" }}',
+        '[{{ time | date "HH:mm" }}] {{ content | default "(no message)" }}',
+        '{{else}}',
+        '{{ title }} ({{ source }})',
+        '{{/if}}',
+        '=== day ===',
+        '# {{ date }}: {{ sources | join "+" }}',
+        '{{ memories | join "\\n" }}',
+        '=== file ===',
+        'Memories from {{ from }} to {{ to }}',
+        '{{ days | join "\\n\\n" }}',
+      ].join('\n')
+    )
+    await importData(db, [
+      { ...memory('slack', '2025-03-10', '12:00', 0), content: null },
+    ])
+
+    await exportToNotebookLM(db, outDir, 'month', { template })
+
+    expect(await readFile(join(outDir, 'March2025.txt'), 'utf-8')).toBe(
+      [
+        'Memories from 2025-03-10 to 2025-03-10',
+        '# 2025-03-10: obsidian+slack',
+        'obsidian 2025-03-10 (obsidian)',
+        '[12:00] (no message)',
+      ].join('\n')
+    )
+  })
+
+  test('packs consecutive days up to a word budget', async () => {
+    const manifest = await exportToNotebookLM(db, outDir, 'budget', {
+      budget: { limit: 150, unit: 'words' },
+    })
+
+    // Jan 30-31 and Feb 1 fit together; Feb 3 is over budget on its own
+    // and is never split
+    expect(
+      manifest.files.map((f) => [f.file, f.days, f.overBudget ?? false])
+    ).toEqual([
+      ['2025-01-30_to_2025-02-01.txt', 3, false],
+      ['2025-02-03.txt', 1, true],
+      ['2025-03-10.txt', 1, false],
+    ])
+    expect(manifest.files[0]?.sources).toEqual(['daylio', 'obsidian', 'slack'])
+
+    for (const file of manifest.files) {
+      const content = await readFile(join(outDir, file.file), 'utf-8')
+      expect(file.words).toBe(content.split(/\s+/).filter(Boolean).length)
+      expect(file.bytes).toBe(Buffer.byteLength(content))
+      expect(content.match(/<date>/g)).toHaveLength(file.days)
+    }
+
+    expect(await readManifest()).toEqual(manifest)
+  })
+
+  test('budgets by estimated tokens', async () => {
+    const manifest = await exportToNotebookLM(db, outDir, 'budget', {
+      budget: { limit: 1_000_000, unit: 'tokens' },
+    })
+
+    expect(manifest.budget).toEqual({ limit: 1_000_000, unit: 'tokens' })
+    expect(manifest.files).toHaveLength(1)
+    expect(manifest.files[0]?.file).toBe('2025-01-30_to_2025-03-10.txt')
+    expect(manifest.files[0]?.estimatedTokens).toBeGreaterThan(0)
+  })
+
+  test('redacts what it writes and audits each file', async () => {
+    await importData(db, [
+      {
+        ...memory('slack', '2025-02-01', '22:00', 0),
+        content: 'Ask Sam at sam@example.com',
+      },
+    ])
+
+    await exportToNotebookLM(db, outDir, 'month', {
+      redactor: createRedactor({ names: { Sam: 'Alex' } }),
+    })
+
+    const february = await readFile(join(outDir, 'February2025.txt'), 'utf-8')
+    expect(february).toContain('Ask Alex at [EMAIL]')
+    expect(february).not.toContain('Sam')
+
+    const audit = JSON.parse(
+      await readFile(join(outDir, getRedactionAuditFile('notebooklm')), 'utf-8')
+    )
+    expect(
+      audit.files.map((file: { file: string; redactions: number }) => [
+        file.file,
+        file.redactions,
+      ])
+    ).toEqual([
+      ['January2025.txt', 0],
+      ['February2025.txt', 2],
+      ['March2025.txt', 0],
+    ])
+  })
+})
+
+describe('exportToNotebookLM links', () => {
+  let db: Kysely<DatabaseSchema>
+  let cleanup: () => Promise<void>
+  let outDir: string
+  let defaultZone: typeof Settings.defaultZone
+
+  const note = (
+    sourceKey: string,
+    content: string,
+    links: LinkReference[]
+  ): ImportedMemory => ({
+    source: 'obsidian',
+    sourceKey,
+    memoryCreatedAt: DateTime.fromISO('2025-04-01T09:00:00'),
+    title: sourceKey.replace(/\.md$/, ''),
+    metadata: {},
+    content,
+    links,
+  })
+
+  beforeAll(() => {
+    defaultZone = Settings.defaultZone
+    Settings.defaultZone = 'UTC'
+  })
+
+  afterAll(() => {
+    Settings.defaultZone = defaultZone
+  })
+
+  beforeEach(async () => {
+    ;[db, cleanup] = await createDatabase(':memory:')
+    await importData(db, [
+      note(
+        'Trip.md',
+        'Plan:\n![[Packing]]\nDay two: ![[Days#Day 2]]\nQuote: ![[Days#^best]]',
+        [
+          { linkType: 'embed', target: 'Packing', raw: '![[Packing]]' },
+          {
+            linkType: 'embed',
+            target: 'Days',
+            subpath: '#Day 2',
+            raw: '![[Days#Day 2]]',
+          },
+          {
+            linkType: 'embed',
+            target: 'Days',
+            subpath: '#^best',
+            raw: '![[Days#^best]]',
+          },
+        ]
+      ),
+      note('Packing.md', '- passport\n- charger', []),
+      note(
+        'Days.md',
+        '# Days\n## Day 1\nArrived.\n## Day 2\nBeach.\n### Lunch\nFish.\n## Day 3\nBest day ever. ^best',
+        [{ linkType: 'link', target: 'Trip', raw: '[[Trip]]' }]
+      ),
+    ])
+    outDir = await mkdtemp(join(tmpdir(), 'istoria-notebooklm-'))
+  })
+
+  afterEach(async () => {
+    await cleanup()
+    await rm(outDir, { recursive: true, force: true })
+  })
+
+  const exportText = async (options: NotebookLMExportOptions) => {
+    const manifest = await exportToNotebookLM(db, outDir, 'month', options)
+    return readFile(join(outDir, manifest.files[0]!.file), 'utf-8')
+  }
+
+  test('leaves embeds as written by default', async () => {
+    const text = await exportText({})
+    expect(text).toContain('![[Packing]]')
+    expect(text).not.toContain('Linked from:')
+  })
+
+  test('inlines embedded notes, headings and blocks', async () => {
+    const text = await exportText({ inlineEmbeds: true })
+
+    expect(text).toContain('Plan:\n- passport\n- charger\n')
+    expect(text).toContain('Day two: ## Day 2\nBeach.\n### Lunch\nFish.\n')
+    expect(text).toContain('Quote: Best day ever.\n')
+  })
+
+  test('lists backlinks under each note', async () => {
+    const text = await exportText({ backlinks: true })
+
+    expect(text).toContain('- charger\nLinked from: Trip')
+    expect(text).toMatch(/\^best\nLinked from: Trip/)
+    expect(text).toContain('![[Days#^best]]\nLinked from: Days')
+  })
+})
+
+describe('exportToNotebookLM day zones', () => {
+  let db: Kysely<DatabaseSchema>
+  let cleanup: () => Promise<void>
+  let outDir: string
+  let defaultZone: typeof Settings.defaultZone
+
+  const entry = (sourceKey: string, time: DateTime): NewMemory => ({
+    source: 'journal',
+    sourceKey,
+    memoryCreatedAt: time,
+    title: sourceKey,
+    metadata: {},
+    content: sourceKey,
+  })
+
+  beforeAll(() => {
+    defaultZone = Settings.defaultZone
+    Settings.defaultZone = 'UTC'
+  })
+
+  afterAll(() => {
+    Settings.defaultZone = defaultZone
+  })
+
+  beforeEach(async () => {
+    ;[db, cleanup] = await createDatabase(':memory:')
+    outDir = await mkdtemp(join(tmpdir(), 'istoria-notebooklm-'))
+  })
+
+  afterEach(async () => {
+    await cleanup()
+    await rm(outDir, { recursive: true, force: true })
+  })
+
+  // Each day with the titles and times of its memories, in order
+  const exportDays = async (options: NotebookLMExportOptions) => {
+    const manifest = await exportToNotebookLM(db, outDir, 'year', options)
+    const text = await readFile(join(outDir, manifest.files[0]!.file), 'utf-8')
+    return text
+      .split('<date>')
+      .filter(Boolean)
+      .map((day) => [
+        day.slice(0, 10),
+        ...[...day.matchAll(/## (.*)\nTime: (.*)/g)].map(
+          ([, title, time]) => `${title} ${time}`
+        ),
+      ])
+  }
+
+  test('orders memories by instant and splits days across the date line', async () => {
+    await importData(db, [
+      // 09:30 UTC, though its text sorts after the entry below
+      entry(
+        'Kiritimati',
+        DateTime.fromISO('2025-06-01T23:30', { zone: 'Pacific/Kiritimati' })
+      ),
+      // 19:00 UTC
+      entry(
+        'Pago Pago',
+        DateTime.fromISO('2025-06-01T08:00', { zone: 'Pacific/Pago_Pago' })
+      ),
+    ])
+
+    expect(await exportDays({})).toEqual([
+      ['2025-06-01', 'Kiritimati 09:30', 'Pago Pago 19:00'],
+    ])
+    expect(await exportDays({ dayZone: 'local' })).toEqual([
+      ['2025-06-01', 'Kiritimati 23:30', 'Pago Pago 08:00'],
+    ])
+    expect(await exportDays({ dayZone: 'Asia/Tokyo' })).toEqual([
+      ['2025-06-01', 'Kiritimati 18:30'],
+      ['2025-06-02', 'Pago Pago 04:00'],
+    ])
+  })
+
+  test('follows DST changes in the home zone', async () => {
+    await importData(db, [
+      // Just before and after clocks went forward (EST to EDT)
+      entry('Spring before', DateTime.fromISO('2025-03-09T06:30:00Z')),
+      entry('Spring after', DateTime.fromISO('2025-03-09T07:30:00Z')),
+      // Late on the evening after clocks went back (EDT to EST)
+      entry('Autumn', DateTime.fromISO('2025-11-03T04:30:00Z')),
+    ])
+
+    expect(await exportDays({ dayZone: 'America/New_York' })).toEqual([
+      ['2025-03-09', 'Spring before 01:30', 'Spring after 03:30'],
+      ['2025-11-02', 'Autumn 23:30'],
+    ])
+  })
+
+  test('rejects unknown zones', async () => {
+    await expect(
+      exportToNotebookLM(db, outDir, 'month', { dayZone: 'Mars/Olympus' })
+    ).rejects.toThrow('Invalid zone: Mars/Olympus')
+  })
+})
@@ -2,116 +2,469 @@ import { writeFile } from 'node:fs/promises'
 import path from 'node:path'
 import createDebug from 'debug'
 import type { Kysely } from 'kysely'
-import { DateTime } from 'luxon'
-import { getAllMemories } from '../db-operations'
+import { getMemories } from '../db-operations'
+import type { MemoryFilter } from '../memory-filter'
+import { type Embed, getBacklinks, getEmbeds } from '../memory-links'
+import {
+  type FileRedactions,
+  type RedactionMatch,
+  type Redactor,
+  writeRedactionAudit,
+} from '../redaction'
+import type { ExporterDefinition } from '../registry'
 import type { DatabaseSchema, Memory } from '../types'
+import {
+  countWords,
+  DAY_ZONE_OPTION,
+  type ExportBudget,
+  estimateTokens,
+  type FileGroup,
+  getMemoryTime,
+  groupByBudget,
+  groupByDay,
+  groupByInterval,
+  parseLimit,
+  validateDayZone,
+} from './grouping'
+import {
+  defaultTemplate,
+  type ExportTemplate,
+  loadTemplate,
+  type MemoryTemplateContext,
+} from './templates'
 
 const d = createDebug('istoria:notebooklm')
 
-export type ExportInterval = 'month' | 'year'
+// 'budget' packs consecutive days into files up to a size limit rather than
+// splitting on calendar boundaries
+export type ExportInterval = 'month' | 'year' | 'budget'
+
+export interface NotebookLMExportOptions {
+  // Size limit per file in budget mode; defaults to NotebookLM's per-source
+  // word limit
+  budget?: ExportBudget
+  // Only export matching memories; exports everything by default
+  filter?: MemoryFilter
+  // Replace ![[embeds]] with the embedded note (or heading or block)
+  inlineEmbeds?: boolean
+  // List the memories linking to each memory under it
+  backlinks?: boolean
+  // Redact each memory as it's written, and write an audit of what was
+  // redacted in each file
+  redactor?: Redactor
+  // Zone to split days (and show times) in: a zone name like
+  // "Europe/Berlin", or 'local' for each memory's own zone. Defaults to the
+  // system zone
+  dayZone?: string
+  // How memories, days and files are rendered; defaults to DEFAULT_TEMPLATE
+  template?: ExportTemplate
+}
+
+export interface ManifestEntry {
+  file: string
+  from: string
+  to: string
+  days: number
+  memories: number
+  sources: string[]
+  words: number
+  estimatedTokens: number
+  bytes: number
+  // Set when a single day is larger than the budget on its own
+  overBudget?: boolean
+}
+
+export interface ExportManifest {
+  interval: ExportInterval
+  budget?: ExportBudget
+  files: ManifestEntry[]
+}
+
+// NotebookLM rejects sources over 500,000 words
+export const DEFAULT_BUDGET: ExportBudget = { limit: 500_000, unit: 'words' }
+
+// Named for the exporter, like the redaction audit, so other exports to the
+// same directory leave it alone
+const MANIFEST_FILE = 'notebooklm-manifest.json'
+
+interface ExportDay {
+  dayKey: string
+  memories: Memory[]
+  text: string
+  words: number
+  estimatedTokens: number
+  redactions: RedactionMatch[]
+}
+
+// Links to render, keyed by memory id; empty unless the options ask for them
+interface LinkContext {
+  embeds: Map<string, Embed[]>
+  backlinks: Map<string, string[]>
+}
+
+const HEADING_REGEX = /^(#{1,6})\s+(.*?)\s*#*\s*$/
+const LIST_ITEM_REGEX = /^\s*(?:[-*+]|\d+[.)])\s/
 
 /**
- * Serialize a memory to a compact text format.
- * Excludes id and source to minimize size.
+ * Extracts the part of a note a heading ("#Heading") or block ("#^id")
+ * reference points to: the heading's section up to the next heading of the
+ * same or higher level, or the paragraph ending in the block id. Returns
+ * undefined if the note has no such heading or block.
  */
-function serializeMemory(memory: Memory): string {
-  const time = (memory.memoryCreatedAt as DateTime).toFormat('HH:mm')
-  const lines: string[] = []
+function extractSubpath(content: string, subpath: string): string | undefined {
+  const lines = content.split('\n')
 
-  lines.push(`## ${memory.title}`)
-  lines.push(`Time: ${time}`)
+  if (subpath.startsWith('#^')) {
+    const marker = new RegExp(`\\s\\^${RegExp.escape(subpath.slice(2))}\\s*$`)
+    const end = lines.findIndex((line) => marker.test(line))
+    if (end === -1) {
+      return undefined
+    }
+    // A block is its paragraph, or just the line for headings and list items
+    let start = end
+    const isBlockStart = (line: string) =>
+      HEADING_REGEX.test(line) || LIST_ITEM_REGEX.test(line)
+    if (!isBlockStart(lines[end] ?? '')) {
+      while (start > 0) {
+        const previous = lines[start - 1] ?? ''
+        if (!previous.trim() || isBlockStart(previous)) {
+          break
+        }
+        start--
+      }
+    }
+    const block = lines.slice(start, end + 1)
+    block[block.length - 1] = (block.at(-1) ?? '').replace(marker, '')
+    return block.join('\n')
+  }
+
+  // Nested references (#Parent#Child) point at the last heading
+  const heading = subpath.split('#').filter(Boolean).at(-1)?.trim()
+  if (!heading) {
+    return undefined
+  }
 
-  if (memory.content) {
-    lines.push(memory.content)
+  const start = lines.findIndex(
+    (line) =>
+      HEADING_REGEX.exec(line)?.[2]?.toLowerCase() === heading.toLowerCase()
+  )
+  if (start === -1) {
+    return undefined
   }
 
-  return lines.join('\n')
+  const level = HEADING_REGEX.exec(lines[start] ?? '')?.[1]?.length ?? 1
+  let end = start + 1
+  while (end < lines.length) {
+    const match = HEADING_REGEX.exec(lines[end] ?? '')
+    if (match && (match[1]?.length ?? 0) <= level) {
+      break
+    }
+    end++
+  }
+  return lines.slice(start, end).join('\n').trimEnd()
 }
 
 /**
- * Format all memories for a single day wrapped in <date> tags.
+ * Replace a memory's resolved embeds with the text they embed. Only one level
+ * is inlined, so embeds within embedded notes are left as they are.
  */
-function formatDay(dateStr: string, memories: Memory[]): string {
-  const serialized = memories.map(serializeMemory).join('\n\n---\n\n')
-  return `<date>${dateStr}</date>\n${serialized}\n`
+function inlineEmbeds(content: string, embeds: Embed[]): string {
+  let result = content
+  for (const embed of embeds) {
+    const text = embed.target.content
+    if (!text) {
+      continue
+    }
+    const embedded = embed.subpath ? extractSubpath(text, embed.subpath) : text
+    if (embedded !== undefined) {
+      result = result.replaceAll(embed.raw, embedded)
+    }
+  }
+  return result
 }
 
 /**
- * Get the file key (filename without extension) for a given date and interval.
- * Returns "March2025" for month interval, "2017" for year interval.
+ * What the memory template gets for a memory: its fields, with embeds inlined
+ * when asked for, its time in the day zone and its backlinks.
  */
-function getFileKey(date: DateTime, interval: ExportInterval): string {
-  if (interval === 'year') {
-    return date.toFormat('yyyy')
+function getMemoryContext(
+  memory: Memory,
+  links: LinkContext,
+  dayZone: string | undefined
+): MemoryTemplateContext {
+  const embeds = links.embeds.get(memory.id)
+  return {
+    ...memory,
+    content:
+      memory.content && embeds
+        ? inlineEmbeds(memory.content, embeds)
+        : memory.content,
+    time: getMemoryTime(memory, dayZone),
+    backlinks: links.backlinks.get(memory.id) ?? [],
   }
-  return date.toFormat('MMMM yyyy').replace(' ', '')
 }
 
 /**
- * Get the day key for grouping memories by day.
+ * Render all memories for a single day with the template, redacting each
+ * memory if there's a redactor.
  */
-function getDayKey(date: DateTime): string {
-  return date.toFormat('yyyy-MM-dd')
+function formatDay(
+  dateStr: string,
+  memories: Memory[],
+  links: LinkContext,
+  options: NotebookLMExportOptions
+): { text: string; redactions: RedactionMatch[] } {
+  const template = options.template ?? defaultTemplate
+  const redactions: RedactionMatch[] = []
+  const rendered = memories.map((memory) => {
+    const serialized = template.renderMemory(
+      getMemoryContext(memory, links, options.dayZone)
+    )
+    if (!options.redactor) {
+      return serialized
+    }
+    const { text, matches } = options.redactor.redact(serialized)
+    redactions.push(...matches)
+    return text
+  })
+
+  const text = template.renderDay({
+    date: dateStr,
+    memories: rendered,
+    sources: [...new Set(memories.map((memory) => memory.source))].sort(),
+  })
+  return { text, redactions }
+}
+
+async function getLinkContext(
+  db: Kysely<DatabaseSchema>,
+  options: NotebookLMExportOptions
+): Promise<LinkContext> {
+  const links: LinkContext = { embeds: new Map(), backlinks: new Map() }
+  const filter = options.filter ?? {}
+
+  if (options.inlineEmbeds) {
+    for (const embed of await getEmbeds(db, filter)) {
+      const existing = links.embeds.get(embed.sourceId) ?? []
+      existing.push(embed)
+      links.embeds.set(embed.sourceId, existing)
+    }
+  }
+
+  if (options.backlinks) {
+    for (const backlink of await getBacklinks(db, filter)) {
+      const existing = links.backlinks.get(backlink.targetId) ?? []
+      existing.push(backlink.title)
+      links.backlinks.set(backlink.targetId, existing)
+    }
+  }
+
+  return links
+}
+
+function toManifestEntry(
+  file: FileGroup<ExportDay>,
+  content: string,
+  budget: ExportBudget | undefined
+): ManifestEntry {
+  const sources = new Set<string>()
+  let memories = 0
+  let words = 0
+  let estimatedTokens = 0
+  for (const day of file.days) {
+    for (const memory of day.memories) {
+      sources.add(memory.source)
+    }
+    memories += day.memories.length
+    words += day.words
+    estimatedTokens += day.estimatedTokens
+  }
+
+  const entry: ManifestEntry = {
+    file: `${file.key}.txt`,
+    from: file.days[0]?.dayKey ?? '',
+    to: file.days.at(-1)?.dayKey ?? '',
+    days: file.days.length,
+    memories,
+    sources: [...sources].sort(),
+    words,
+    estimatedTokens,
+    bytes: Buffer.byteLength(content, 'utf-8'),
+  }
+
+  const size = budget?.unit === 'tokens' ? estimatedTokens : words
+  if (budget && size > budget.limit) {
+    entry.overBudget = true
+  }
+  return entry
 }
 
 /**
  * Export all memories to NotebookLM-compatible text files.
- * Groups memories by day, then writes files per month or year.
+ * Groups memories by day, then writes files per month or year, or packs
+ * consecutive days into files up to a word or token budget. A
+ * notebooklm-manifest.json lists each file's date range, sources and size.
  */
 export async function exportToNotebookLM(
   db: Kysely<DatabaseSchema>,
   outputDir: string,
-  interval: ExportInterval
-): Promise<void> {
+  interval: ExportInterval,
+  options: NotebookLMExportOptions = {}
+): Promise<ExportManifest> {
   d('starting export with interval: %s', interval)
+  validateDayZone(options.dayZone)
+  const budget =
+    interval === 'budget' ? (options.budget ?? DEFAULT_BUDGET) : undefined
+  const manifest: ExportManifest = {
+    interval,
+    ...(budget && { budget }),
+    files: [],
+  }
 
-  const memories = await getAllMemories(db)
+  const memories = await getMemories(db, options.filter ?? {})
   d('fetched %d memories for export', memories.length)
 
   if (memories.length === 0) {
     d('no memories to export')
-    return
+    return manifest
   }
 
-  // Group memories by day
-  const memoriesByDay = new Map<string, Memory[]>()
-  for (const memory of memories) {
-    const dayKey = getDayKey(memory.memoryCreatedAt as DateTime)
-    const existing = memoriesByDay.get(dayKey) ?? []
-    existing.push(memory)
-    memoriesByDay.set(dayKey, existing)
-  }
-  d('grouped memories into %d days', memoriesByDay.size)
+  const dayGroups = groupByDay(memories, options.dayZone)
+  d('grouped memories into %d days', dayGroups.length)
 
-  // Group days by file (month or year)
-  const daysByFile = new Map<string, Map<string, Memory[]>>()
-  for (const [dayKey, dayMemories] of memoriesByDay) {
-    const date = DateTime.fromISO(dayKey)
-    const fileKey = getFileKey(date, interval)
+  const links = await getLinkContext(db, options)
 
-    if (!daysByFile.has(fileKey)) {
-      daysByFile.set(fileKey, new Map())
+  // Format each day once, chronologically, so it can be measured
+  const days: ExportDay[] = dayGroups.map(
+    ({ dayKey, memories: dayMemories }) => {
+      const { text, redactions } = formatDay(
+        dayKey,
+        dayMemories,
+        links,
+        options
+      )
+      return {
+        dayKey,
+        memories: dayMemories,
+        text,
+        words: countWords(text),
+        estimatedTokens: estimateTokens(text),
+        redactions,
+      }
     }
-    daysByFile.get(fileKey)!.set(dayKey, dayMemories)
-  }
-  d('grouped days into %d files', daysByFile.size)
+  )
 
-  // Write each file
-  for (const [fileKey, days] of daysByFile) {
-    // Sort days chronologically
-    const sortedDays = [...days.entries()].sort(([a], [b]) =>
-      a.localeCompare(b)
-    )
+  const files =
+    interval === 'budget'
+      ? groupByBudget(days, (budget ?? DEFAULT_BUDGET).limit, (day) =>
+          budget?.unit === 'tokens' ? day.estimatedTokens : day.words
+        )
+      : groupByInterval(days, interval)
+  d('grouped days into %d files', files.length)
 
-    // Format each day
-    const content = sortedDays
-      .map(([dayKey, dayMemories]) => formatDay(dayKey, dayMemories))
-      .join('\n')
+  // Write each file
+  const audit: FileRedactions[] = []
+  for (const file of files) {
+    const name = `${file.key}.txt`
+    const content = (options.template ?? defaultTemplate).renderFile({
+      name,
+      from: file.days[0]?.dayKey ?? '',
+      to: file.days.at(-1)?.dayKey ?? '',
+      days: file.days.map((day) => day.text),
+    })
 
-    const filePath = path.join(outputDir, `${fileKey}.txt`)
+    const filePath = path.join(outputDir, name)
     await writeFile(filePath, content, 'utf-8')
-    d('wrote %s with %d days', filePath, sortedDays.length)
+    d('wrote %s with %d days', filePath, file.days.length)
+
+    const entry = toManifestEntry(file, content, budget)
+    if (entry.overBudget) {
+      d('%s is over budget: a single day exceeds the limit', name)
+    }
+    manifest.files.push(entry)
+    audit.push({
+      file: name,
+      matches: file.days.flatMap((day) => day.redactions),
+    })
+  }
+
+  await writeFile(
+    path.join(outputDir, MANIFEST_FILE),
+    `${JSON.stringify(manifest, null, 2)}\n`,
+    'utf-8'
+  )
+  if (options.redactor) {
+    await writeRedactionAudit(outputDir, 'notebooklm', audit)
   }
 
   d('export complete')
+  return manifest
+}
+
+export const notebookLMExporter: ExporterDefinition = {
+  name: 'notebooklm',
+  description:
+    'Text files for NotebookLM sources, per month, per year or packed to a size budget',
+  options: [
+    {
+      flags: '--interval <type>',
+      description: "Grouping interval for export: 'month', 'year' or 'budget'",
+      defaultValue: 'month',
+    },
+    {
+      flags: '--max-words <count>',
+      description: `Words per file in budget mode (default: ${DEFAULT_BUDGET.limit})`,
+    },
+    {
+      flags: '--max-tokens <count>',
+      description: 'Estimated tokens per file in budget mode, instead of words',
+    },
+    {
+      flags: '--inline-embeds',
+      description: 'Replace ![[embeds]] with the embedded note',
+    },
+    {
+      flags: '--backlinks',
+      description: 'List the notes linking to each note under it',
+    },
+    DAY_ZONE_OPTION,
+    {
+      flags: '--template <file>',
+      description:
+        'Template for rendering memories, days and files (default: the built-in format)',
+    },
+  ],
+  run: async (db, outputDir, options, filter, redactor) => {
+    const interval = options['interval']
+    if (interval !== 'month' && interval !== 'year' && interval !== 'budget') {
+      throw new Error(`Invalid interval: ${interval}`)
+    }
+
+    const maxWords = String(options['maxWords'] ?? '')
+    const maxTokens = String(options['maxTokens'] ?? '')
+    if (maxWords && maxTokens) {
+      throw new Error('Use either --max-words or --max-tokens, not both')
+    }
+
+    const budget: ExportBudget | undefined = maxTokens
+      ? { limit: parseLimit(maxTokens), unit: 'tokens' }
+      : maxWords
+        ? { limit: parseLimit(maxWords), unit: 'words' }
+        : undefined
+    const template =
+      typeof options['template'] === 'string'
+        ? await loadTemplate(options['template'])
+        : undefined
+    await exportToNotebookLM(db, outputDir, interval, {
+      filter,
+      inlineEmbeds: options['inlineEmbeds'] === true,
+      backlinks: options['backlinks'] === true,
+      ...(budget && { budget }),
+      ...(typeof options['dayZone'] === 'string' && {
+        dayZone: options['dayZone'],
+      }),
+      ...(redactor && { redactor }),
+      ...(template && { template }),
+    })
+  },
 }
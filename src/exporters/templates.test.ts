@@ -0,0 +1,154 @@
+import { describe, expect, test } from 'bun:test'
+import { DateTime } from 'luxon'
+import type { Memory } from '../types'
+import {
+  defaultTemplate,
+  type MemoryTemplateContext,
+  parseTemplate,
+} from './templates'
+
+function context(
+  overrides: Partial<MemoryTemplateContext> = {}
+): MemoryTemplateContext {
+  const memoryCreatedAt = DateTime.fromISO('2025-03-04T09:05:00Z', {
+    zone: 'utc',
+  })
+  const memory: Memory = {
+    id: 'abc',
+    source: 'obsidian',
+    sourceKey: 'Daily/2025-03-04.md',
+    createdAt: memoryCreatedAt,
+    memoryCreatedAt,
+    memoryInstant: memoryCreatedAt.toMillis(),
+    memoryZone: 'UTC',
+    title: 'Tuesday',
+    metadata: { tags: ['hiking', 'friends'], mood: { level: 4 } },
+    content: 'Went up Mount Tam.',
+    contentHash: 'hash',
+    contentBlob: null,
+    importRunId: null,
+  }
+  return { ...memory, time: memoryCreatedAt, backlinks: [], ...overrides }
+}
+
+describe('default template', () => {
+  test('renders memories, days and files in the original format', () => {
+    expect(defaultTemplate.renderMemory(context())).toBe(
+      '## Tuesday\nTime: 09:05\nWent up Mount Tam.'
+    )
+    expect(
+      defaultTemplate.renderMemory(
+        context({ content: null, backlinks: ['Sam', 'Hikes'] })
+      )
+    ).toBe('## Tuesday\nTime: 09:05\nLinked from: Sam, Hikes')
+
+    const day = defaultTemplate.renderDay({
+      date: '2025-03-04',
+      memories: ['## A\nTime: 09:00', '## B\nTime: 10:00\nb'],
+      sources: ['obsidian'],
+    })
+    expect(day).toBe(
+      '<date>2025-03-04</date>\n## A\nTime: 09:00\n\n---\n\n## B\nTime: 10:00\nb\n'
+    )
+    expect(
+      defaultTemplate.renderFile({
+        name: 'March2025.txt',
+        from: '2025-03-04',
+        to: '2025-03-05',
+        days: [day, day],
+      })
+    ).toBe(`${day}\n${day}`)
+  })
+})
+
+describe('parseTemplate', () => {
+  test('gives access to every field, with filters', () => {
+    const template = parseTemplate(
+      [
+        '=== memory ===',
+        '{{ id }} {{ source | upper }} {{ sourceKey }} {{ memoryZone }}',
+        '{{ memoryCreatedAt | date "yyyy-MM-dd HH:mm" }} ({{ time | date "cccc" }})',
+        'Tags: {{ metadata.tags | join " #" }}, mood {{ metadata.mood.level }}',
+        '{{ metadata.missing | default "none" }} {{ metadata.mood | json }}',
+        '{{! a comment',
+        'over two lines }}',
+        '{{! a comment on its own line }}',
+        '{{ title }}{{! inline comments render nothing }}',
+        '{{! so do comments before text }}{{ title }}',
+      ].join('\n')
+    )
+
+    expect(template.renderMemory(context())).toBe(
+      [
+        'abc OBSIDIAN Daily/2025-03-04.md UTC',
+        '2025-03-04 09:05 (Tuesday)',
+        'Tags: hiking #friends, mood 4',
+        'none {"level":4}',
+        'Tuesday',
+        'Tuesday',
+      ].join('\n')
+    )
+  })
+
+  test('renders blocks per source', () => {
+    const template = parseTemplate(
+      [
+        '=== memory ===',
+        '{{#if source == "slack" }}',
+        'Slack: {{ title }}',
+        '{{else}}',
+        '  {{#if metadata.tags }}',
+        '{{ title }} [{{ metadata.tags }}]',
+        '  {{/if}}',
+        '{{/if}}',
+        '{{ sourceKey }}{{#if source != "obsidian"}} ({{ source }}){{/if}}',
+      ].join('\n')
+    )
+
+    expect(template.renderMemory(context())).toBe(
+      'Tuesday [hiking, friends]\nDaily/2025-03-04.md'
+    )
+    expect(
+      template.renderMemory(context({ source: 'slack', sourceKey: 'general' }))
+    ).toBe('Slack: Tuesday\ngeneral (slack)')
+    expect(
+      template.renderMemory(context({ source: 'daylio', metadata: {} }))
+    ).toBe('Daily/2025-03-04.md (daylio)')
+  })
+
+  test('takes sections it leaves out from the default template', () => {
+    const template = parseTemplate('=== memory ===\n{{ title }}\n')
+    expect(template.renderMemory(context())).toBe('Tuesday')
+    expect(
+      template.renderDay({
+        date: '2025-03-04',
+        memories: ['Tuesday'],
+        sources: [],
+      })
+    ).toBe('<date>2025-03-04</date>\nTuesday\n')
+  })
+
+  test('reports mistakes with their line', () => {
+    expect(() => parseTemplate('Hello')).toThrow(
+      'Template error on line 1: text before the first section (e.g. "=== memory ===")'
+    )
+    expect(() => parseTemplate('=== week ===')).toThrow(
+      'Unknown template section: week'
+    )
+    expect(() =>
+      parseTemplate('=== memory ===\n{{ title }}\n{{ title | shout }}')
+    ).toThrow('Template error on line 3: Unknown filter: shout')
+    expect(() => parseTemplate('=== day ===\n{{ date | date }}')).toThrow(
+      'Template error on line 2: The date filter needs a "string" argument'
+    )
+    expect(() =>
+      parseTemplate('=== memory ===\n{{#if source == slack}}\n{{/if}}')
+    ).toThrow('Template error on line 2: Invalid condition: source == slack')
+    expect(() =>
+      parseTemplate('=== memory ===\n{{#if content}}\n{{ content }}')
+    ).toThrow('Template error: {{#if}} without {{/if}}')
+    expect(() => parseTemplate('=== file ===\n{{ days }}{{/if}}')).toThrow(
+      'Template error on line 2: {{/if}} without {{#if}}'
+    )
+  })
+})
@@ -0,0 +1,564 @@
+import { readFile } from 'node:fs/promises'
+import createDebug from 'debug'
+import { DateTime } from 'luxon'
+import type { Memory } from '../types'
+
+const d = createDebug('istoria:templates')
+
+/**
+ * What a memory template can use: every Memory field (content with embeds
+ * inlined if asked for), `time`, the memory's time in the zone days are split
+ * in, and `backlinks`, the titles of the memories linking to it (when
+ * exporting with backlinks).
+ */
+export type MemoryTemplateContext = Memory & {
+  time: DateTime
+  backlinks: string[]
+}
+
+export interface DayTemplateContext {
+  // The day, e.g. "2025-03-04"
+  date: string
+  // The day's rendered memories
+  memories: string[]
+  sources: string[]
+}
+
+export interface FileTemplateContext {
+  name: string
+  from: string
+  to: string
+  // The file's rendered days
+  days: string[]
+}
+
+export interface ExportTemplate {
+  renderMemory(context: MemoryTemplateContext): string
+  renderDay(context: DayTemplateContext): string
+  renderFile(context: FileTemplateContext): string
+}
+
+export type TemplateSection = 'memory' | 'day' | 'file'
+
+/**
+ * The format exports had before templates, and the reference for writing
+ * them. A template has a section for each level of the export; sections left
+ * out of a template file are taken from here.
+ */
+export const DEFAULT_TEMPLATE = `{{! Each memory: its title, time, content and backlinks. Leaves out id and
+source to keep exports compact }}
+=== memory ===
+## {{ title }}
+Time: {{ time | date "HH:mm" }}
+{{#if content }}
+{{ content }}
+{{/if}}
+{{#if backlinks }}
+Linked from: {{ backlinks | join ", " }}
+{{/if}}
+=== day ===
+<date>{{ date }}</date>
+{{ memories | join "\\n\\n---\\n\\n" }}
+
+=== file ===
+{{ days | join "\\n" }}
+`
+
+const SECTIONS: TemplateSection[] = ['memory', 'day', 'file']
+
+const SECTION_REGEX = /^=== (.+?) ===\s*$/
+const TAG_REGEX = /\{\{(.*?)\}\}/g
+// Paths, string literals (JSON syntax) and pipes in a value tag
+const EXPRESSION_TOKEN_REGEX = /"(?:[^"\\]|\\.)*"|\||[^\s|"]+/g
+const CONDITION_REGEX = /^(\S+)(?:\s*(==|!=)\s*("(?:[^"\\]|\\.)*"))?$/
+const PATH_REGEX = /^[A-Za-z_$][\w$]*(?:\.[\w$]+)*$/
+
+interface Filter {
+  // Whether the filter takes a string argument
+  hasArgument: boolean
+  apply(value: unknown, argument: string): unknown
+}
+
+interface Expression {
+  path: string[]
+  filters: { filter: Filter; argument: string }[]
+}
+
+interface Condition {
+  path: string[]
+  operator?: '==' | '!='
+  value?: string
+}
+
+type Control =
+  | { type: 'if'; condition: Condition }
+  | { type: 'else' }
+  | { type: 'end' }
+
+interface IfNode<Leaf> {
+  type: 'if'
+  condition: Condition
+  then: Tree<Leaf>
+  else: Tree<Leaf>
+}
+
+type Tree<Leaf> = (Leaf | IfNode<Leaf>)[]
+
+type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'value'; expression: Expression }
+
+type Line = { type: 'line'; nodes: Tree<InlineNode> }
+
+type Context = Record<string, unknown>
+
+/**
+ * Renders a value as text: lists are joined with commas, dates written as
+ * ISO, objects as JSON, and missing values and blobs as nothing.
+ */
+function toText(value: unknown): string {
+  if (value === null || value === undefined || value instanceof Uint8Array) {
+    return ''
+  }
+  if (typeof value === 'string') {
+    return value
+  }
+  if (DateTime.isDateTime(value)) {
+    return value.toISO() ?? ''
+  }
+  if (Array.isArray(value)) {
+    return value.map(toText).join(', ')
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value)
+  }
+  return String(value)
+}
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    value === false ||
+    value === '' ||
+    value === 0 ||
+    (Array.isArray(value) && value.length === 0)
+  )
+}
+
+const FILTERS: Record<string, Filter> = {
+  // Luxon format tokens, e.g. "yyyy-MM-dd HH:mm"; also takes ISO strings,
+  // such as dates kept in metadata
+  date: {
+    hasArgument: true,
+    apply: (value, format) => {
+      const date =
+        typeof value === 'string'
+          ? DateTime.fromISO(value, { setZone: true })
+          : value
+      return DateTime.isDateTime(date) && date.isValid
+        ? date.toFormat(format)
+        : ''
+    },
+  },
+  join: {
+    hasArgument: true,
+    apply: (value, separator) =>
+      Array.isArray(value) ? value.map(toText).join(separator) : value,
+  },
+  default: {
+    hasArgument: true,
+    apply: (value, fallback) => (isEmpty(value) ? fallback : value),
+  },
+  json: {
+    hasArgument: false,
+    apply: (value) => JSON.stringify(value) ?? '',
+  },
+  upper: {
+    hasArgument: false,
+    apply: (value) => toText(value).toUpperCase(),
+  },
+  lower: {
+    hasArgument: false,
+    apply: (value) => toText(value).toLowerCase(),
+  },
+}
+
+/**
+ * Looks up a dotted path like "metadata.tags". Missing fields are undefined
+ * rather than an error, since metadata differs between sources.
+ */
+function lookup(context: Context, path: string[]): unknown {
+  let value: unknown = context
+  for (const key of path) {
+    if (
+      value === null ||
+      typeof value !== 'object' ||
+      !Object.hasOwn(value, key)
+    ) {
+      return undefined
+    }
+    value = (value as Context)[key]
+  }
+  return value
+}
+
+function parsePath(text: string): string[] {
+  if (!PATH_REGEX.test(text)) {
+    throw new Error(`Invalid field: ${text}`)
+  }
+  return text.split('.')
+}
+
+function parseString(literal: string): string {
+  try {
+    return JSON.parse(literal)
+  } catch {
+    throw new Error(`Invalid string: ${literal}`)
+  }
+}
+
+/**
+ * Parses a value tag: a field, then any filters, each with an argument if it
+ * takes one (`time | date "HH:mm"`).
+ */
+function parseExpression(text: string): Expression {
+  const tokens = text.match(EXPRESSION_TOKEN_REGEX) ?? []
+  const [first, ...rest] = tokens
+  if (!first) {
+    throw new Error('Empty tag')
+  }
+  const expression: Expression = { path: parsePath(first), filters: [] }
+
+  while (rest.length > 0) {
+    const [pipe, name = ''] = rest.splice(0, 2)
+    const filter = FILTERS[name]
+    if (pipe !== '|' || !filter) {
+      throw new Error(
+        pipe === '|' ? `Unknown filter: ${name}` : `Unexpected ${pipe}`
+      )
+    }
+    let argument = ''
+    if (filter.hasArgument) {
+      const literal = rest.shift()
+      if (!literal?.startsWith('"')) {
+        throw new Error(`The ${name} filter needs a "string" argument`)
+      }
+      argument = parseString(literal)
+    }
+    expression.filters.push({ filter, argument })
+  }
+  return expression
+}
+
+function parseCondition(text: string): Condition {
+  const match = CONDITION_REGEX.exec(text.trim())
+  if (!match?.[1]) {
+    throw new Error(`Invalid condition: ${text.trim()}`)
+  }
+  const [, path, operator, literal] = match
+  return {
+    path: parsePath(path),
+    ...(operator && { operator: operator as '==' | '!=' }),
+    ...(literal && { value: parseString(literal) }),
+  }
+}
+
+/**
+ * Parses the control tags: `{{#if field}}`, `{{#if field == "value"}}` (or
+ * `!=`), `{{else}}` and `{{/if}}`. Returns undefined for value tags.
+ */
+function parseControl(tag: string): Control | undefined {
+  const text = tag.trim()
+  if (text.startsWith('#if ')) {
+    return { type: 'if', condition: parseCondition(text.slice(4)) }
+  }
+  if (text === 'else') {
+    return { type: 'else' }
+  }
+  if (text === '/if') {
+    return { type: 'end' }
+  }
+  if (text.startsWith('#') || text.startsWith('/')) {
+    throw new Error(`Unknown tag: {{${text}}}`)
+  }
+  return undefined
+}
+
+/**
+ * Whether a line opens a comment that continues on the next lines.
+ */
+function startsComment(trimmed: string): boolean {
+  return trimmed.startsWith('{{!') && !trimmed.includes('}}')
+}
+
+function isControl(item: InlineNode | Control): item is Control {
+  return item.type !== 'text' && item.type !== 'value'
+}
+
+/**
+ * Nests the nodes between control tags into if nodes.
+ */
+function buildTree<Leaf>(items: (Leaf | Control)[]): Tree<Leaf> {
+  const root: Tree<Leaf> = []
+  const open: { node: IfNode<Leaf>; inElse: boolean }[] = []
+  const current = () => {
+    const top = open.at(-1)
+    return top ? (top.inElse ? top.node.else : top.node.then) : root
+  }
+
+  for (const item of items) {
+    const control = item as Control
+    if (control.type === 'if') {
+      const node: IfNode<Leaf> = {
+        type: 'if',
+        condition: control.condition,
+        then: [],
+        else: [],
+      }
+      current().push(node)
+      open.push({ node, inElse: false })
+    } else if (control.type === 'else') {
+      const top = open.at(-1)
+      if (!top || top.inElse) {
+        throw new Error('{{else}} without {{#if}}')
+      }
+      top.inElse = true
+    } else if (control.type === 'end') {
+      if (!open.pop()) {
+        throw new Error('{{/if}} without {{#if}}')
+      }
+    } else {
+      current().push(item as Leaf)
+    }
+  }
+  if (open.length > 0) {
+    throw new Error('{{#if}} without {{/if}}')
+  }
+  return root
+}
+
+function matches(condition: Condition, context: Context): boolean {
+  const value = lookup(context, condition.path)
+  if (!condition.operator) {
+    return !isEmpty(value)
+  }
+  const equal = toText(value) === condition.value
+  return condition.operator === '==' ? equal : !equal
+}
+
+/**
+ * The leaves of a tree whose conditions hold, in order.
+ */
+function selectLeaves<Leaf extends { type: string }>(
+  tree: Tree<Leaf>,
+  context: Context
+): Leaf[] {
+  return tree.flatMap((node) => {
+    if (node.type !== 'if') {
+      return [node as Leaf]
+    }
+    const { condition, then, else: otherwise } = node as IfNode<Leaf>
+    return selectLeaves(matches(condition, context) ? then : otherwise, context)
+  })
+}
+
+/**
+ * Splits a line into text and tags. Comments (`{{! ... }}`) are dropped.
+ */
+function parseInline(line: string): (InlineNode | Control)[] {
+  const items: (InlineNode | Control)[] = []
+  let index = 0
+  for (const match of line.matchAll(TAG_REGEX)) {
+    if (match.index > index) {
+      items.push({ type: 'text', text: line.slice(index, match.index) })
+    }
+    index = match.index + match[0].length
+    const tag = match[1] ?? ''
+    if (tag.trim().startsWith('!')) {
+      continue
+    }
+    items.push(
+      parseControl(tag) ?? { type: 'value', expression: parseExpression(tag) }
+    )
+  }
+  if (index < line.length) {
+    items.push({ type: 'text', text: line.slice(index) })
+  }
+  return items
+}
+
+/**
+ * Compiles a section. Templates work on lines: a line holding nothing but a
+ * control tag or comment produces no output of its own, so blocks can span
+ * lines without leaving blank lines behind, and the lines that are rendered
+ * are joined with newlines. Control tags within a line have to be closed on
+ * it. Comments can span lines when they're on lines of their own.
+ */
+function compileSection(
+  lines: string[],
+  firstLine: number
+): (context: Context) => string {
+  const items: (Line | Control)[] = []
+  let inComment = false
+  for (const [i, line] of lines.entries()) {
+    const trimmed = line.trim()
+    try {
+      if (inComment) {
+        inComment = !trimmed.endsWith('}}')
+        continue
+      }
+      if (startsComment(trimmed)) {
+        inComment = true
+        continue
+      }
+      const inline = parseInline(line)
+      const tags = inline.filter(
+        (item) => item.type !== 'text' || item.text.trim()
+      )
+      const [only] = tags
+      if (tags.length === 1 && only && isControl(only)) {
+        items.push(only)
+        continue
+      }
+      // Lines of nothing but comments
+      if (tags.length === 0 && trimmed) {
+        continue
+      }
+      items.push({ type: 'line', nodes: buildTree(inline) })
+    } catch (error) {
+      throw new Error(
+        `Template error on line ${firstLine + i}: ${(error as Error).message}`
+      )
+    }
+  }
+  if (inComment) {
+    throw new Error(`Template error: unclosed comment`)
+  }
+
+  let tree: Tree<Line>
+  try {
+    tree = buildTree(items)
+  } catch (error) {
+    throw new Error(`Template error: ${(error as Error).message}`)
+  }
+
+  return (context) =>
+    selectLeaves(tree, context)
+      .map((line) =>
+        selectLeaves(line.nodes, context)
+          .map((node) =>
+            node.type === 'text'
+              ? node.text
+              : toText(
+                  node.expression.filters.reduce(
+                    (value, { filter, argument }) =>
+                      filter.apply(value, argument),
+                    lookup(context, node.expression.path)
+                  )
+                )
+          )
+          .join('')
+      )
+      .join('\n')
+}
+
+/**
+ * Splits a template into its sections, each starting with a line like
+ * `=== memory ===` and running to the next one. Only comments and blank lines
+ * may come before the first section.
+ */
+function splitSections(
+  text: string
+): Map<TemplateSection, { lines: string[]; firstLine: number }> {
+  const lines = text.replace(/\r\n/g, '\n').split('\n')
+  // The newline ending the file doesn't start another line
+  if (lines.at(-1) === '') {
+    lines.pop()
+  }
+
+  const sections = new Map<
+    TemplateSection,
+    { lines: string[]; firstLine: number }
+  >()
+  let current: string[] | undefined
+  let inComment = false
+  for (const [i, line] of lines.entries()) {
+    const header = SECTION_REGEX.exec(line)?.[1]
+    if (header) {
+      const section = header as TemplateSection
+      if (!SECTIONS.includes(section)) {
+        throw new Error(`Unknown template section: ${header}`)
+      }
+      if (sections.has(section)) {
+        throw new Error(`Template section ${header} is defined twice`)
+      }
+      current = []
+      sections.set(section, { lines: current, firstLine: i + 2 })
+    } else if (current) {
+      current.push(line)
+    } else {
+      const trimmed = line.trim()
+      if (inComment) {
+        inComment = !trimmed.endsWith('}}')
+      } else if (startsComment(trimmed)) {
+        inComment = true
+      } else if (
+        trimmed &&
+        !(trimmed.startsWith('{{!') && trimmed.endsWith('}}'))
+      ) {
+        throw new Error(
+          `Template error on line ${i + 1}: text before the first section (e.g. "=== memory ===")`
+        )
+      }
+    }
+  }
+  return sections
+}
+
+/**
+ * Compiles a template. Sections it doesn't define are taken from
+ * DEFAULT_TEMPLATE, so a template can change just how memories are rendered.
+ *
+ * Within a section, `{{ field }}` inserts a field (`{{ metadata.tags }}` for
+ * nested ones) and filters change how it's written: `date "<luxon format>"`,
+ * `join "<separator>"`, `default "<text>"`, `json`, `upper` and `lower`.
+ * `{{#if field}}`, `{{#if source == "slack"}}` and `!=` include what follows
+ * up to `{{else}}` or `{{/if}}` only when they hold.
+ */
+export function parseTemplate(text: string): ExportTemplate {
+  const sections = splitSections(text)
+  const defaults = splitSections(DEFAULT_TEMPLATE)
+
+  const compile = (section: TemplateSection) => {
+    const { lines, firstLine } = sections.get(section) ??
+      defaults.get(section) ?? { lines: [], firstLine: 1 }
+    return compileSection(lines, firstLine)
+  }
+  const memory = compile('memory')
+  const day = compile('day')
+  const file = compile('file')
+
+  return {
+    renderMemory: (context) => memory({ ...context }),
+    renderDay: (context) => day({ ...context }),
+    renderFile: (context) => file({ ...context }),
+  }
+}
+
+export async function loadTemplate(
+  templatePath: string
+): Promise<ExportTemplate> {
+  let text: string
+  try {
+    text = await readFile(templatePath, 'utf-8')
+  } catch (error) {
+    throw new Error(
+      `Failed to read template from ${templatePath}: ${(error as Error).message}`
+    )
+  }
+  d('loaded template from %s', templatePath)
+  return parseTemplate(text)
+}
+
+export const defaultTemplate = parseTemplate(DEFAULT_TEMPLATE)
@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { type Kysely, sql } from 'kysely'
+import { DateTime } from 'luxon'
+import { importData } from './db-operations'
+import { getImportRuns, recordImportRun, undoImportRun } from './import-runs'
+import {
+  createDatabase,
+  type DatabaseSchema,
+  type ImportedMemory,
+} from './types'
+
+function note(
+  sourceKey: string,
+  content: string,
+  extra: Partial<ImportedMemory> = {}
+): ImportedMemory {
+  return {
+    source: 'obsidian',
+    sourceKey,
+    memoryCreatedAt: DateTime.fromISO('2025-01-01T10:00:00+05:30', {
+      setZone: true,
+    }),
+    title: sourceKey,
+    metadata: {},
+    content,
+    ...extra,
+  }
+}
+
+describe('import runs', () => {
+  let db: Kysely<DatabaseSchema>
+  let cleanup: () => Promise<void>
+  let dir: string
+  let input: string
+
+  beforeEach(async () => {
+    ;[db, cleanup] = await createDatabase(':memory:')
+    dir = await mkdtemp(join(tmpdir(), 'istoria-runs-'))
+    input = join(dir, 'input.json')
+    await writeFile(input, '{}')
+  })
+
+  afterEach(async () => {
+    await cleanup()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  const importRun = (memories: ImportedMemory[]) =>
+    recordImportRun(db, 'obsidian', input, {}, (options) =>
+      importData(db, memories, options)
+    )
+
+  const contents = async () =>
+    Object.fromEntries(
+      (
+        await db
+          .selectFrom('memory')
+          .select(['sourceKey', 'content', 'importRunId'])
+          .orderBy('sourceKey')
+          .execute()
+      ).map((row) => [row.sourceKey, [row.content, row.importRunId]])
+    )
+
+  test('records each run and links memories to it', async () => {
+    const first = await importRun([note('A', 'a'), note('B', 'b')])
+    const second = await importRun([note('A', 'a2'), note('B', 'b')])
+
+    expect(await contents()).toEqual({
+      A: ['a2', second.runId],
+      B: ['b', first.runId],
+    })
+
+    const runs = await getImportRuns(db)
+    expect(runs.map((run) => run.id)).toEqual([second.runId, first.runId])
+    expect(runs[1]).toMatchObject({
+      source: 'obsidian',
+      inputPath: input,
+      inputHash: new Bun.CryptoHasher('sha256').update('{}').digest('hex'),
+      inserted: 2,
+      updated: 0,
+      unchanged: 0,
+      error: null,
+      undoneAt: null,
+    })
+    expect(runs[1]?.finishedAt).not.toBeNull()
+    expect(runs[0]).toMatchObject({ inserted: 0, updated: 1, unchanged: 1 })
+  })
+
+  test('records the error and progress of a failed run', async () => {
+    const memories = (async function* () {
+      yield note('A', 'a')
+      throw new Error('Bad export')
+    })()
+
+    await expect(
+      recordImportRun(db, 'obsidian', join(dir, 'missing'), {}, (options) =>
+        importData(db, memories, { ...options, batchSize: 1 })
+      )
+    ).rejects.toThrow('Bad export')
+
+    const [run] = await getImportRuns(db)
+    expect(run).toMatchObject({ inserted: 1, error: 'Bad export' })
+    expect(run?.inputHash).toBeNull()
+  })
+
+  test('undoing a run deletes what it added and restores what it changed', async () => {
+    await importRun([note('A', 'a'), note('B', 'b', { links: [] })])
+    const before = await db
+      .selectFrom('memory')
+      .selectAll()
+      .where('sourceKey', '=', 'B')
+      .executeTakeFirstOrThrow()
+
+    const bad = await importRun([
+      note('B', 'b2 [[A]]', {
+        links: [{ linkType: 'link', target: 'A', raw: '[[A]]' }],
+      }),
+      note('C', 'c'),
+    ])
+
+    expect(await undoImportRun(db, bad.runId)).toEqual({
+      deleted: 1,
+      restored: 1,
+      skipped: 0,
+    })
+
+    const after = await db
+      .selectFrom('memory')
+      .selectAll()
+      .where('sourceKey', '=', 'B')
+      .executeTakeFirstOrThrow()
+    expect(after).toEqual(before)
+    // Restored as stored, so the date keeps its original offset
+    const { rows } = await sql<{ offset: string }>`
+      SELECT substr(memoryCreatedAt, -6) AS offset FROM memory
+      WHERE sourceKey = 'B'
+    `.execute(db)
+    expect(rows).toEqual([{ offset: '+05:30' }])
+    expect(Object.keys(await contents())).toEqual(['A', 'B'])
+    expect(await db.selectFrom('memory_link').selectAll().execute()).toEqual([])
+
+    const [run] = await getImportRuns(db)
+    expect(run?.undoneAt).not.toBeNull()
+    await expect(undoImportRun(db, bad.runId)).rejects.toThrow(
+      'has already been undone'
+    )
+    await expect(undoImportRun(db, 99)).rejects.toThrow('No import run')
+  })
+
+  test('undoing a run leaves memories written by later runs alone', async () => {
+    const first = await importRun([note('A', 'a'), note('B', 'b')])
+    const second = await importRun([note('A', 'a2'), note('B', 'b')])
+
+    expect(await undoImportRun(db, first.runId)).toEqual({
+      deleted: 1,
+      restored: 0,
+      skipped: 1,
+    })
+    expect(await contents()).toEqual({ A: ['a2', second.runId] })
+  })
+})
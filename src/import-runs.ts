@@ -0,0 +1,346 @@
+import { stat } from 'node:fs/promises'
+import { join } from 'node:path'
+import { Glob } from 'bun'
+import createDebug from 'debug'
+import { type Kysely, sql, type Transaction } from 'kysely'
+import { DateTime } from 'luxon'
+import type {
+  ImportOptions,
+  ImportProgress,
+  ImportResult,
+} from './db-operations'
+import { deleteImportState, type SyncResult } from './import-state'
+import { replaceMemoryLinks, resolveMemoryLinks } from './memory-links'
+import type {
+  DatabaseSchema,
+  ImportRun,
+  JsonValue,
+  LinkReference,
+  LinkType,
+} from './types'
+
+const d = createDebug('istoria:runs')
+
+// The memory columns saved in a snapshot and restored from it, copied as
+// stored so that dates keep their original offsets
+const SNAPSHOT_COLUMNS = sql.raw(
+  [
+    'source',
+    'sourceKey',
+    'contentHash',
+    'createdAt',
+    'memoryCreatedAt',
+    'memoryZone',
+    'title',
+    'metadata',
+    'content',
+    'contentBlob',
+    'importRunId',
+  ].join(', ')
+)
+
+export interface UndoResult {
+  // Memories the run inserted, now deleted
+  deleted: number
+  // Memories the run updated or removed, now as they were before it
+  restored: number
+  // Memories a later run has written since, which are left alone
+  skipped: number
+}
+
+/**
+ * Hashes an import's input so runs can tell which version of a file they
+ * read: a file's contents, or a directory's listing (paths, sizes and
+ * modification times), which is much cheaper than reading every file.
+ * Returns null if the input can't be read.
+ */
+export async function hashInput(inputPath: string): Promise<string | null> {
+  const hasher = new Bun.CryptoHasher('sha256')
+  try {
+    const inputStat = await stat(inputPath)
+    if (!inputStat.isDirectory()) {
+      for await (const chunk of Bun.file(inputPath).stream()) {
+        hasher.update(chunk)
+      }
+      return hasher.digest('hex')
+    }
+
+    const paths = await Array.fromAsync(
+      new Glob('**/*').scan({ cwd: inputPath, dot: true, onlyFiles: true })
+    )
+    for (const path of paths.sort()) {
+      const fileStat = await stat(join(inputPath, path))
+      hasher.update(`${path}\0${fileStat.size}\0${fileStat.mtimeMs}\n`)
+    }
+    return hasher.digest('hex')
+  } catch (error) {
+    d('failed to hash %s: %O', inputPath, error)
+    return null
+  }
+}
+
+/**
+ * Records an import as a run: `run` is called with import options carrying
+ * the new run's id, so that every memory it writes is linked to the run and
+ * can be rolled back with undoImportRun. The run's totals are recorded when it
+ * finishes, or its error (with the totals so far) if it fails.
+ */
+export async function recordImportRun(
+  db: Kysely<DatabaseSchema>,
+  source: string,
+  inputPath: string,
+  importOptions: ImportOptions,
+  run: (options: ImportOptions) => Promise<ImportResult | SyncResult>
+): Promise<(ImportResult | SyncResult) & { runId: number }> {
+  const { id: runId } = await db
+    .insertInto('import_run')
+    .values({
+      source,
+      inputPath,
+      inputHash: await hashInput(inputPath),
+      startedAt: DateTime.utc(),
+      finishedAt: null,
+      inserted: 0,
+      updated: 0,
+      unchanged: 0,
+      removed: 0,
+      error: null,
+      undoneAt: null,
+    })
+    .returning('id')
+    .executeTakeFirstOrThrow()
+  d('started run %d: %s from %s', runId, source, inputPath)
+
+  let progress: ImportResult = { inserted: 0, updated: 0, unchanged: 0 }
+  try {
+    const result = await run({
+      ...importOptions,
+      runId,
+      onProgress: (update: ImportProgress) => {
+        progress = update
+        importOptions.onProgress?.(update)
+      },
+    })
+    const removed = 'summary' in result ? result.summary.removed.length : 0
+    await finishRun(db, runId, result, removed, null)
+    return { ...result, runId }
+  } catch (error) {
+    await finishRun(
+      db,
+      runId,
+      progress,
+      0,
+      error instanceof Error ? error.message : String(error)
+    )
+    throw error
+  }
+}
+
+async function finishRun(
+  db: Kysely<DatabaseSchema>,
+  runId: number,
+  result: ImportResult,
+  removed: number,
+  error: string | null
+): Promise<void> {
+  await db
+    .updateTable('import_run')
+    .set({
+      finishedAt: DateTime.utc(),
+      inserted: result.inserted,
+      updated: result.updated,
+      unchanged: result.unchanged,
+      removed,
+      error,
+    })
+    .where('id', '=', runId)
+    .execute()
+  d('finished run %d%s', runId, error ? ` with error: ${error}` : '')
+}
+
+/**
+ * Saves the current state of memories, with their links, before a run
+ * updates or removes them. Only the first snapshot of a memory in a run is
+ * kept, as that's the state undoing the run goes back to.
+ */
+export async function snapshotMemories(
+  trx: Transaction<DatabaseSchema>,
+  runId: number,
+  memoryIds: string[]
+): Promise<void> {
+  if (memoryIds.length === 0) {
+    return
+  }
+
+  await sql`
+    INSERT OR IGNORE INTO memory_snapshot (
+      runId, memoryId, ${SNAPSHOT_COLUMNS}, links
+    )
+    SELECT
+      ${runId}, id, ${SNAPSHOT_COLUMNS},
+      (
+        SELECT json_group_array(json_object(
+          'linkType', linkType, 'target', target, 'subpath', subpath,
+          'anchorText', anchorText, 'raw', raw
+        ))
+        FROM memory_link WHERE memory_link.sourceId = memory.id
+      )
+    FROM memory
+    WHERE id IN (${sql.join(memoryIds)})
+  `.execute(trx)
+}
+
+/**
+ * Lists import runs, most recent first.
+ */
+export async function getImportRuns(
+  db: Kysely<DatabaseSchema>
+): Promise<ImportRun[]> {
+  return db.selectFrom('import_run').selectAll().orderBy('id', 'desc').execute()
+}
+
+function toLinkReferences(links: JsonValue): LinkReference[] {
+  if (!Array.isArray(links)) {
+    return []
+  }
+  return links.flatMap((link) => {
+    if (!link || typeof link !== 'object' || Array.isArray(link)) {
+      return []
+    }
+    const { linkType, target, subpath, anchorText, raw } = link
+    if (typeof target !== 'string' || typeof raw !== 'string') {
+      return []
+    }
+    return [
+      {
+        linkType: linkType as LinkType,
+        target,
+        raw,
+        ...(typeof subpath === 'string' && { subpath }),
+        ...(typeof anchorText === 'string' && { anchorText }),
+      },
+    ]
+  })
+}
+
+/**
+ * Rolls back an import run: memories it inserted are deleted, and memories it
+ * updated or removed go back to how they were before it. Memories that a
+ * later run has written since are left alone and counted as skipped, so
+ * undoing an old run never loses newer data. Import state for the affected
+ * items is forgotten, so the next sync reads them again.
+ */
+export async function undoImportRun(
+  db: Kysely<DatabaseSchema>,
+  runId: number
+): Promise<UndoResult> {
+  const run = await db
+    .selectFrom('import_run')
+    .selectAll()
+    .where('id', '=', runId)
+    .executeTakeFirst()
+  if (!run) {
+    throw new Error(`No import run with id ${runId}`)
+  }
+  if (run.undoneAt) {
+    throw new Error(`Import run ${runId} has already been undone`)
+  }
+
+  const result: UndoResult = { deleted: 0, restored: 0, skipped: 0 }
+  await db.transaction().execute(async (trx) => {
+    const written = await trx
+      .selectFrom('memory')
+      .select(['id', 'source', 'sourceKey'])
+      .where('importRunId', '=', runId)
+      .execute()
+    const snapshots = await trx
+      .selectFrom('memory_snapshot')
+      .select(['memoryId', 'source', 'sourceKey', 'links'])
+      .where('runId', '=', runId)
+      .execute()
+    const snapshotIds = new Set(snapshots.map((s) => s.memoryId))
+    const writtenIds = new Set(written.map((memory) => memory.id))
+    const affected = new Map<string, Set<string>>()
+    const affect = (source: string, sourceKey: string) => {
+      const keys = affected.get(source) ?? new Set()
+      keys.add(sourceKey)
+      affected.set(source, keys)
+    }
+
+    // Written by the run, then by a later run (which snapshotted them first)
+    const overwritten = await trx
+      .selectFrom('memory_snapshot')
+      .select((eb) => eb.fn.count<number>('memoryId').distinct().as('count'))
+      .where('importRunId', '=', runId)
+      .where('runId', '>', runId)
+      .executeTakeFirstOrThrow()
+    result.skipped += Number(overwritten.count)
+
+    // Written by the run without a snapshot, so inserted by it
+    const inserted = written.filter((memory) => !snapshotIds.has(memory.id))
+    for (const memory of inserted) {
+      await trx.deleteFrom('memory').where('id', '=', memory.id).execute()
+      affect(memory.source, memory.sourceKey)
+      result.deleted++
+    }
+
+    for (const snapshot of snapshots) {
+      const { memoryId } = snapshot
+      const current = await trx
+        .selectFrom('memory')
+        .select(['sourceKey'])
+        .where('id', '=', memoryId)
+        .executeTakeFirst()
+
+      if (current && !writtenIds.has(memoryId)) {
+        // Written by a later run, and counted as overwritten above
+        continue
+      }
+
+      if (current) {
+        await sql`
+          UPDATE memory
+          SET (${SNAPSHOT_COLUMNS}) = (
+            SELECT ${SNAPSHOT_COLUMNS} FROM memory_snapshot
+            WHERE runId = ${runId} AND memoryId = ${memoryId}
+          )
+          WHERE id = ${memoryId}
+        `.execute(trx)
+        affect(snapshot.source, current.sourceKey)
+      } else {
+        const conflict = await trx
+          .selectFrom('memory')
+          .select('id')
+          .where('source', '=', snapshot.source)
+          .where('sourceKey', '=', snapshot.sourceKey)
+          .executeTakeFirst()
+        if (conflict) {
+          result.skipped++
+          continue
+        }
+        await sql`
+          INSERT INTO memory (id, ${SNAPSHOT_COLUMNS})
+          SELECT memoryId, ${SNAPSHOT_COLUMNS} FROM memory_snapshot
+          WHERE runId = ${runId} AND memoryId = ${memoryId}
+        `.execute(trx)
+      }
+      await replaceMemoryLinks(trx, memoryId, toLinkReferences(snapshot.links))
+      affect(snapshot.source, snapshot.sourceKey)
+      result.restored++
+    }
+
+    for (const [source, keys] of affected) {
+      await deleteImportState(trx, source, [...keys])
+    }
+    await trx.deleteFrom('memory_snapshot').where('runId', '=', runId).execute()
+    await trx
+      .updateTable('import_run')
+      .set({ undoneAt: DateTime.utc() })
+      .where('id', '=', runId)
+      .execute()
+  })
+
+  await resolveMemoryLinks(db)
+  d('undid run %d: %O', runId, result)
+  return result
+}
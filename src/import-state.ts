@@ -0,0 +1,104 @@
+import createDebug from 'debug'
+import type { Kysely, Transaction } from 'kysely'
+import type { ImportResult } from './db-operations'
+import type { DatabaseSchema, ImportState } from './types'
+
+const d = createDebug('istoria:import-state')
+
+// SQLite limits the number of bound parameters per statement
+const CHUNK_SIZE = 500
+
+export type ItemState = Omit<ImportState, 'source' | 'root'>
+
+// An item's state as recorded, with the root it was imported from
+export type RecordedItemState = Omit<ImportState, 'source'>
+
+/**
+ * What a sync did to the items of a source, by path.
+ */
+export interface SyncSummary {
+  added: string[]
+  changed: string[]
+  moved: { from: string; to: string }[]
+  removed: string[]
+}
+
+export interface SyncResult extends ImportResult {
+  summary: SyncSummary
+}
+
+/**
+ * Hashes a file's contents, to tell whether it changed or moved.
+ */
+export function hashContent(data: Uint8Array): string {
+  return new Bun.CryptoHasher('sha256').update(data).digest('hex')
+}
+
+/**
+ * Fetches the recorded state of the items of a source imported from a root
+ * directory, by path, along with items recorded without a root.
+ */
+export async function getImportState(
+  db: Kysely<DatabaseSchema>,
+  source: string,
+  root: string
+): Promise<Map<string, RecordedItemState>> {
+  const rows = await db
+    .selectFrom('import_state')
+    .select(['path', 'size', 'mtime', 'contentHash', 'root'])
+    .where('source', '=', source)
+    .where((eb) => eb.or([eb('root', '=', root), eb('root', 'is', null)]))
+    .execute()
+  d('read state of %d %s items under %s', rows.length, source, root)
+  return new Map(rows.map((row) => [row.path, row]))
+}
+
+/**
+ * Records the state of items of a source imported from a root directory,
+ * replacing what was recorded for the same paths.
+ */
+export async function saveImportState(
+  db: Kysely<DatabaseSchema>,
+  source: string,
+  root: string,
+  items: ItemState[]
+): Promise<void> {
+  await db.transaction().execute(async (trx) => {
+    for (let i = 0; i < items.length; i += CHUNK_SIZE) {
+      await trx
+        .insertInto('import_state')
+        .values(
+          items
+            .slice(i, i + CHUNK_SIZE)
+            .map((item) => ({ source, ...item, root }))
+        )
+        .onConflict((oc) =>
+          oc.columns(['source', 'path']).doUpdateSet((eb) => ({
+            size: eb.ref('excluded.size'),
+            mtime: eb.ref('excluded.mtime'),
+            contentHash: eb.ref('excluded.contentHash'),
+            root: eb.ref('excluded.root'),
+          }))
+        )
+        .execute()
+    }
+  })
+  d('saved state of %d %s items', items.length, source)
+}
+
+/**
+ * Forgets the recorded state of items of a source.
+ */
+export async function deleteImportState(
+  db: Kysely<DatabaseSchema> | Transaction<DatabaseSchema>,
+  source: string,
+  paths: string[]
+): Promise<void> {
+  for (let i = 0; i < paths.length; i += CHUNK_SIZE) {
+    await db
+      .deleteFrom('import_state')
+      .where('source', '=', source)
+      .where('path', 'in', paths.slice(i, i + CHUNK_SIZE))
+      .execute()
+  }
+}
@@ -0,0 +1,271 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import JSZip from 'jszip'
+import { importChatGPTExport, importClaudeExport } from './conversations-import'
+
+const CLAUDE_CONVERSATIONS = [
+  {
+    uuid: 'claude-1',
+    name: 'Sourdough troubleshooting',
+    model: 'claude-sonnet',
+    created_at: '2025-03-02T18:00:00.000000+00:00',
+    chat_messages: [
+      {
+        uuid: 'm1',
+        sender: 'human',
+        text: 'Why is my bread flat?',
+        content: [{ type: 'text', text: 'Why is my bread flat?' }],
+        created_at: '2025-03-02T18:00:00.000000+00:00',
+      },
+      {
+        uuid: 'm2',
+        sender: 'assistant',
+        text: '',
+        content: [
+          { type: 'text', text: 'Your starter may be underactive.' },
+          { type: 'tool_use' },
+        ],
+        created_at: '2025-03-02T18:00:05.000000+00:00',
+      },
+    ],
+  },
+  {
+    uuid: 'claude-empty',
+    name: '',
+    created_at: '2025-01-01T00:00:00.000000+00:00',
+    chat_messages: [],
+  },
+]
+
+function chatGPTMessage(id: string, role: string, text: string) {
+  return {
+    id,
+    author: { role },
+    content: { content_type: 'text', parts: [text] },
+    metadata: role === 'assistant' ? { model_slug: 'gpt-4o' } : {},
+  }
+}
+
+// root -> system -> user -> (assistant-old | user-edit -> assistant-new)
+const CHATGPT_CONVERSATIONS = [
+  {
+    id: 'gpt-1',
+    title: 'Trip planning',
+    create_time: 1735732800,
+    current_node: 'assistant-new',
+    mapping: {
+      root: { id: 'root', message: null, parent: null, children: ['system'] },
+      system: {
+        id: 'system',
+        message: chatGPTMessage('system', 'system', 'You are ChatGPT'),
+        parent: 'root',
+        children: ['user'],
+      },
+      user: {
+        id: 'user',
+        message: chatGPTMessage('user', 'user', 'Plan a trip to Lisbon'),
+        parent: 'system',
+        children: ['assistant-old', 'user-edit'],
+      },
+      'assistant-old': {
+        id: 'assistant-old',
+        message: chatGPTMessage('assistant-old', 'assistant', 'Old answer'),
+        parent: 'user',
+        children: [],
+      },
+      'user-edit': {
+        id: 'user-edit',
+        message: chatGPTMessage('user-edit', 'user', 'Make it three days'),
+        parent: 'user',
+        children: ['assistant-new'],
+      },
+      'assistant-new': {
+        id: 'assistant-new',
+        message: chatGPTMessage('assistant-new', 'assistant', 'Day 1: Alfama'),
+        parent: 'user-edit',
+        children: [],
+      },
+    },
+  },
+]
+
+describe('importClaudeExport', () => {
+  let dir: string
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'istoria-conversations-'))
+  })
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test('imports each conversation as a memory with labelled turns', async () => {
+    const filePath = join(dir, 'claude.json')
+    await Bun.write(filePath, JSON.stringify(CLAUDE_CONVERSATIONS))
+
+    const memories = await importClaudeExport(filePath)
+
+    expect(memories).toHaveLength(1)
+    const memory = memories[0]!
+    expect(memory.source).toBe('claude')
+    expect(memory.sourceKey).toBe('claude-1')
+    expect(memory.title).toBe('Claude: Sourdough troubleshooting')
+    expect(memory.content).toBe(
+      'User: Why is my bread flat?\n\nAssistant: Your starter may be underactive.'
+    )
+    expect(memory.metadata).toEqual({
+      conversationId: 'claude-1',
+      model: 'claude-sonnet',
+      messageCount: 2,
+    })
+    expect(memory.memoryCreatedAt.toMillis()).toBe(
+      Date.parse('2025-03-02T18:00:00Z')
+    )
+  })
+
+  test('falls back to the first message or last update for bad dates', async () => {
+    const [conversation] = CLAUDE_CONVERSATIONS
+    const undatedMessages = conversation?.chat_messages.map((message) => ({
+      ...message,
+      created_at: '',
+    }))
+    const filePath = join(dir, 'claude-dates.json')
+    await Bun.write(
+      filePath,
+      JSON.stringify([
+        { ...conversation, uuid: 'bad-created', created_at: 'not a date' },
+        {
+          ...conversation,
+          uuid: 'no-dates',
+          created_at: '',
+          updated_at: '2025-04-01T09:00:00Z',
+          chat_messages: undatedMessages,
+        },
+        {
+          ...conversation,
+          uuid: 'undated',
+          created_at: '',
+          chat_messages: undatedMessages,
+        },
+      ])
+    )
+
+    const memories = await importClaudeExport(filePath)
+
+    expect(
+      memories.map((memory) => [
+        memory.sourceKey,
+        memory.memoryCreatedAt.toMillis(),
+      ])
+    ).toEqual([
+      ['bad-created', Date.parse('2025-03-02T18:00:00Z')],
+      ['no-dates', Date.parse('2025-04-01T09:00:00Z')],
+    ])
+  })
+
+  test('reads conversations.json out of an export ZIP', async () => {
+    const zip = new JSZip()
+    zip.file('conversations.json', JSON.stringify(CLAUDE_CONVERSATIONS))
+    const zipPath = join(dir, 'claude-export.zip')
+    await Bun.write(zipPath, await zip.generateAsync({ type: 'uint8array' }))
+
+    const memories = await importClaudeExport(zipPath)
+    expect(memories.map((m) => m.sourceKey)).toEqual(['claude-1'])
+  })
+})
+
+describe('importChatGPTExport', () => {
+  let dir: string
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'istoria-conversations-'))
+  })
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test('flattens the conversation tree to the active branch', async () => {
+    const filePath = join(dir, 'chatgpt.json')
+    await Bun.write(filePath, JSON.stringify(CHATGPT_CONVERSATIONS))
+
+    const memories = await importChatGPTExport(filePath)
+
+    expect(memories).toHaveLength(1)
+    const memory = memories[0]!
+    expect(memory.source).toBe('chatgpt')
+    expect(memory.sourceKey).toBe('gpt-1')
+    expect(memory.title).toBe('ChatGPT: Trip planning')
+    expect(memory.content).toBe(
+      [
+        'User: Plan a trip to Lisbon',
+        'User: Make it three days',
+        'Assistant: Day 1: Alfama',
+      ].join('\n\n')
+    )
+    expect(memory.content).not.toContain('Old answer')
+    expect(memory.content).not.toContain('You are ChatGPT')
+    expect(memory.metadata).toEqual({
+      conversationId: 'gpt-1',
+      model: 'gpt-4o',
+      messageCount: 3,
+    })
+  })
+
+  test('falls back to the last update or first message for missing dates', async () => {
+    const [conversation] = CHATGPT_CONVERSATIONS
+    const { mapping } = conversation!
+    const timedMapping = {
+      ...mapping,
+      user: {
+        ...mapping.user,
+        message: { ...mapping.user.message, create_time: 1735736400 },
+      },
+    }
+    const filePath = join(dir, 'chatgpt-dates.json')
+    await Bun.write(
+      filePath,
+      JSON.stringify([
+        {
+          ...conversation,
+          id: 'updated',
+          create_time: null,
+          update_time: 1735740000,
+        },
+        {
+          ...conversation,
+          id: 'first-message',
+          create_time: null,
+          mapping: timedMapping,
+        },
+        { ...conversation, id: 'undated', create_time: undefined },
+      ])
+    )
+
+    const memories = await importChatGPTExport(filePath)
+
+    expect(
+      memories.map((memory) => [
+        memory.sourceKey,
+        memory.memoryCreatedAt.toMillis(),
+      ])
+    ).toEqual([
+      ['first-message', Date.parse('2025-01-01T13:00:00Z')],
+      ['updated', Date.parse('2025-01-01T14:00:00Z')],
+    ])
+  })
+
+  test('follows the latest branch when current_node is missing', async () => {
+    const [conversation] = CHATGPT_CONVERSATIONS
+    const { current_node: _, ...withoutCurrentNode } = conversation!
+    const filePath = join(dir, 'chatgpt-old.json')
+    await Bun.write(filePath, JSON.stringify([withoutCurrentNode]))
+
+    const memories = await importChatGPTExport(filePath)
+    expect(memories[0]?.content).toContain('Assistant: Day 1: Alfama')
+    expect(memories[0]?.content).not.toContain('Old answer')
+  })
+})
@@ -0,0 +1,364 @@
+import createDebug from 'debug'
+import JSZip from 'jszip'
+import { DateTime } from 'luxon'
+import type { ImporterDefinition } from '../registry'
+import type { NewMemory } from '../types'
+import { streamAll } from './stream'
+
+const d = createDebug('istoria:conversations')
+
+interface ClaudeContentBlock {
+  type: string
+  text?: string
+}
+
+interface ClaudeMessage {
+  uuid: string
+  sender: 'human' | 'assistant'
+  text?: string
+  content?: ClaudeContentBlock[]
+  created_at: string
+}
+
+interface ClaudeConversation {
+  uuid: string
+  name?: string
+  model?: string
+  created_at: string
+  updated_at?: string
+  chat_messages: ClaudeMessage[]
+}
+
+interface ChatGPTMessage {
+  id: string
+  author: { role: string }
+  create_time?: number | null
+  content: {
+    content_type: string
+    parts?: unknown[]
+  }
+  metadata?: {
+    model_slug?: string
+    is_visually_hidden_from_conversation?: boolean
+  }
+}
+
+interface ChatGPTNode {
+  id: string
+  message?: ChatGPTMessage | null
+  parent?: string | null
+  children: string[]
+}
+
+interface ChatGPTConversation {
+  id?: string
+  conversation_id?: string
+  title?: string | null
+  create_time?: number | null
+  update_time?: number | null
+  current_node?: string
+  default_model_slug?: string
+  mapping: Record<string, ChatGPTNode>
+}
+
+interface Turn {
+  role: string
+  text: string
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  human: 'User',
+  user: 'User',
+  assistant: 'Assistant',
+  tool: 'Tool',
+}
+
+/**
+ * Reads conversations.json either directly or out of the export ZIP that
+ * both Claude and ChatGPT hand out.
+ */
+async function readConversationsJson(filePath: string): Promise<unknown> {
+  const file = Bun.file(filePath)
+
+  if (!filePath.toLowerCase().endsWith('.zip')) {
+    return await file.json()
+  }
+
+  d('loading zip file')
+  const zip = await JSZip.loadAsync(await file.arrayBuffer())
+  const [conversations] = zip.file(/(^|\/)conversations\.json$/)
+  if (!conversations) {
+    throw new Error('Invalid export: missing conversations.json in archive')
+  }
+
+  return JSON.parse(await conversations.async('string'))
+}
+
+/**
+ * Formats a conversation as role-labelled turns separated by blank lines.
+ * Format: [Role]: [text]
+ */
+function formatTurns(turns: Turn[]): string {
+  return turns
+    .map((turn) => `${ROLE_LABELS[turn.role] ?? turn.role}: ${turn.text}`)
+    .join('\n\n')
+}
+
+function getClaudeMessageText(message: ClaudeMessage): string {
+  const fromBlocks = (message.content ?? [])
+    .filter((block) => block.type === 'text' && block.text)
+    .map((block) => block.text)
+    .join('\n')
+
+  return (fromBlocks || message.text || '').trim()
+}
+
+/**
+ * When a Claude conversation started. Falls back to its first message's time,
+ * then to when it was last updated, if created_at is missing or unparseable.
+ */
+function getClaudeConversationTime(
+  conversation: ClaudeConversation
+): DateTime | null {
+  const candidates = [
+    conversation.created_at,
+    conversation.chat_messages[0]?.created_at,
+    conversation.updated_at,
+  ]
+  for (const value of candidates) {
+    const time = value ? DateTime.fromISO(value) : null
+    if (time?.isValid) {
+      return time
+    }
+  }
+  return null
+}
+
+/**
+ * Walks a ChatGPT conversation's mapping tree from the current node back to
+ * the root, which yields the branch that was active when the export was made.
+ * Edited prompts and regenerated replies on other branches are dropped.
+ */
+function getActivePath(conversation: ChatGPTConversation): ChatGPTNode[] {
+  const { mapping } = conversation
+  const path: ChatGPTNode[] = []
+  const seen = new Set<string>()
+
+  if (conversation.current_node) {
+    let node = mapping[conversation.current_node]
+    while (node && !seen.has(node.id)) {
+      seen.add(node.id)
+      path.push(node)
+      node = node.parent ? mapping[node.parent] : undefined
+    }
+    return path.reverse()
+  }
+
+  // Older exports lack current_node, so follow the latest child down from
+  // the root instead
+  let node = Object.values(mapping).find((n) => !n.parent)
+  while (node && !seen.has(node.id)) {
+    seen.add(node.id)
+    path.push(node)
+    const lastChild = node.children.at(-1)
+    node = lastChild ? mapping[lastChild] : undefined
+  }
+  return path
+}
+
+/**
+ * When a ChatGPT conversation started. Falls back to when it was last
+ * updated, then to its first timed message, if create_time is missing.
+ */
+function getChatGPTConversationTime(
+  conversation: ChatGPTConversation,
+  path: ChatGPTNode[]
+): DateTime | null {
+  const candidates = [
+    conversation.create_time,
+    conversation.update_time,
+    path.find((node) => typeof node.message?.create_time === 'number')?.message
+      ?.create_time,
+  ]
+  for (const value of candidates) {
+    const time =
+      typeof value === 'number' && Number.isFinite(value)
+        ? DateTime.fromSeconds(value)
+        : null
+    if (time?.isValid) {
+      return time
+    }
+  }
+  return null
+}
+
+function getChatGPTMessageText(message: ChatGPTMessage): string {
+  return (message.content.parts ?? [])
+    .filter((part): part is string => typeof part === 'string')
+    .join('\n')
+    .trim()
+}
+
+/**
+ * Imports conversations from a Claude data export (conversations.json, or the
+ * export ZIP containing it). Each conversation becomes a single Memory.
+ *
+ * Output format for each turn:
+ * [Role]: [text]
+ */
+export async function importClaudeExport(
+  filePath: string
+): Promise<NewMemory[]> {
+  d('starting Claude import from file: %s', filePath)
+
+  const data = await readConversationsJson(filePath)
+  if (!Array.isArray(data)) {
+    throw new Error('Invalid Claude export: expected an array of conversations')
+  }
+
+  const memories: NewMemory[] = []
+  for (const conversation of data as ClaudeConversation[]) {
+    const turns = conversation.chat_messages
+      .map((message) => ({
+        role: message.sender,
+        text: getClaudeMessageText(message),
+      }))
+      .filter((turn) => turn.text)
+
+    if (turns.length === 0) {
+      d('skipping empty conversation %s', conversation.uuid)
+      continue
+    }
+
+    const createdAt = getClaudeConversationTime(conversation)
+    if (!createdAt) {
+      d('skipping conversation %s without a valid date', conversation.uuid)
+      continue
+    }
+
+    const metadata: NewMemory['metadata'] = {
+      conversationId: conversation.uuid,
+      messageCount: turns.length,
+    }
+    if (conversation.model) {
+      metadata['model'] = conversation.model
+    }
+
+    memories.push({
+      source: 'claude',
+      sourceKey: conversation.uuid,
+      memoryCreatedAt: createdAt,
+      title: `Claude: ${conversation.name?.trim() || 'Untitled conversation'}`,
+      metadata,
+      content: formatTurns(turns),
+    })
+  }
+
+  memories.sort(
+    (a, b) => a.memoryCreatedAt.toMillis() - b.memoryCreatedAt.toMillis()
+  )
+
+  d('import complete, created %d memories', memories.length)
+  return memories
+}
+
+/**
+ * Imports conversations from a ChatGPT data export (conversations.json, or
+ * the export ZIP containing it). Each conversation becomes a single Memory
+ * holding the active branch of the conversation.
+ *
+ * Output format for each turn:
+ * [Role]: [text]
+ */
+export async function importChatGPTExport(
+  filePath: string
+): Promise<NewMemory[]> {
+  d('starting ChatGPT import from file: %s', filePath)
+
+  const data = await readConversationsJson(filePath)
+  if (!Array.isArray(data)) {
+    throw new Error(
+      'Invalid ChatGPT export: expected an array of conversations'
+    )
+  }
+
+  const memories: NewMemory[] = []
+  for (const conversation of data as ChatGPTConversation[]) {
+    const conversationId = conversation.conversation_id ?? conversation.id
+    if (!conversationId) {
+      d('skipping conversation without an id: %s', conversation.title)
+      continue
+    }
+
+    const turns: Turn[] = []
+    let model = conversation.default_model_slug
+    const path = getActivePath(conversation)
+    for (const node of path) {
+      const message = node.message
+      if (
+        !message ||
+        message.author.role === 'system' ||
+        message.metadata?.is_visually_hidden_from_conversation
+      ) {
+        continue
+      }
+
+      const text = getChatGPTMessageText(message)
+      if (!text) {
+        continue
+      }
+
+      turns.push({ role: message.author.role, text })
+      if (message.author.role === 'assistant' && message.metadata?.model_slug) {
+        model = message.metadata.model_slug
+      }
+    }
+
+    if (turns.length === 0) {
+      d('skipping empty conversation %s', conversationId)
+      continue
+    }
+
+    const createdAt = getChatGPTConversationTime(conversation, path)
+    if (!createdAt) {
+      d('skipping conversation %s without a valid date', conversationId)
+      continue
+    }
+
+    const metadata: NewMemory['metadata'] = {
+      conversationId,
+      messageCount: turns.length,
+    }
+    if (model) {
+      metadata['model'] = model
+    }
+
+    memories.push({
+      source: 'chatgpt',
+      sourceKey: conversationId,
+      memoryCreatedAt: createdAt,
+      title: `ChatGPT: ${conversation.title?.trim() || 'Untitled conversation'}`,
+      metadata,
+      content: formatTurns(turns),
+    })
+  }
+
+  memories.sort(
+    (a, b) => a.memoryCreatedAt.toMillis() - b.memoryCreatedAt.toMillis()
+  )
+
+  d('import complete, created %d memories', memories.length)
+  return memories
+}
+
+export const claudeImporter: ImporterDefinition = {
+  name: 'claude',
+  description: 'Claude data export (conversations.json or .zip)',
+  run: (path) => streamAll(importClaudeExport(path)),
+}
+
+export const chatgptImporter: ImporterDefinition = {
+  name: 'chatgpt',
+  description: 'ChatGPT data export (conversations.json or .zip)',
+  run: (path) => streamAll(importChatGPTExport(path)),
+}
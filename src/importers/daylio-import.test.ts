@@ -1,4 +1,8 @@
-import { describe, expect, test } from 'bun:test'
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import JSZip from 'jszip'
 import { importDaylioBackup } from './daylio-import'
 
 const DAYLIO_BACKUP_PATH = process.env['DAYLIO_TEST_BACKUP_PATH']
@@ -7,7 +11,9 @@ describe('importDaylioBackup', () => {
   test.skipIf(!DAYLIO_BACKUP_PATH)(
     'imports entries from Daylio backup',
     async () => {
-      const memories = await importDaylioBackup(DAYLIO_BACKUP_PATH!)
+      const memories = await Array.fromAsync(
+        importDaylioBackup(DAYLIO_BACKUP_PATH!)
+      )
 
       expect(memories.length).toBeGreaterThan(0)
 
@@ -36,7 +42,9 @@ describe('importDaylioBackup', () => {
   test.skipIf(!DAYLIO_BACKUP_PATH)(
     'groups multiple entries on same day',
     async () => {
-      const memories = await importDaylioBackup(DAYLIO_BACKUP_PATH!)
+      const memories = await Array.fromAsync(
+        importDaylioBackup(DAYLIO_BACKUP_PATH!)
+      )
 
       // Find a memory with multiple entries
       const multiEntryMemory = memories.find(
@@ -52,7 +60,9 @@ describe('importDaylioBackup', () => {
   )
 
   test.skipIf(!DAYLIO_BACKUP_PATH)('memories are sorted by date', async () => {
-    const memories = await importDaylioBackup(DAYLIO_BACKUP_PATH!)
+    const memories = await Array.fromAsync(
+      importDaylioBackup(DAYLIO_BACKUP_PATH!)
+    )
 
     // Verify memories are sorted oldest first
     for (let i = 1; i < memories.length; i++) {
@@ -66,3 +76,143 @@ describe('importDaylioBackup', () => {
     }
   })
 })
+
+describe('importDaylioBackup structured data', () => {
+  let dir: string
+  let backupPath: string
+
+  const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10])
+  const HOUR = 3_600_000
+
+  // 2025-03-04 08:30 and 21:00 at +01:00
+  const backup = {
+    customMoods: [
+      { id: 1, custom_name: '', predefined_name_id: 1, mood_group_id: 1 },
+      { id: 2, custom_name: '', predefined_name_id: 2, mood_group_id: 2 },
+      { id: 7, custom_name: 'Tired', predefined_name_id: -1, mood_group_id: 4 },
+    ],
+    tags: [
+      { id: 10, name: 'work', id_tag_group: 100 },
+      { id: 11, name: 'running', id_tag_group: 101 },
+      { id: 12, name: 'ungrouped' },
+    ],
+    tag_groups: [
+      { id: 100, name: 'Productivity' },
+      { id: 101, name: 'Hobbies' },
+    ],
+    assets: [{ id: 50, checksum: 'abc123', type: 1 }],
+    dayEntries: [
+      {
+        id: 2,
+        year: 2025,
+        month: 2,
+        day: 4,
+        hour: 21,
+        minute: 0,
+        datetime: Date.UTC(2025, 2, 4, 20, 0),
+        timeZoneOffset: HOUR,
+        mood: 7,
+        note: 'Long day',
+        tags: [10, 12],
+      },
+      {
+        id: 1,
+        year: 2025,
+        month: 2,
+        day: 4,
+        hour: 8,
+        minute: 30,
+        datetime: Date.UTC(2025, 2, 4, 7, 30),
+        timeZoneOffset: HOUR,
+        mood: 1,
+        note: 'Morning run',
+        note_title: 'Run',
+        tags: [11],
+        assets: [50],
+      },
+      {
+        id: 3,
+        year: 2025,
+        month: 2,
+        day: 5,
+        hour: 9,
+        minute: 0,
+        datetime: Date.UTC(2025, 2, 5, 8, 0),
+        timeZoneOffset: HOUR,
+        mood: 2,
+        note: '',
+        tags: [],
+      },
+    ],
+  }
+
+  beforeAll(async () => {
+    const zip = new JSZip()
+    zip.file('backup.daylio', btoa(JSON.stringify(backup)))
+    zip.file('assets/photos/2025/3/abc123', JPEG)
+    dir = await mkdtemp(join(tmpdir(), 'istoria-daylio-'))
+    backupPath = join(dir, 'backup.daylio')
+    await writeFile(backupPath, await zip.generateAsync({ type: 'uint8array' }))
+  })
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test('keeps the day text and adds structured entries', async () => {
+    const memories = await Array.fromAsync(importDaylioBackup(backupPath))
+    const day = memories.find((m) => m.sourceKey === '2025-03-04')!
+
+    expect(day.content).toBe(
+      'Rad: Morning run (running)\nTired: Long day (work, ungrouped)'
+    )
+    expect(day.metadata?.['entries']).toEqual([
+      {
+        id: 1,
+        time: '2025-03-04T08:30:00.000+01:00',
+        mood: 'Rad',
+        moodId: 1,
+        moodGroup: 1,
+        moodLevel: 5,
+        tags: [{ id: 11, name: 'running', groupId: 101, group: 'Hobbies' }],
+        note: 'Morning run',
+        noteTitle: 'Run',
+        photos: ['photos/abc123'],
+      },
+      {
+        id: 2,
+        time: '2025-03-04T21:00:00.000+01:00',
+        mood: 'Tired',
+        moodId: 7,
+        moodGroup: 4,
+        moodLevel: 2,
+        tags: [
+          { id: 10, name: 'work', groupId: 100, group: 'Productivity' },
+          { id: 12, name: 'ungrouped', groupId: null, group: null },
+        ],
+        note: 'Long day',
+      },
+    ])
+  })
+
+  test('imports photos as blobs after their day', async () => {
+    const memories = await Array.fromAsync(importDaylioBackup(backupPath))
+
+    expect(memories.map((m) => m.sourceKey)).toEqual([
+      '2025-03-04',
+      'photos/abc123',
+      '2025-03-05',
+    ])
+
+    const photo = memories[1]!
+    expect(photo.contentBlob).toEqual(JPEG)
+    expect(photo.memoryCreatedAt.toISO()).toBe('2025-03-04T08:30:00.000+01:00')
+    expect(photo.metadata).toEqual({
+      dayKey: '2025-03-04',
+      entryId: 1,
+      fileName: 'abc123',
+      mimeType: 'image/jpeg',
+      size: JPEG.byteLength,
+    })
+  })
+})
@@ -1,12 +1,16 @@
 import createDebug from 'debug'
 import JSZip from 'jszip'
 import { DateTime } from 'luxon'
-import type { NewMemory } from '../types'
+import type { ImporterDefinition } from '../registry'
+import type { JsonValue, NewMemory } from '../types'
+import { getMimeType } from './mime'
+import { fixedOffsetZone } from './time'
 
 const d = createDebug('istoria:daylio')
 
-// Predefined mood names by predefined_name_id
-const PREDEFINED_MOOD_NAMES: Record<number, string> = {
+// Predefined mood names by predefined_name_id, which is also the mood group
+// (1 for the best mood down to 5 for the worst)
+export const PREDEFINED_MOOD_NAMES: Record<number, string> = {
   1: 'Rad',
   2: 'Good',
   3: 'Meh',
@@ -14,15 +18,31 @@ const PREDEFINED_MOOD_NAMES: Record<number, string> = {
   5: 'Awful',
 }
 
+// Daylio asset type for photos
+const PHOTO_ASSET_TYPE = 1
+
 interface DaylioMood {
   id: number
   custom_name: string
   predefined_name_id: number
+  mood_group_id?: number // 1 (rad) to 5 (awful)
 }
 
 interface DaylioTag {
   id: number
   name: string
+  id_tag_group?: number // references tag_groups[].id
+}
+
+interface DaylioTagGroup {
+  id: number
+  name: string
+}
+
+interface DaylioAsset {
+  id: number
+  checksum: string // file name of the asset in the archive
+  type: number
 }
 
 interface DaylioEntry {
@@ -36,15 +56,35 @@ interface DaylioEntry {
   timeZoneOffset: number // ms offset
   mood: number // references customMoods.id
   note: string
+  note_title?: string
   tags: number[] // references tags[].id
+  assets?: number[] // references assets[].id
 }
 
 interface DaylioBackup {
   customMoods: DaylioMood[]
   tags: DaylioTag[]
+  tag_groups?: DaylioTagGroup[]
+  assets?: DaylioAsset[]
   dayEntries: DaylioEntry[]
 }
 
+interface Lookups {
+  moods: Map<number, DaylioMood>
+  tags: Map<number, DaylioTag>
+  tagGroups: Map<number, string>
+  assets: Map<number, DaylioAsset>
+}
+
+/**
+ * Gets the predefined mood name for a mood level (5 for rad down to 1 for
+ * awful, see describeEntry), rounding averages to the nearest level.
+ */
+export function getMoodLevelName(level: number): string {
+  const group = 6 - Math.min(5, Math.max(1, Math.round(level)))
+  return PREDEFINED_MOOD_NAMES[group] ?? 'Unknown'
+}
+
 /**
  * Gets the mood name for a mood ID using the lookup tables.
  * Prefers custom_name if set, otherwise uses predefined mood name.
@@ -66,18 +106,38 @@ function getMoodName(
   return PREDEFINED_MOOD_NAMES[mood.predefined_name_id] ?? 'Unknown'
 }
 
+/**
+ * Gets a mood's group, from 1 (rad) to 5 (awful). Moods from old backups
+ * without groups fall back to their predefined mood.
+ */
+function getMoodGroup(
+  moodId: number,
+  moodLookup: Map<number, DaylioMood>
+): number | undefined {
+  const mood = moodLookup.get(moodId)
+  const group = mood?.mood_group_id ?? mood?.predefined_name_id
+  return group !== undefined && PREDEFINED_MOOD_NAMES[group] ? group : undefined
+}
+
+/**
+ * Gets the time an entry was recorded, in the time zone it was recorded in.
+ * Daylio stores the offset in ms (e.g., +01:00 = 3600000ms).
+ */
+function getEntryTime(entry: DaylioEntry): DateTime {
+  const offsetMinutes = Math.round(entry.timeZoneOffset / 60000)
+  return DateTime.fromMillis(entry.datetime, {
+    zone: fixedOffsetZone(offsetMinutes),
+  })
+}
+
 /**
  * Formats a single day entry as a line of text.
  * Format: [MoodName]: [note] (tag1, tag2, ...)
  */
-function formatEntry(
-  entry: DaylioEntry,
-  moodLookup: Map<number, DaylioMood>,
-  tagLookup: Map<number, string>
-): string {
-  const moodName = getMoodName(entry.mood, moodLookup)
+function formatEntry(entry: DaylioEntry, lookups: Lookups): string {
+  const moodName = getMoodName(entry.mood, lookups.moods)
   const tagNames = entry.tags
-    .map((tagId) => tagLookup.get(tagId))
+    .map((tagId) => lookups.tags.get(tagId)?.name)
     .filter((name): name is string => name !== undefined)
 
   let line = `${moodName}: ${entry.note || ''}`
@@ -88,6 +148,62 @@ function formatEntry(
   return line.trim()
 }
 
+/**
+ * Builds the structured record of an entry kept in the day's metadata: the
+ * mood with its group and level (5 for rad down to 1 for awful, so higher is
+ * better), tags with their groups, the original timestamp and any photos.
+ */
+function describeEntry(
+  entry: DaylioEntry,
+  lookups: Lookups,
+  photoKeys: string[]
+): Record<string, JsonValue> {
+  const moodGroup = getMoodGroup(entry.mood, lookups.moods)
+  const record: Record<string, JsonValue> = {
+    id: entry.id,
+    time: getEntryTime(entry).toISO(),
+    mood: getMoodName(entry.mood, lookups.moods),
+    moodId: entry.mood,
+    moodGroup: moodGroup ?? null,
+    moodLevel: moodGroup !== undefined ? 6 - moodGroup : null,
+    tags: entry.tags.map((tagId) => {
+      const tag = lookups.tags.get(tagId)
+      const groupId = tag?.id_tag_group
+      return {
+        id: tagId,
+        name: tag?.name ?? null,
+        groupId: groupId ?? null,
+        group:
+          groupId !== undefined
+            ? (lookups.tagGroups.get(groupId) ?? null)
+            : null,
+      }
+    }),
+    note: entry.note || '',
+  }
+  if (entry.note_title) {
+    record['noteTitle'] = entry.note_title
+  }
+  if (photoKeys.length > 0) {
+    record['photos'] = photoKeys
+  }
+  return record
+}
+
+/**
+ * Guesses an image's MIME type from its first bytes, as Daylio stores photos
+ * without a file extension.
+ */
+function sniffImageType(data: Uint8Array, fileName: string): string {
+  if (data[0] === 0xff && data[1] === 0xd8) {
+    return 'image/jpeg'
+  }
+  if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e) {
+    return 'image/png'
+  }
+  return getMimeType(fileName)
+}
+
 /**
  * Parses the base64-decoded JSON content from a Daylio backup.
  */
@@ -104,10 +220,7 @@ function parseDaylioJson(jsonContent: string): DaylioBackup {
 /**
  * Extracts and decodes the backup.daylio file from a .daylio ZIP archive.
  */
-async function extractDaylioBackup(zipBuffer: ArrayBuffer): Promise<string> {
-  d('loading zip file')
-  const zip = await JSZip.loadAsync(zipBuffer)
-
+async function extractDaylioBackup(zip: JSZip): Promise<string> {
   const backupFile = zip.file('backup.daylio')
   if (!backupFile) {
     throw new Error(
@@ -124,6 +237,20 @@ async function extractDaylioBackup(zipBuffer: ArrayBuffer): Promise<string> {
   return jsonContent
 }
 
+/**
+ * Indexes the asset files in a .daylio archive (stored under assets/, named
+ * by their checksum) by file name.
+ */
+function indexAssetFiles(zip: JSZip): Map<string, JSZip.JSZipObject> {
+  const files = new Map<string, JSZip.JSZipObject>()
+  zip.forEach((path, file) => {
+    if (!file.dir && path.startsWith('assets/')) {
+      files.set(path.slice(path.lastIndexOf('/') + 1), file)
+    }
+  })
+  return files
+}
+
 /**
  * Imports Daylio entries from a .daylio backup file.
  *
@@ -133,10 +260,17 @@ async function extractDaylioBackup(zipBuffer: ArrayBuffer): Promise<string> {
  *
  * Output format for each entry line:
  * [MoodName]: [note] (tag1, tag2, ...)
+ *
+ * Each day's metadata also has an `entries` list with the structured data
+ * for each entry (see describeEntry). Photos attached to entries are
+ * imported as memories of their own, holding the image, after their day.
+ *
+ * The backup is a single JSON document so it has to be read in full, but
+ * days are yielded one at a time (oldest first) as they're formatted.
  */
-export async function importDaylioBackup(
+export async function* importDaylioBackup(
   filePath: string
-): Promise<NewMemory[]> {
+): AsyncGenerator<NewMemory> {
   d('starting import from file: %s', filePath)
 
   // Read the .daylio file (it's a ZIP)
@@ -144,8 +278,11 @@ export async function importDaylioBackup(
   const zipBuffer = await file.arrayBuffer()
   d('read %d bytes from file', zipBuffer.byteLength)
 
+  d('loading zip file')
+  const zip = await JSZip.loadAsync(zipBuffer)
+
   // Extract and decode the backup
-  const jsonContent = await extractDaylioBackup(zipBuffer)
+  const jsonContent = await extractDaylioBackup(zip)
   const backup = parseDaylioJson(jsonContent)
 
   d(
@@ -156,15 +293,15 @@ export async function importDaylioBackup(
   )
 
   // Build lookup tables
-  const moodLookup = new Map<number, DaylioMood>()
-  for (const mood of backup.customMoods) {
-    moodLookup.set(mood.id, mood)
-  }
-
-  const tagLookup = new Map<number, string>()
-  for (const tag of backup.tags) {
-    tagLookup.set(tag.id, tag.name)
+  const lookups: Lookups = {
+    moods: new Map(backup.customMoods.map((mood) => [mood.id, mood])),
+    tags: new Map(backup.tags.map((tag) => [tag.id, tag])),
+    tagGroups: new Map(
+      (backup.tag_groups ?? []).map((group) => [group.id, group.name])
+    ),
+    assets: new Map((backup.assets ?? []).map((asset) => [asset.id, asset])),
   }
+  const assetFiles = indexAssetFiles(zip)
 
   // Group entries by day (year-month-day)
   const entriesByDay = new Map<string, DaylioEntry[]>()
@@ -178,57 +315,91 @@ export async function importDaylioBackup(
 
   d('grouped entries into %d days', entriesByDay.size)
 
-  // Create memories for each day
-  const memories: NewMemory[] = []
-
-  for (const [dayKey, entries] of entriesByDay) {
-    // Sort entries by time within the day (earliest first)
+  // Sort entries by time within each day (earliest first), then the days
+  // themselves by their earliest entry (oldest first)
+  const days = [...entriesByDay].map(([dayKey, entries]) => {
     entries.sort((a, b) => {
       const timeA = a.hour * 60 + a.minute
       const timeB = b.hour * 60 + b.minute
       return timeA - timeB
     })
+    return { dayKey, entries }
+  })
+  days.sort(
+    (a, b) => (a.entries[0]?.datetime ?? 0) - (b.entries[0]?.datetime ?? 0)
+  )
 
+  // Create a memory for each day
+  for (const { dayKey, entries } of days) {
     // Format each entry as a line
-    const lines = entries.map((entry) =>
-      formatEntry(entry, moodLookup, tagLookup)
-    )
+    const lines = entries.map((entry) => formatEntry(entry, lookups))
     const content = lines.join('\n')
 
+    // Photos attached to the day's entries, read from the archive
+    const photos: NewMemory[] = []
+    const records: JsonValue[] = []
+    for (const entry of entries) {
+      const photoKeys: string[] = []
+      for (const assetId of entry.assets ?? []) {
+        const asset = lookups.assets.get(assetId)
+        const assetFile = asset && assetFiles.get(asset.checksum)
+        if (!asset || asset.type !== PHOTO_ASSET_TYPE || !assetFile) {
+          d('missing photo asset %d for entry %d', assetId, entry.id)
+          continue
+        }
+
+        const data = await assetFile.async('uint8array')
+        const sourceKey = `photos/${asset.checksum}`
+        photoKeys.push(sourceKey)
+        photos.push({
+          source: 'daylio',
+          sourceKey,
+          memoryCreatedAt: getEntryTime(entry),
+          title: `Daylio photo: ${dayKey}`,
+          metadata: {
+            dayKey,
+            entryId: entry.id,
+            fileName: asset.checksum,
+            mimeType: sniffImageType(data, asset.checksum),
+            size: data.byteLength,
+          },
+          content: formatEntry(entry, lookups),
+          contentBlob: data,
+        })
+      }
+      records.push(describeEntry(entry, lookups, photoKeys))
+    }
+
     // Use the earliest entry's timestamp for the memory date
     const firstEntry = entries[0]
     if (!firstEntry) {
       continue // Skip empty entry arrays (shouldn't happen)
     }
 
-    // Use the datetime timestamp directly and set the timezone
-    // Daylio stores offset in ms (e.g., +01:00 = 3600000ms)
-    const offsetMinutes = Math.round(firstEntry.timeZoneOffset / 60000)
-    const memoryCreatedAt = DateTime.fromMillis(firstEntry.datetime, {
-      zone: `UTC${offsetMinutes >= 0 ? '+' : ''}${offsetMinutes / 60}`,
-    })
+    const memoryCreatedAt = getEntryTime(firstEntry)
 
     d('created memory for %s: %d entries', dayKey, entries.length)
 
-    memories.push({
+    yield {
       source: 'daylio',
+      sourceKey: dayKey,
       memoryCreatedAt,
       title: `Daylio: ${dayKey}`,
       metadata: {
         entryCount: String(entries.length),
         dayKey,
+        entries: records,
       },
       content,
-    })
+    }
+    yield* photos
   }
 
-  // Sort memories by date (oldest first)
-  memories.sort((a, b) => {
-    const dateA = a.memoryCreatedAt as DateTime
-    const dateB = b.memoryCreatedAt as DateTime
-    return dateA.toMillis() - dateB.toMillis()
-  })
+  d('import complete, created %d memories', days.length)
+}
 
-  d('import complete, created %d memories', memories.length)
-  return memories
+export const daylioImporter: ImporterDefinition = {
+  name: 'daylio',
+  description: 'Daylio backup file (.daylio)',
+  run: (path) => importDaylioBackup(path),
 }
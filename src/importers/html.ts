@@ -0,0 +1,37 @@
+// Named entities that show up in chat logs and social media posts; anything
+// else is left as-is
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+}
+
+/**
+ * Decodes named and numeric HTML entities.
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|\w+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) {
+      return String.fromCodePoint(Number.parseInt(entity.slice(2), 16))
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(Number.parseInt(entity.slice(1), 10))
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+/**
+ * Converts a fragment of HTML into plain text, keeping line breaks.
+ */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|h\d)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+}
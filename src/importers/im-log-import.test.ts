@@ -0,0 +1,151 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdir, mkdtemp, rm, utimes } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { dirname, join } from 'node:path'
+import { Settings } from 'luxon'
+import type { NewMemory } from '../types'
+import { detectImLogFormat, importImLogs } from './im-log-import'
+
+const FIXTURES: Record<string, string> = {
+  'purple/logs/aim/MyName/some buddy/2008-03-15.203512-0500EST.txt': [
+    'Conversation with Some Buddy at Sat 15 Mar 2008 08:35:12 PM EST on MyName (aim)',
+    '(08:35:14 PM) Some Buddy: hey are you there',
+    '(08:36:02 PM) MyName: yep',
+    'second line of my message',
+    '(11:59:40 PM) Some Buddy: almost midnight',
+    '(12:01:00 AM) MyName: past midnight now',
+  ].join('\n'),
+  'purple/logs/aim/MyName/otherbuddy/2008-03-16.100000-0500EST.html': [
+    '<html><head><title>Conversation with otherbuddy at Sun 16 Mar 2008 10:00:00 AM EST on MyName (aim)</title></head>',
+    '<body><h3>Conversation with otherbuddy at Sun 16 Mar 2008 10:00:00 AM EST on MyName (aim)</h3>',
+    '<font color="#A82F2F"><font size="2">(10:00:05 AM)</font> <b>otherbuddy:</b></font> fish &amp; chips?<br/>',
+    '<font color="#16569E"><font size="2">(10:01:00 AM)</font> <b>MyName:</b></font> <i>always</i><br/>',
+    '</body></html>',
+  ].join('\n'),
+  'Adium/Logs/AIM.myname/SomeBuddy/SomeBuddy (2008-03-15T21.00.00-0500).chatlog/SomeBuddy (2008-03-15T21.00.00-0500).xml':
+    [
+      '<?xml version="1.0" encoding="UTF-8" ?>',
+      '<chat xmlns="http://purl.org/net/ulf/ns/0.4-02" account="myname" service="AIM">',
+      '<event type="windowOpened" sender="myname" time="2008-03-15T21:00:00-05:00"/>',
+      '<message sender="somebuddy" time="2008-03-15T21:00:10-05:00" alias="Some Buddy"><div><span style="color: #000000">from adium</span></div></message>',
+      '</chat>',
+    ].join('\n'),
+  'trillian/logs/AIM/Query/pal.log': [
+    'Session Start (myname:pal): Sat Mar 15 20:35:12 2008',
+    '[20:35] pal: trillian hello',
+    '[20:36] myname: hi pal',
+    'Session Close (pal): Sat Mar 15 20:40:00 2008',
+  ].join('\n'),
+  'trillian/logs/AIM/Query/mate.log': [
+    'Session Start (myname:mate): Sat Mar 32 20:35:12 2008',
+    '[20:35] mate: from a garbled session',
+  ].join('\n'),
+  'aim/oldfriend/2001-06-01.txt': [
+    'oldfriend (9:15:02 PM): a/s/l?',
+    'MyName (9:15:30 PM): lol',
+  ].join('\n'),
+  'misc/readme.txt': 'Not a chat log',
+}
+
+describe('importImLogs', () => {
+  let dir: string
+  let defaultZone: typeof Settings.defaultZone
+  let memories: NewMemory[]
+
+  beforeAll(async () => {
+    defaultZone = Settings.defaultZone
+    Settings.defaultZone = 'UTC-5'
+    dir = await mkdtemp(join(tmpdir(), 'istoria-im-'))
+    for (const [relativePath, content] of Object.entries(FIXTURES)) {
+      const fullPath = join(dir, relativePath)
+      await mkdir(dirname(fullPath), { recursive: true })
+      await Bun.write(fullPath, content)
+    }
+    const mtime = new Date('2009-07-01T12:00:00-05:00')
+    await utimes(join(dir, 'trillian/logs/AIM/Query/mate.log'), mtime, mtime)
+    memories = await importImLogs(dir)
+  })
+
+  afterAll(async () => {
+    Settings.defaultZone = defaultZone
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test('groups messages by normalised conversation and day', () => {
+    expect(memories.map((m) => m.sourceKey).sort()).toEqual([
+      'aim/myname/mate/2009-07-01',
+      'aim/myname/otherbuddy/2008-03-16',
+      'aim/myname/pal/2008-03-15',
+      'aim/myname/somebuddy/2008-03-15',
+      'aim/myname/somebuddy/2008-03-16',
+      'aim/unknown/oldfriend/2001-06-01',
+    ])
+
+    for (const memory of memories) {
+      expect(memory.source).toBe('im')
+    }
+  })
+
+  test('merges Pidgin and Adium logs of the same buddy', () => {
+    const day = memories.find(
+      (m) => m.sourceKey === 'aim/myname/somebuddy/2008-03-15'
+    )
+
+    expect(day?.content?.split('\n')).toEqual([
+      '[20:35] Some Buddy: hey are you there',
+      '[20:36] MyName: yep',
+      'second line of my message',
+      '[21:00] Some Buddy: from adium',
+      '[23:59] Some Buddy: almost midnight',
+    ])
+    expect(day?.metadata).toMatchObject({
+      protocol: 'aim',
+      account: 'myname',
+      buddy: 'somebuddy',
+      messageCount: 4,
+    })
+
+    const nextDay = memories.find(
+      (m) => m.sourceKey === 'aim/myname/somebuddy/2008-03-16'
+    )
+    expect(nextDay?.content).toBe('[00:01] MyName: past midnight now')
+  })
+
+  test('strips HTML from Pidgin HTML logs', () => {
+    const day = memories.find(
+      (m) => m.sourceKey === 'aim/myname/otherbuddy/2008-03-16'
+    )
+    expect(day?.content).toBe(
+      '[10:00] otherbuddy: fish & chips?\n[10:01] MyName: always'
+    )
+    expect(day?.metadata?.['format']).toBe('pidgin-html')
+  })
+
+  test('reads Trillian sessions and plain AIM logs', () => {
+    const trillian = memories.find(
+      (m) => m.sourceKey === 'aim/myname/pal/2008-03-15'
+    )
+    expect(trillian?.content).toBe(
+      '[20:35] pal: trillian hello\n[20:36] myname: hi pal'
+    )
+
+    const aim = memories.find(
+      (m) => m.sourceKey === 'aim/unknown/oldfriend/2001-06-01'
+    )
+    expect(aim?.content).toBe('[21:15] oldfriend: a/s/l?\n[21:15] MyName: lol')
+  })
+
+  test('dates Trillian sessions with an unparseable start by the file', () => {
+    const session = memories.find(
+      (m) => m.sourceKey === 'aim/myname/mate/2009-07-01'
+    )
+    expect(session?.content).toBe('[20:35] mate: from a garbled session')
+    expect(session?.memoryCreatedAt.isValid).toBe(true)
+  })
+})
+
+describe('detectImLogFormat', () => {
+  test('ignores files that are not chat logs', () => {
+    expect(detectImLogFormat('notes.txt', 'Just some notes')).toBeNull()
+  })
+})
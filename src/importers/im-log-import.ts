@@ -0,0 +1,487 @@
+import { stat } from 'node:fs/promises'
+import { basename, extname, join } from 'node:path'
+import { Glob } from 'bun'
+import createDebug from 'debug'
+import { DateTime } from 'luxon'
+import type { ImporterDefinition } from '../registry'
+import type { NewMemory } from '../types'
+import { decodeEntities, htmlToText } from './html'
+import { streamAll } from './stream'
+
+const d = createDebug('istoria:im')
+
+export type ImLogFormat =
+  | 'adium'
+  | 'pidgin-html'
+  | 'pidgin-txt'
+  | 'trillian'
+  | 'aim'
+
+interface ImMessage {
+  time: DateTime
+  sender: string
+  text: string
+}
+
+interface ImConversation {
+  format: ImLogFormat
+  protocol: string
+  account: string
+  buddy: string
+  messages: ImMessage[]
+}
+
+// Pidgin log filenames, e.g. "2008-03-15.203512-0500EST.txt"
+const PIDGIN_FILENAME_REGEX =
+  /^(\d{4}-\d{2}-\d{2})\.(\d{2})(\d{2})(\d{2})([+-]\d{4})?/
+
+// Header line of Pidgin logs, e.g.
+// "Conversation with buddy at Sat 15 Mar 2008 08:35:12 PM EST on me (aim)"
+const PIDGIN_HEADER_REGEX = /^Conversation with (.+?) at .+? on (.+?) \((\w+)\)/
+
+// Pidgin message lines, e.g. "(08:35:14 PM) buddy: hey"
+const PIDGIN_LINE_REGEX = /^\(([^)]+)\) ([^:]+?): (.*)$/
+
+// Trillian session headers, e.g. "Session Start (me:buddy): Sat Mar 15 20:35:12 2008"
+const TRILLIAN_SESSION_REGEX =
+  /^Session Start \(([^:]+):([^)]+)\): \w{3} (\w{3} \d{1,2} \d{2}:\d{2}:\d{2} \d{4})/
+
+// Trillian message lines, e.g. "[20:35] buddy: hey"
+const TRILLIAN_LINE_REGEX = /^\[([^\]]+)\] ([^:]+?): (.*)$/
+
+// Plain AIM log lines, e.g. "buddy (8:35:14 PM): hey"
+const AIM_LINE_REGEX =
+  /^([^(\n]+?) \((\d{1,2}:\d{2}(?::\d{2})?(?: ?[AP]M)?)\): (.*)$/i
+
+// Clock values in message lines, optionally with a date in front, e.g.
+// "08:35:14 PM", "20:35", "03/16/2008 12:01:00 AM" or "2008-03-16 00:01:00"
+const CLOCK_REGEX =
+  /^(?:(\d{1,2})\/(\d{1,2})\/(\d{4}) |(\d{4})-(\d{2})-(\d{2}) )?(\d{1,2}):(\d{2})(?::(\d{2}))?(?: ?([AP]M))?$/i
+
+const YYYY_MM_DD_REGEX = /(\d{4}-\d{2}-\d{2})/
+
+/**
+ * Normalises a screen name the way AIM compared them: case-insensitive and
+ * ignoring spaces. XMPP resources ("me@host/Home") are dropped too.
+ */
+export function normalizeScreenName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, '').replace(/\/.*$/, '')
+}
+
+function normalizeProtocol(protocol: string): string {
+  return protocol
+    .trim()
+    .toLowerCase()
+    .replace(/^prpl-/, '')
+}
+
+/**
+ * Resolves a clock value from a log line against the time of the previous
+ * message. Values without a date that go backwards are assumed to have
+ * crossed midnight.
+ */
+function parseClock(value: string, previous: DateTime): DateTime | null {
+  const match = value.trim().match(CLOCK_REGEX)
+  if (!match) {
+    return null
+  }
+
+  const [, mdMonth, mdDay, mdYear, isoYear, isoMonth, isoDay] = match
+  const [hourText = '0', minuteText = '0', secondText, meridiem] =
+    match.slice(7)
+
+  let hour = Number(hourText)
+  if (meridiem) {
+    hour = (hour % 12) + (meridiem.toUpperCase() === 'PM' ? 12 : 0)
+  }
+
+  const time = {
+    hour,
+    minute: Number(minuteText),
+    second: Number(secondText ?? 0),
+    millisecond: 0,
+  }
+
+  if (mdYear || isoYear) {
+    return previous.set({
+      year: Number(mdYear ?? isoYear),
+      month: Number(mdMonth ?? isoMonth),
+      day: Number(mdDay ?? isoDay),
+      ...time,
+    })
+  }
+
+  let resolved = previous.set(time)
+  if (resolved < previous.minus({ minutes: 1 })) {
+    resolved = resolved.plus({ days: 1 })
+  }
+  return resolved
+}
+
+/**
+ * Parses "Name: text" style lines, appending lines that don't match to the
+ * previous message so multi-line messages stay intact. Status lines before
+ * the first message (sign-ons and the like) are dropped.
+ */
+function parseLines(
+  lines: string[],
+  lineRegex: RegExp,
+  start: DateTime,
+  fields: { time: number; sender: number; text: number }
+): ImMessage[] {
+  const messages: ImMessage[] = []
+  let current = start
+
+  for (const line of lines) {
+    const match = line.match(lineRegex)
+    const time = match ? parseClock(match[fields.time] ?? '', current) : null
+
+    if (!match || !time) {
+      const last = messages.at(-1)
+      if (last && line.trim()) {
+        last.text += `\n${line}`
+      }
+      continue
+    }
+
+    current = time
+    messages.push({
+      time,
+      sender: (match[fields.sender] ?? '').trim(),
+      text: (match[fields.text] ?? '').trim(),
+    })
+  }
+
+  return messages
+}
+
+/**
+ * Detects which client wrote a log file from its name and contents.
+ */
+export function detectImLogFormat(
+  relativePath: string,
+  text: string
+): ImLogFormat | null {
+  const head = text.slice(0, 2048)
+
+  if (/<chat\b[^>]*>/.test(head) && /\.(chatlog|xml)$/i.test(relativePath)) {
+    return 'adium'
+  }
+  if (/<title>\s*Conversation with /i.test(head)) {
+    return 'pidgin-html'
+  }
+  if (PIDGIN_HEADER_REGEX.test(head)) {
+    return 'pidgin-txt'
+  }
+  if (/^Session Start \(/m.test(head)) {
+    return 'trillian'
+  }
+  if (head.split('\n').some((line) => AIM_LINE_REGEX.test(line.trim()))) {
+    return 'aim'
+  }
+  return null
+}
+
+/**
+ * Works out when a Pidgin log started, from its filename when possible
+ * (which carries the UTC offset), falling back to the file's mtime.
+ */
+function getPidginStart(filename: string, mtime: DateTime): DateTime {
+  const match = filename.match(PIDGIN_FILENAME_REGEX)
+  if (!match) {
+    return mtime
+  }
+
+  const [, date, hour, minute, second, offset] = match
+  const iso = `${date}T${hour}:${minute}:${second}${offset ?? ''}`
+  const parsed = DateTime.fromISO(iso, { setZone: Boolean(offset) })
+  return parsed.isValid ? parsed : mtime
+}
+
+function parsePidginLog(
+  relativePath: string,
+  text: string,
+  format: 'pidgin-html' | 'pidgin-txt',
+  mtime: DateTime
+): ImConversation[] {
+  const plain = format === 'pidgin-html' ? htmlToText(text) : text
+  const lines = plain.split(/\r?\n/)
+
+  const headerIndex = lines.findIndex((line) =>
+    PIDGIN_HEADER_REGEX.test(line.trim())
+  )
+  const header = lines[headerIndex]?.trim().match(PIDGIN_HEADER_REGEX)
+
+  // Logs live at <protocol>/<account>/<buddy>/<date>.txt
+  const parts = relativePath.split('/')
+  const buddy = header?.[1] ?? parts.at(-2) ?? 'unknown'
+  const account = header?.[2] ?? parts.at(-3) ?? 'unknown'
+  const protocol = header?.[3] ?? parts.at(-4) ?? 'unknown'
+
+  const start = getPidginStart(basename(relativePath), mtime)
+  const messages = parseLines(
+    lines.slice(headerIndex + 1),
+    PIDGIN_LINE_REGEX,
+    start,
+    {
+      time: 1,
+      sender: 2,
+      text: 3,
+    }
+  )
+
+  return [{ format, protocol, account, buddy, messages }]
+}
+
+function parseAdiumLog(relativePath: string, text: string): ImConversation[] {
+  const chatAttributes = parseAttributes(
+    text.match(/<chat\b([^>]*)>/)?.[1] ?? ''
+  )
+
+  // Logs live at <Service>.<account>/<buddy>/<buddy> (<date>).chatlog, and
+  // newer versions make the .chatlog a folder holding the XML file
+  const parts = relativePath.split('/')
+  const chatlogIndex = parts.findLastIndex((p) => p.endsWith('.chatlog'))
+  const buddy = parts[chatlogIndex - 1] ?? 'unknown'
+
+  const messages: ImMessage[] = []
+  for (const match of text.matchAll(
+    /<message\b([^>]*)>([\s\S]*?)<\/message>/g
+  )) {
+    const attributes = parseAttributes(match[1] ?? '')
+    const time = DateTime.fromISO(attributes['time'] ?? '', { setZone: true })
+    if (!time.isValid) {
+      continue
+    }
+
+    messages.push({
+      time,
+      sender: attributes['alias'] || attributes['sender'] || 'unknown',
+      text: htmlToText(match[2] ?? '').trim(),
+    })
+  }
+
+  return [
+    {
+      format: 'adium',
+      protocol: chatAttributes['service'] ?? 'unknown',
+      account: chatAttributes['account'] ?? 'unknown',
+      buddy,
+      messages,
+    },
+  ]
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const match of text.matchAll(/([\w:-]+)="([^"]*)"/g)) {
+    attributes[match[1] ?? ''] = decodeEntities(match[2] ?? '')
+  }
+  return attributes
+}
+
+function parseTrillianLog(text: string, mtime: DateTime): ImConversation[] {
+  const conversations: ImConversation[] = []
+  let lines: string[] = []
+  let session: { account: string; buddy: string; start: DateTime } | null = null
+
+  const flush = () => {
+    if (!session) {
+      return
+    }
+    conversations.push({
+      format: 'trillian',
+      protocol: 'aim',
+      account: session.account,
+      buddy: session.buddy,
+      messages: parseLines(lines, TRILLIAN_LINE_REGEX, session.start, {
+        time: 1,
+        sender: 2,
+        text: 3,
+      }),
+    })
+  }
+
+  for (const line of text.split(/\r?\n/)) {
+    const sessionMatch = line.match(TRILLIAN_SESSION_REGEX)
+    if (sessionMatch) {
+      flush()
+      const [, account = 'unknown', buddy = 'unknown', date = ''] = sessionMatch
+      let start = DateTime.fromFormat(date, 'LLL d HH:mm:ss yyyy')
+      if (!start.isValid) {
+        d('unparseable Trillian session date "%s", using the file mtime', date)
+        start = mtime.startOf('day')
+      }
+      session = { account, buddy, start }
+      lines = []
+    } else if (line.startsWith('Session Close')) {
+      flush()
+      session = null
+    } else if (session) {
+      lines.push(line)
+    }
+  }
+  flush()
+
+  return conversations.filter((c) => c.messages.length > 0)
+}
+
+function parseAimLog(
+  relativePath: string,
+  text: string,
+  mtime: DateTime
+): ImConversation[] {
+  const dateMatch = basename(relativePath).match(YYYY_MM_DD_REGEX)
+  const start = dateMatch?.[1]
+    ? DateTime.fromISO(dateMatch[1])
+    : mtime.startOf('day')
+
+  const plain = /<html/i.test(text) ? htmlToText(text) : text
+  const messages = parseLines(plain.split(/\r?\n/), AIM_LINE_REGEX, start, {
+    time: 2,
+    sender: 1,
+    text: 3,
+  })
+
+  // Plain AIM logs don't record who they were with, so fall back to the
+  // folder (or the file) they were saved under
+  const parts = relativePath.split('/')
+  const stem = basename(relativePath, extname(relativePath))
+    .replace(YYYY_MM_DD_REGEX, '')
+    .replace(/^[\s._-]+|[\s._-]+$/g, '')
+  const buddy =
+    (parts.length > 1 ? parts.at(-2) : undefined) || stem || 'unknown'
+
+  return [
+    { format: 'aim', protocol: 'aim', account: 'unknown', buddy, messages },
+  ]
+}
+
+/**
+ * Imports instant messenger logs from a directory tree of old backups.
+ *
+ * - Supports Pidgin (HTML and TXT), Adium (.chatlog XML), Trillian session
+ *   logs and plain AIM "name (time): message" logs, detected per file
+ * - Creates one Memory per conversation (protocol, account, buddy) per day
+ * - Screen names are normalised, so "Some Buddy" and "somebuddy" are the
+ *   same conversation
+ *
+ * Output format for each message line:
+ * [HH:mm] sender: message
+ */
+export async function importImLogs(rootDir: string): Promise<NewMemory[]> {
+  d('starting import from directory: %s', rootDir)
+  const glob = new Glob('**/*.{html,htm,txt,log,chatlog,xml}')
+
+  const days = new Map<
+    string,
+    { conversation: ImConversation; messages: ImMessage[]; dayKey: string }
+  >()
+
+  for await (const relativePath of glob.scan({
+    cwd: rootDir,
+    dot: false,
+    onlyFiles: true,
+  })) {
+    const fullPath = join(rootDir, relativePath)
+    const text = await Bun.file(fullPath).text()
+
+    const format = detectImLogFormat(relativePath, text)
+    if (!format) {
+      d('skipping unrecognised file: %s', relativePath)
+      continue
+    }
+
+    const mtime = DateTime.fromJSDate((await stat(fullPath)).mtime)
+    d('processing %s log: %s', format, relativePath)
+
+    let conversations: ImConversation[]
+    switch (format) {
+      case 'adium':
+        conversations = parseAdiumLog(relativePath, text)
+        break
+      case 'pidgin-html':
+      case 'pidgin-txt':
+        conversations = parsePidginLog(relativePath, text, format, mtime)
+        break
+      case 'trillian':
+        conversations = parseTrillianLog(text, mtime)
+        break
+      case 'aim':
+        conversations = parseAimLog(relativePath, text, mtime)
+        break
+    }
+
+    // Group messages by normalised conversation and day
+    for (const conversation of conversations) {
+      const protocol = normalizeProtocol(conversation.protocol)
+      const account = normalizeScreenName(conversation.account)
+      const buddy = normalizeScreenName(conversation.buddy)
+
+      for (const message of conversation.messages) {
+        const dayKey = message.time.toFormat('yyyy-MM-dd')
+        const key = `${protocol}/${account}/${buddy}/${dayKey}`
+        const existing = days.get(key) ?? {
+          conversation: { ...conversation, protocol, account, buddy },
+          messages: [],
+          dayKey,
+        }
+        existing.messages.push(message)
+        days.set(key, existing)
+      }
+    }
+  }
+
+  d('grouped messages into %d conversation days', days.size)
+
+  const memories: NewMemory[] = []
+  for (const [sourceKey, { conversation, messages, dayKey }] of days) {
+    messages.sort((a, b) => a.time.toMillis() - b.time.toMillis())
+
+    const first = messages[0]
+    if (!first) {
+      continue
+    }
+
+    // Logs that overlap (e.g. the same chat backed up twice) repeat lines
+    const seen = new Set<string>()
+    const lines: string[] = []
+    for (const message of messages) {
+      const line = `[${message.time.toFormat('HH:mm')}] ${message.sender}: ${message.text}`
+      const key = `${message.time.toMillis()}\u0000${line}`
+      if (!seen.has(key)) {
+        seen.add(key)
+        lines.push(line)
+      }
+    }
+
+    memories.push({
+      source: 'im',
+      sourceKey,
+      memoryCreatedAt: first.time,
+      title: `IM: ${conversation.buddy} ${dayKey}`,
+      metadata: {
+        format: conversation.format,
+        protocol: conversation.protocol,
+        account: conversation.account,
+        buddy: conversation.buddy,
+        messageCount: lines.length,
+        dayKey,
+      },
+      content: lines.join('\n'),
+    })
+  }
+
+  memories.sort(
+    (a, b) => a.memoryCreatedAt.toMillis() - b.memoryCreatedAt.toMillis()
+  )
+
+  d('import complete, created %d memories', memories.length)
+  return memories
+}
+
+export const imLogImporter: ImporterDefinition = {
+  name: 'im',
+  description: 'Folder of AIM, Adium, Pidgin or Trillian chat logs',
+  run: (path) => streamAll(importImLogs(path)),
+}
@@ -0,0 +1,140 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Settings } from 'luxon'
+import { importLastfmScrobbles } from './lastfm-import'
+
+// lastfm-to-csv layout: artist,album,track,date (UTC)
+const HEADERLESS_CSV = [
+  'Radiohead,OK Computer,Airbag,02 Mar 2025 08:00',
+  'Radiohead,OK Computer,Paranoid Android,02 Mar 2025 08:05',
+  '"Crosby, Stills & Nash",CSN,Helplessly Hoping,02 Mar 2025 09:00',
+  'Radiohead,OK Computer,Airbag,02 Mar 2025 21:30',
+  // 23:30 UTC is already the next day in UTC+2
+  'Bonobo,Migration,Kerala,02 Mar 2025 23:30',
+].join('\n')
+
+const HEADER_CSV = [
+  'uts,utc_time,artist,artist_mbid,album,album_mbid,track,track_mbid',
+  '1740902400,"02 Mar 2025, 08:00",Radiohead,,OK Computer,,Airbag,',
+].join('\n')
+
+const API_JSON = [
+  {
+    recenttracks: {
+      track: [
+        {
+          artist: { '#text': 'Bonobo' },
+          album: { '#text': 'Migration' },
+          name: 'Kerala',
+          '@attr': { nowplaying: 'true' },
+        },
+        {
+          artist: { '#text': 'Bonobo' },
+          album: { '#text': 'Migration' },
+          name: 'Kerala',
+          date: { uts: '1740902400', '#text': '02 Mar 2025, 08:00' },
+        },
+      ],
+    },
+  },
+]
+
+describe('importLastfmScrobbles', () => {
+  let dir: string
+  let defaultZone: typeof Settings.defaultZone
+
+  beforeAll(async () => {
+    defaultZone = Settings.defaultZone
+    Settings.defaultZone = 'UTC+2'
+    dir = await mkdtemp(join(tmpdir(), 'istoria-lastfm-'))
+  })
+
+  afterAll(async () => {
+    Settings.defaultZone = defaultZone
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test('writes one digest memory per day in the given zone', async () => {
+    const filePath = join(dir, 'scrobbles.csv')
+    await Bun.write(filePath, HEADERLESS_CSV)
+
+    const memories = await importLastfmScrobbles(filePath, { zone: 'UTC+2' })
+
+    expect(memories.map((m) => m.sourceKey)).toEqual([
+      '2025-03-02',
+      '2025-03-03',
+    ])
+
+    const day = memories[0]!
+    expect(day.source).toBe('lastfm')
+    expect(day.title).toBe('Last.fm: 2025-03-02')
+    expect(day.memoryCreatedAt.offset).toBe(120)
+    expect(day.content).toBe(
+      [
+        'Total plays: 4',
+        'First listen: 10:00',
+        'Last listen: 23:30',
+        '',
+        'Top artists:',
+        '- Radiohead (3)',
+        '- Crosby, Stills & Nash (1)',
+        '',
+        'Top tracks:',
+        '- Radiohead – Airbag (2)',
+        '- Crosby, Stills & Nash – Helplessly Hoping (1)',
+        '- Radiohead – Paranoid Android (1)',
+      ].join('\n')
+    )
+    expect(day.metadata).toMatchObject({
+      dayKey: '2025-03-02',
+      zone: 'UTC+2',
+      totalPlays: 4,
+      uniqueArtists: 2,
+      uniqueTracks: 3,
+      topArtists: [
+        { name: 'Radiohead', plays: 3 },
+        { name: 'Crosby, Stills & Nash', plays: 1 },
+      ],
+    })
+  })
+
+  test("splits days in UTC by default, whatever the machine's zone", async () => {
+    const filePath = join(dir, 'scrobbles-utc.csv')
+    await Bun.write(filePath, HEADERLESS_CSV)
+
+    const memories = await importLastfmScrobbles(filePath)
+
+    expect(memories).toHaveLength(1)
+    expect(memories[0]?.sourceKey).toBe('2025-03-02')
+    expect(memories[0]?.memoryCreatedAt.offset).toBe(0)
+    expect(memories[0]?.metadata?.['zone']).toBe('UTC')
+    expect(memories[0]?.content).toContain('Last listen: 23:30')
+
+    await expect(
+      importLastfmScrobbles(filePath, { zone: 'Mars/Olympus' })
+    ).rejects.toThrow('Invalid zone: Mars/Olympus')
+  })
+
+  test('reads CSV exports with a header row', async () => {
+    const filePath = join(dir, 'scrobbles-header.csv')
+    await Bun.write(filePath, HEADER_CSV)
+
+    const memories = await importLastfmScrobbles(filePath)
+
+    expect(memories).toHaveLength(1)
+    expect(memories[0]?.content).toContain('- Radiohead – Airbag (1)')
+  })
+
+  test('reads JSON API dumps and skips now playing tracks', async () => {
+    const filePath = join(dir, 'scrobbles.json')
+    await Bun.write(filePath, JSON.stringify(API_JSON))
+
+    const memories = await importLastfmScrobbles(filePath)
+
+    expect(memories).toHaveLength(1)
+    expect(memories[0]?.metadata?.['totalPlays']).toBe(1)
+    expect(memories[0]?.content).toContain('- Bonobo – Kerala (1)')
+  })
+})
@@ -0,0 +1,402 @@
+import createDebug from 'debug'
+import { DateTime } from 'luxon'
+import type { ImporterDefinition } from '../registry'
+import type { NewMemory } from '../types'
+import { streamAll } from './stream'
+
+const d = createDebug('istoria:lastfm')
+
+// How many artists / tracks to list in each day's digest
+const TOP_COUNT = 10
+
+// Date format used by the popular lastfm-to-csv exporter, always in UTC
+// (e.g. "31 Jan 2020 12:34")
+const CSV_DATE_FORMAT = 'd MMM yyyy HH:mm'
+
+export interface LastfmImportOptions {
+  // Zone to split days in, e.g. "Europe/Berlin". Defaults to UTC, so that
+  // importing the same export anywhere gives the same days
+  zone?: string
+}
+
+interface Scrobble {
+  artist: string
+  album: string
+  track: string
+  playedAt: DateTime
+}
+
+interface PlayCount {
+  name: string
+  plays: number
+}
+
+// The JSON shape returned by Last.fm's user.getRecentTracks API, which is
+// what most JSON dump tools save verbatim
+interface LastfmApiTrack {
+  artist?: { '#text'?: string; name?: string } | string
+  album?: { '#text'?: string } | string
+  name?: string
+  track?: string
+  date?: { uts?: string } | string | number
+  uts?: string | number
+  timestamp?: string | number
+  '@attr'?: { nowplaying?: string }
+}
+
+/**
+ * Splits CSV text into rows of fields, handling quoted fields with embedded
+ * commas, quotes and newlines.
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++
+      }
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter((r) => r.some((f) => f.trim()))
+}
+
+/**
+ * Parses a timestamp that may be unix seconds, unix milliseconds, or one of
+ * the formatted UTC dates Last.fm exporters write.
+ */
+function parsePlayedAt(value: string | number | undefined): DateTime | null {
+  if (value === undefined || value === '') {
+    return null
+  }
+
+  const numeric = Number(value)
+  if (Number.isFinite(numeric) && numeric > 0) {
+    // Anything past the year 2286 in seconds is really milliseconds
+    return numeric > 1e10
+      ? DateTime.fromMillis(numeric)
+      : DateTime.fromSeconds(numeric)
+  }
+
+  const text = String(value)
+  for (const parsed of [
+    DateTime.fromFormat(text, CSV_DATE_FORMAT, { zone: 'utc' }),
+    DateTime.fromISO(text, { zone: 'utc' }),
+  ]) {
+    if (parsed.isValid) {
+      return parsed
+    }
+  }
+
+  return null
+}
+
+/**
+ * Parses a CSV export. Files with a header row (e.g. "uts,utc_time,artist,
+ * album,track,...") are read by column name; headerless files are assumed
+ * to be in the lastfm-to-csv "artist,album,track,date" layout.
+ */
+function parseCsvScrobbles(text: string): Scrobble[] {
+  const rows = parseCsv(text)
+  const header = rows[0]?.map((h) => h.trim().toLowerCase()) ?? []
+  const hasHeader = header.includes('artist') && header.includes('track')
+
+  const column = (name: string, fallback: number) =>
+    hasHeader ? header.indexOf(name) : fallback
+
+  const artistCol = column('artist', 0)
+  const albumCol = column('album', 1)
+  const trackCol = column('track', 2)
+  const utsCol = hasHeader ? header.indexOf('uts') : -1
+  const dateCol = hasHeader
+    ? ['utc_time', 'date', 'time']
+        .map((h) => header.indexOf(h))
+        .find((i) => i >= 0)
+    : 3
+
+  const scrobbles: Scrobble[] = []
+  for (const row of hasHeader ? rows.slice(1) : rows) {
+    const playedAt =
+      parsePlayedAt(utsCol >= 0 ? row[utsCol] : undefined) ??
+      parsePlayedAt(dateCol !== undefined ? row[dateCol] : undefined)
+    if (!playedAt) {
+      d('skipping row without a valid date: %o', row)
+      continue
+    }
+
+    scrobbles.push({
+      artist: row[artistCol]?.trim() ?? '',
+      album: (albumCol >= 0 ? row[albumCol]?.trim() : undefined) ?? '',
+      track: row[trackCol]?.trim() ?? '',
+      playedAt,
+    })
+  }
+
+  return scrobbles
+}
+
+function textOf(
+  value: { '#text'?: string; name?: string } | string | undefined
+) {
+  if (typeof value === 'string') {
+    return value
+  }
+  return value?.['#text'] ?? value?.name ?? ''
+}
+
+/**
+ * Parses a JSON export: either a flat array of tracks, or the pages of
+ * user.getRecentTracks responses that JSON dump tools save.
+ */
+function parseJsonScrobbles(data: unknown): Scrobble[] {
+  const tracks: LastfmApiTrack[] = []
+
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        collect(item)
+      }
+      return
+    }
+    if (!value || typeof value !== 'object') {
+      return
+    }
+
+    const page = value as {
+      recenttracks?: { track?: unknown }
+      track?: unknown
+    }
+    if (page.recenttracks) {
+      collect(page.recenttracks.track)
+    } else if (Array.isArray(page.track)) {
+      collect(page.track)
+    } else {
+      tracks.push(value as LastfmApiTrack)
+    }
+  }
+  collect(data)
+
+  const scrobbles: Scrobble[] = []
+  for (const track of tracks) {
+    if (track['@attr']?.nowplaying === 'true') {
+      continue
+    }
+
+    const date = typeof track.date === 'object' ? track.date?.uts : track.date
+    const playedAt = parsePlayedAt(track.uts ?? track.timestamp ?? date)
+    if (!playedAt) {
+      d('skipping track without a valid date: %o', track)
+      continue
+    }
+
+    scrobbles.push({
+      artist: textOf(track.artist),
+      album: textOf(track.album),
+      track: track.name ?? track.track ?? '',
+      playedAt,
+    })
+  }
+
+  return scrobbles
+}
+
+/**
+ * Counts occurrences of each key and returns the most common, most played
+ * first (ties broken alphabetically so output is stable across re-imports).
+ */
+function topCounts(keys: string[], limit: number): PlayCount[] {
+  const counts = new Map<string, number>()
+  for (const key of keys) {
+    counts.set(key, (counts.get(key) ?? 0) + 1)
+  }
+
+  return [...counts.entries()]
+    .map(([name, plays]) => ({ name, plays }))
+    .sort((a, b) => b.plays - a.plays || a.name.localeCompare(b.name))
+    .slice(0, limit)
+}
+
+/**
+ * Formats a day's scrobbles as a compact listening digest.
+ */
+function formatDigest(
+  scrobbles: Scrobble[],
+  topArtists: PlayCount[],
+  topTracks: PlayCount[],
+  first: DateTime,
+  last: DateTime
+): string {
+  const lines = [
+    `Total plays: ${scrobbles.length}`,
+    `First listen: ${first.toFormat('HH:mm')}`,
+    `Last listen: ${last.toFormat('HH:mm')}`,
+    '',
+    'Top artists:',
+    ...topArtists.map((a) => `- ${a.name} (${a.plays})`),
+    '',
+    'Top tracks:',
+    ...topTracks.map((t) => `- ${t.name} (${t.plays})`),
+  ]
+
+  return lines.join('\n')
+}
+
+/**
+ * Imports Last.fm scrobble history from a CSV or JSON export.
+ *
+ * Scrobbles are grouped by day into a single listening digest Memory rather
+ * than one Memory per play. Last.fm only records UTC instants, so days are
+ * split in `options.zone` (UTC by default) rather than the importing
+ * machine's zone, which would give different days on every machine, and the
+ * zone is recorded in each memory's metadata.
+ *
+ * Output format:
+ * Total plays / First listen / Last listen, then Top artists and Top tracks
+ */
+export async function importLastfmScrobbles(
+  filePath: string,
+  options: LastfmImportOptions = {}
+): Promise<NewMemory[]> {
+  const zone = options.zone ?? 'UTC'
+  if (!DateTime.now().setZone(zone).isValid) {
+    throw new Error(`Invalid zone: ${zone}`)
+  }
+  d('starting import from file: %s', filePath)
+
+  const text = await Bun.file(filePath).text()
+  d('read %d chars from file', text.length)
+
+  const trimmed = text.trimStart()
+  const scrobbles =
+    trimmed.startsWith('[') || trimmed.startsWith('{')
+      ? parseJsonScrobbles(JSON.parse(text))
+      : parseCsvScrobbles(text)
+
+  d('parsed %d scrobbles', scrobbles.length)
+
+  // Group scrobbles by day in the zone
+  const scrobblesByDay = new Map<string, Scrobble[]>()
+  for (const scrobble of scrobbles) {
+    scrobble.playedAt = scrobble.playedAt.setZone(zone)
+
+    const dayKey = scrobble.playedAt.toFormat('yyyy-MM-dd')
+    const existing = scrobblesByDay.get(dayKey) ?? []
+    existing.push(scrobble)
+    scrobblesByDay.set(dayKey, existing)
+  }
+
+  d('grouped scrobbles into %d days', scrobblesByDay.size)
+
+  const memories: NewMemory[] = []
+
+  for (const [dayKey, dayScrobbles] of scrobblesByDay) {
+    dayScrobbles.sort((a, b) => a.playedAt.toMillis() - b.playedAt.toMillis())
+
+    const first = dayScrobbles[0]
+    const last = dayScrobbles.at(-1)
+    if (!first || !last) {
+      continue
+    }
+
+    const firstListen = first.playedAt
+    const lastListen = last.playedAt
+
+    const topArtists = topCounts(
+      dayScrobbles.map((s) => s.artist),
+      TOP_COUNT
+    )
+    const topTracks = topCounts(
+      dayScrobbles.map((s) => `${s.artist} – ${s.track}`),
+      TOP_COUNT
+    )
+
+    memories.push({
+      source: 'lastfm',
+      sourceKey: dayKey,
+      memoryCreatedAt: firstListen,
+      title: `Last.fm: ${dayKey}`,
+      metadata: {
+        dayKey,
+        zone,
+        totalPlays: dayScrobbles.length,
+        uniqueArtists: new Set(dayScrobbles.map((s) => s.artist)).size,
+        uniqueTracks: new Set(
+          dayScrobbles.map((s) => `${s.artist}\u0000${s.track}`)
+        ).size,
+        firstListen: firstListen.toISO(),
+        lastListen: lastListen.toISO(),
+        topArtists: topArtists.map((a) => ({ ...a })),
+        topTracks: topTracks.map((t) => ({ ...t })),
+      },
+      content: formatDigest(
+        dayScrobbles,
+        topArtists,
+        topTracks,
+        firstListen,
+        lastListen
+      ),
+    })
+  }
+
+  // Sort memories by date (oldest first)
+  memories.sort(
+    (a, b) => a.memoryCreatedAt.toMillis() - b.memoryCreatedAt.toMillis()
+  )
+
+  d('import complete, created %d memories', memories.length)
+  return memories
+}
+
+export const lastfmImporter: ImporterDefinition = {
+  name: 'lastfm',
+  description: 'Last.fm scrobble export (.csv or .json)',
+  options: [
+    {
+      flags: '--zone <zone>',
+      description: "Zone to split days in, e.g. 'Europe/Berlin'",
+      defaultValue: 'UTC',
+    },
+  ],
+  run: (path, options) => {
+    const zone = options['zone']
+    return streamAll(
+      importLastfmScrobbles(path, {
+        ...(typeof zone === 'string' && { zone }),
+      })
+    )
+  },
+}
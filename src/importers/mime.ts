@@ -0,0 +1,35 @@
+import { extname } from 'node:path'
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.heic': 'image/heic',
+  '.heif': 'image/heif',
+  '.svg': 'image/svg+xml',
+  '.bmp': 'image/bmp',
+  '.avif': 'image/avif',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.ogg': 'audio/ogg',
+  '.wav': 'audio/wav',
+  '.flac': 'audio/flac',
+  '.aac': 'audio/aac',
+  '.3gp': 'audio/3gpp',
+  '.pdf': 'application/pdf',
+}
+
+/**
+ * Guesses a MIME type from a file's extension, for blobs pulled out of
+ * archives where there's no Content-Type to go on.
+ */
+export function getMimeType(filename: string): string {
+  return (
+    MIME_TYPES[extname(filename).toLowerCase()] ?? 'application/octet-stream'
+  )
+}
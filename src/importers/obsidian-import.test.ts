@@ -1,5 +1,30 @@
-import { describe, expect, test } from 'bun:test'
-import { importObsidianNotes } from './obsidian-import'
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from 'bun:test'
+import {
+  mkdir,
+  mkdtemp,
+  realpath,
+  rename,
+  rm,
+  stat,
+  utimes,
+  writeFile,
+} from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { Kysely } from 'kysely'
+import { Settings } from 'luxon'
+import { importData } from '../db-operations'
+import { recordImportRun, undoImportRun } from '../import-runs'
+import { createDatabase, type DatabaseSchema } from '../types'
+import { importObsidianNotes, syncObsidianVault } from './obsidian-import'
 
 const OBSIDIAN_VAULT_PATH = process.env['OBSIDIAN_TEST_VAULT_PATH']
 
@@ -7,7 +32,9 @@ describe('importObsidianNotes', () => {
   test.skipIf(!OBSIDIAN_VAULT_PATH)(
     'imports notes from Obsidian vault',
     async () => {
-      const memories = await importObsidianNotes(OBSIDIAN_VAULT_PATH!)
+      const memories = await Array.fromAsync(
+        importObsidianNotes(OBSIDIAN_VAULT_PATH!)
+      )
 
       expect(memories.length).toBeGreaterThan(0)
 
@@ -21,3 +48,459 @@ describe('importObsidianNotes', () => {
     }
   )
 })
+
+describe('importObsidianNotes with frontmatter', () => {
+  let vault: string
+  let defaultZone: typeof Settings.defaultZone
+
+  const notes: Record<string, string> = {
+    'Projects/Istoria.md': [
+      '---',
+      'title: Istoria plan',
+      'aliases: [Istoria]',
+      'tags: [project, "#ideas"]',
+      'created: 2024-11-02T10:15:00+01:00',
+      'status: active',
+      '---',
+      'Plan for #istoria and #ideas. %%todo: ask Sam%%',
+      '',
+      '```sh',
+      'grep "#notatag" file',
+      '```',
+      'Issue #123 is not a tag, #2025/q1 is.',
+    ].join('\n'),
+    'Daily/2025-03-04.md': [
+      '---',
+      'aliases:',
+      '  - Tuesday',
+      'date: 2025-03-05',
+      '---',
+      'Went hiking.',
+      '%%',
+      'Private thoughts',
+      '%%',
+      'Came home.',
+    ].join('\n'),
+    'Daily/2025-03-06.md': 'No frontmatter here',
+    'Journal/Secret.md': '---\nprivate: true\n---\nDo not import',
+    'Journal/Hidden.md': '---\nhidden: yes\n---\nOnly private by option',
+    'Broken.md': '---\n: [unclosed\n---\nBody',
+    'Links.md': [
+      'See [[Projects/Istoria|the plan]] and [[#Tasks]].',
+      '![[Daily/2025-03-04#^walk]]',
+      '`[[not a link]]`',
+    ].join('\n'),
+  }
+
+  beforeAll(async () => {
+    defaultZone = Settings.defaultZone
+    Settings.defaultZone = 'UTC'
+
+    vault = await mkdtemp(join(tmpdir(), 'istoria-obsidian-'))
+    for (const [path, text] of Object.entries(notes)) {
+      await mkdir(join(vault, path, '..'), { recursive: true })
+      await writeFile(join(vault, path), text)
+    }
+  })
+
+  afterAll(async () => {
+    Settings.defaultZone = defaultZone
+    await rm(vault, { recursive: true, force: true })
+  })
+
+  const importVault = async (privateProperty?: string) => {
+    const memories = await Array.fromAsync(
+      importObsidianNotes(vault, privateProperty ? { privateProperty } : {})
+    )
+    return new Map(memories.map((m) => [m.sourceKey, m]))
+  }
+
+  test('moves frontmatter into metadata and collects tags', async () => {
+    const memory = (await importVault()).get('Projects/Istoria.md')!
+
+    expect(memory.title).toBe('Istoria plan')
+    expect(memory.memoryCreatedAt.toISO()).toBe('2024-11-02T09:15:00.000Z')
+    expect(memory.metadata).toEqual({
+      title: 'Istoria plan',
+      aliases: ['Istoria'],
+      tags: ['project', 'ideas', 'istoria', '2025/q1'],
+      created: '2024-11-02T10:15:00+01:00',
+      status: 'active',
+      originalPath: 'Projects/Istoria.md',
+    })
+    expect(memory.content).not.toContain('---')
+    expect(memory.content).toStartWith('Plan for #istoria and #ideas. \n')
+    expect(memory.content).not.toContain('ask Sam')
+  })
+
+  test('prefers frontmatter dates and aliases over the filename', async () => {
+    const memory = (await importVault()).get('Daily/2025-03-04.md')!
+
+    expect(memory.title).toBe('Tuesday')
+    expect(memory.memoryCreatedAt.toISODate()).toBe('2025-03-05')
+    expect(memory.content).toBe('Went hiking.\n\nCame home.')
+  })
+
+  test('leaves notes without frontmatter alone', async () => {
+    const memory = (await importVault()).get('Daily/2025-03-06.md')!
+
+    expect(memory.title).toBe('2025-03-06')
+    expect(memory.metadata).toEqual({ originalPath: 'Daily/2025-03-06.md' })
+    expect(memory.content).toBe('No frontmatter here')
+  })
+
+  test('keeps invalid frontmatter as text', async () => {
+    const memory = (await importVault()).get('Broken.md')!
+
+    expect(memory.content).toBe(notes['Broken.md']!)
+  })
+
+  test('records wikilinks and embeds', async () => {
+    const memory = (await importVault()).get('Links.md')!
+
+    expect(memory.links).toEqual([
+      {
+        linkType: 'link',
+        target: 'Projects/Istoria',
+        anchorText: 'the plan',
+        raw: '[[Projects/Istoria|the plan]]',
+      },
+      { linkType: 'link', target: '', subpath: '#Tasks', raw: '[[#Tasks]]' },
+      {
+        linkType: 'embed',
+        target: 'Daily/2025-03-04',
+        subpath: '#^walk',
+        raw: '![[Daily/2025-03-04#^walk]]',
+      },
+    ])
+  })
+
+  test('skips private notes using a configurable property', async () => {
+    const byDefault = await importVault()
+    expect(byDefault.has('Journal/Secret.md')).toBe(false)
+    expect(byDefault.has('Journal/Hidden.md')).toBe(true)
+
+    const custom = await importVault('hidden')
+    expect(custom.has('Journal/Secret.md')).toBe(true)
+    expect(custom.has('Journal/Hidden.md')).toBe(false)
+  })
+})
+
+describe('importObsidianNotes with attachments', () => {
+  let vault: string
+  let defaultZone: typeof Settings.defaultZone
+
+  const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+  const PDF = new TextEncoder().encode(
+    '%PDF-1.4\n1 0 obj\n<< /Length 24 >>\nstream\nBT (Boarding pass) Tj ET\nendstream\nendobj\n%%EOF\n'
+  )
+
+  const files: Record<string, string | Uint8Array> = {
+    'Trip.md': [
+      'Screenshot: ![[Pasted image 20250304.png]]',
+      'Ticket: [[Documents/ticket.pdf]]',
+      'Missing: ![[gone.png]]',
+    ].join('\n'),
+    'assets/Pasted image 20250304.png': PNG,
+    'Documents/ticket.pdf': PDF,
+    'assets/Recording 20250305.m4a': new Uint8Array([1, 2, 3]),
+    'Elsewhere/unused.png': PNG,
+    'Elsewhere/notes.txt': 'not an attachment',
+    '.obsidian/app.json': JSON.stringify({ attachmentFolderPath: 'assets' }),
+  }
+
+  beforeAll(async () => {
+    defaultZone = Settings.defaultZone
+    Settings.defaultZone = 'UTC'
+
+    vault = await mkdtemp(join(tmpdir(), 'istoria-obsidian-'))
+    for (const [path, data] of Object.entries(files)) {
+      await mkdir(join(vault, path, '..'), { recursive: true })
+      await writeFile(join(vault, path), data)
+    }
+  })
+
+  afterAll(async () => {
+    Settings.defaultZone = defaultZone
+    await rm(vault, { recursive: true, force: true })
+  })
+
+  const importVault = async (attachmentFolder?: string) => {
+    const memories = await Array.fromAsync(
+      importObsidianNotes(
+        vault,
+        attachmentFolder !== undefined ? { attachmentFolder } : {}
+      )
+    )
+    return new Map(memories.map((m) => [m.sourceKey, m]))
+  }
+
+  test('imports linked attachments and the attachment folder', async () => {
+    const memories = await importVault()
+
+    expect([...memories.keys()].sort()).toEqual([
+      'Documents/ticket.pdf',
+      'Trip.md',
+      'assets/Pasted image 20250304.png',
+      'assets/Recording 20250305.m4a',
+    ])
+
+    const image = memories.get('assets/Pasted image 20250304.png')!
+    expect(image.title).toBe('Pasted image 20250304.png')
+    expect(image.content).toBeNull()
+    expect(image.contentBlob).toEqual(PNG)
+    expect(image.metadata).toEqual({
+      originalPath: 'assets/Pasted image 20250304.png',
+      fileName: 'Pasted image 20250304.png',
+      mimeType: 'image/png',
+      size: PNG.byteLength,
+      sha256: new Bun.CryptoHasher('sha256').update(PNG).digest('hex'),
+    })
+
+    const recording = memories.get('assets/Recording 20250305.m4a')!
+    expect(recording.metadata?.['mimeType']).toBe('audio/mp4')
+  })
+
+  test('extracts text from PDFs', async () => {
+    const pdf = (await importVault()).get('Documents/ticket.pdf')!
+
+    expect(pdf.content).toBe('Boarding pass')
+    expect(pdf.metadata?.['mimeType']).toBe('application/pdf')
+  })
+
+  test('takes the attachment folder from the options', async () => {
+    const memories = await importVault('Elsewhere')
+
+    expect(memories.has('Elsewhere/unused.png')).toBe(true)
+    expect(memories.has('Elsewhere/notes.txt')).toBe(false)
+    expect(memories.has('assets/Recording 20250305.m4a')).toBe(false)
+    expect(memories.has('assets/Pasted image 20250304.png')).toBe(true)
+  })
+
+  test('links notes to the attachments they embed', async () => {
+    const [db, cleanup] = await createDatabase(':memory:')
+    try {
+      await importData(db, importObsidianNotes(vault))
+
+      const links = await db
+        .selectFrom('memory_link')
+        .leftJoin('memory', 'memory.id', 'memory_link.targetId')
+        .select(['memory_link.raw', 'memory.sourceKey'])
+        .orderBy('memory_link.id')
+        .execute()
+      expect(links.map((link) => [link.raw, link.sourceKey])).toEqual([
+        ['![[Pasted image 20250304.png]]', 'assets/Pasted image 20250304.png'],
+        ['[[Documents/ticket.pdf]]', 'Documents/ticket.pdf'],
+        ['![[gone.png]]', null],
+      ])
+    } finally {
+      await cleanup()
+    }
+  })
+})
+
+describe('syncObsidianVault', () => {
+  let vault: string
+  let db: Kysely<DatabaseSchema>
+  let cleanup: () => Promise<void>
+
+  const write = async (path: string, text: string) => {
+    await mkdir(join(vault, path, '..'), { recursive: true })
+    await writeFile(join(vault, path), text)
+  }
+
+  const memoryIds = async () =>
+    new Map(
+      (await db.selectFrom('memory').select(['sourceKey', 'id']).execute()).map(
+        (row) => [row.sourceKey, row.id]
+      )
+    )
+
+  beforeEach(async () => {
+    vault = await mkdtemp(join(tmpdir(), 'istoria-obsidian-'))
+    await write('A.md', 'Links to [[B]] and [[C]]\n![[image.png]]')
+    await write('B.md', 'Note B')
+    await write('C.md', 'Note C')
+    await write('image.png', 'not really a png')
+    ;[db, cleanup] = await createDatabase(':memory:')
+  })
+
+  afterEach(async () => {
+    await cleanup()
+    await rm(vault, { recursive: true, force: true })
+  })
+
+  test('adds everything on the first sync', async () => {
+    const result = await syncObsidianVault(db, vault)
+
+    expect(result.inserted).toBe(4)
+    expect(result.summary.added.sort()).toEqual([
+      'A.md',
+      'B.md',
+      'C.md',
+      'image.png',
+    ])
+    expect(
+      await db
+        .selectFrom('import_state')
+        .select('path')
+        .orderBy('path')
+        .execute()
+    ).toEqual([
+      { path: 'A.md' },
+      { path: 'B.md' },
+      { path: 'C.md' },
+      { path: 'image.png' },
+    ])
+  })
+
+  test('skips files whose size and mtime are unchanged', async () => {
+    await syncObsidianVault(db, vault)
+
+    // Same size and mtime, so the edit goes unnoticed unless re-read
+    const { mtime } = await stat(join(vault, 'B.md'))
+    await writeFile(join(vault, 'B.md'), 'Note X')
+    await utimes(join(vault, 'B.md'), mtime, mtime)
+
+    const result = await syncObsidianVault(db, vault)
+    expect(result).toEqual({
+      inserted: 0,
+      updated: 0,
+      unchanged: 4,
+      summary: { added: [], changed: [], moved: [], removed: [] },
+    })
+
+    const full = await syncObsidianVault(db, vault, { full: true })
+    expect(full.updated).toBe(1)
+    expect(full.summary.changed).toEqual(['B.md'])
+  })
+
+  test('reports added, changed, moved and removed files', async () => {
+    await syncObsidianVault(db, vault)
+    const before = await memoryIds()
+
+    await write('B.md', 'Note B, edited')
+    await mkdir(join(vault, 'Archive'))
+    await rename(join(vault, 'C.md'), join(vault, 'Archive', 'C.md'))
+    await rm(join(vault, 'image.png'))
+    await write('D.md', 'New note')
+
+    const result = await syncObsidianVault(db, vault)
+    expect(result.summary).toEqual({
+      added: ['D.md'],
+      changed: ['B.md'],
+      moved: [{ from: 'C.md', to: 'Archive/C.md' }],
+      removed: ['image.png'],
+    })
+
+    // The moved note keeps its memory, and so the links to it
+    const after = await memoryIds()
+    expect([...after.keys()].sort()).toEqual([
+      'A.md',
+      'Archive/C.md',
+      'B.md',
+      'D.md',
+    ])
+    expect(after.get('Archive/C.md')).toBe(before.get('C.md')!)
+    const linkToC = await db
+      .selectFrom('memory_link')
+      .select('targetId')
+      .where('raw', '=', '[[C]]')
+      .executeTakeFirstOrThrow()
+    expect(linkToC.targetId).toBe(before.get('C.md')!)
+  })
+
+  test('removes notes that have been marked private', async () => {
+    await syncObsidianVault(db, vault)
+    await write('B.md', '---\nprivate: true\n---\nNote B')
+
+    const result = await syncObsidianVault(db, vault)
+    expect(result.summary.removed).toEqual(['B.md'])
+    expect((await memoryIds()).has('B.md')).toBe(false)
+  })
+
+  test('leaves the notes of other vaults alone', async () => {
+    const other = await mkdtemp(join(tmpdir(), 'istoria-obsidian-'))
+    try {
+      await writeFile(join(other, 'Journal.md'), 'Another vault')
+      await syncObsidianVault(db, vault)
+
+      const result = await syncObsidianVault(db, other)
+      expect(result.summary).toEqual({
+        added: ['Journal.md'],
+        changed: [],
+        moved: [],
+        removed: [],
+      })
+      expect((await syncObsidianVault(db, vault)).summary.removed).toEqual([])
+      expect([...(await memoryIds()).keys()].sort()).toEqual([
+        'A.md',
+        'B.md',
+        'C.md',
+        'Journal.md',
+        'image.png',
+      ])
+    } finally {
+      await rm(other, { recursive: true, force: true })
+    }
+  })
+
+  test('claims files recorded without a vault when it has them', async () => {
+    await syncObsidianVault(db, vault)
+    await db.updateTable('import_state').set({ root: null }).execute()
+    await rm(join(vault, 'C.md'))
+
+    const result = await syncObsidianVault(db, vault)
+    expect(result.summary.removed).toEqual([])
+    expect(
+      await db
+        .selectFrom('import_state')
+        .select(['path', 'root'])
+        .orderBy('path')
+        .execute()
+    ).toEqual([
+      { path: 'A.md', root: await realpath(vault) },
+      { path: 'B.md', root: await realpath(vault) },
+      { path: 'C.md', root: null },
+      { path: 'image.png', root: await realpath(vault) },
+    ])
+  })
+
+  test('undoing a sync brings back moved and removed notes', async () => {
+    await recordImportRun(db, 'obsidian', vault, {}, (options) =>
+      syncObsidianVault(db, vault, {}, options)
+    )
+    const before = await memoryIds()
+
+    await write('B.md', 'Note B, edited')
+    await mkdir(join(vault, 'Archive'))
+    await rename(join(vault, 'C.md'), join(vault, 'Archive', 'C.md'))
+    await rm(join(vault, 'image.png'))
+    await write('D.md', 'New note')
+    const { runId } = await recordImportRun(
+      db,
+      'obsidian',
+      vault,
+      {},
+      (options) => syncObsidianVault(db, vault, {}, options)
+    )
+
+    expect(await undoImportRun(db, runId)).toEqual({
+      deleted: 1,
+      restored: 3,
+      skipped: 0,
+    })
+    expect(await memoryIds()).toEqual(before)
+    const b = await db
+      .selectFrom('memory')
+      .select('content')
+      .where('sourceKey', '=', 'B.md')
+      .executeTakeFirstOrThrow()
+    expect(b.content).toBe('Note B')
+
+    // Undone items are read again by the next sync
+    expect(
+      await db.selectFrom('import_state').select('path').execute()
+    ).toEqual([{ path: 'A.md' }])
+  })
+})
@@ -1,9 +1,29 @@
-import { stat } from 'node:fs/promises'
-import { basename, join } from 'node:path'
+import type { Stats } from 'node:fs'
+import { readFile, realpath, stat } from 'node:fs/promises'
+import { basename, extname, join } from 'node:path'
 import { Glob } from 'bun'
 import createDebug from 'debug'
+import type { Kysely, Transaction } from 'kysely'
 import { DateTime } from 'luxon'
-import type { NewMemory } from '../types'
+import { type ImportOptions, importData } from '../db-operations'
+import { snapshotMemories } from '../import-runs'
+import {
+  deleteImportState,
+  getImportState,
+  hashContent,
+  type ItemState,
+  type SyncResult,
+  saveImportState,
+} from '../import-state'
+import type { ImporterDefinition } from '../registry'
+import type {
+  DatabaseSchema,
+  ImportedMemory,
+  JsonValue,
+  LinkReference,
+} from '../types'
+import { getMimeType } from './mime'
+import { extractPdfText } from './pdf'
 
 const d = createDebug('istoria:obsidian')
 
@@ -14,6 +34,298 @@ const YYYY_MM_DD_REGEX = /^(\d{4}-\d{2}-\d{2})/
 const ISO_DATETIME_REGEX =
   /^(\d{4}-?\d{2}-?\d{2}T\d{2}:?\d{2}:?\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?)/
 
+// YAML frontmatter: a block fenced by --- lines at the very start of a note
+const FRONTMATTER_REGEX = /^---\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/
+
+// Obsidian comments (%% ... %%), which can span lines
+const COMMENT_REGEX = /%%[\s\S]*?%%/g
+
+// Code is skipped when collecting tags, so "#include" isn't a tag
+const CODE_REGEX = /```[\s\S]*?```|`[^`\n]*`/g
+
+// Inline #tags; Obsidian requires at least one non-numeric character
+const TAG_REGEX = /(?:^|\s)#([\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*)/gu
+
+// [[wikilinks]] and ![[embeds]], with an optional #heading or #^block
+// reference and |display text
+const LINK_REGEX = /(!?)\[\[([^[\]|#\n]*)(#[^[\]|\n]*)?(?:\|([^[\]\n]*))?\]\]/g
+
+// Frontmatter properties that set the note's date, in order of precedence
+const DATE_PROPERTIES = ['date', 'created']
+
+// Files imported as attachments: images, PDFs and audio (including the .webm
+// and .m4a files Obsidian's audio recorder creates)
+const ATTACHMENT_EXTENSIONS = new Set([
+  '.png',
+  '.jpg',
+  '.jpeg',
+  '.gif',
+  '.webp',
+  '.bmp',
+  '.avif',
+  '.heic',
+  '.heif',
+  '.svg',
+  '.pdf',
+  '.mp3',
+  '.m4a',
+  '.ogg',
+  '.wav',
+  '.flac',
+  '.aac',
+  '.3gp',
+  '.webm',
+])
+
+export interface ObsidianImportOptions {
+  // Notes whose frontmatter sets this property to true are skipped
+  privateProperty?: string
+  // Folder (relative to the vault) whose attachments are all imported, even
+  // if no note embeds them. Defaults to the vault's "Default location for
+  // new attachments" setting when that is a fixed folder.
+  attachmentFolder?: string
+  // Called before each file is read; files it returns false for are skipped.
+  // Used by syncObsidianVault to skip files that haven't changed
+  shouldRead?: (file: VaultFile) => boolean
+  // Called with the content hash of each file read
+  onRead?: (file: ItemState) => void
+  // Link targets from notes that weren't read, so that the attachments they
+  // link to are still imported
+  linkedTargets?: Iterable<string>
+}
+
+export interface ObsidianSyncOptions
+  extends Pick<ObsidianImportOptions, 'privateProperty' | 'attachmentFolder'> {
+  // Re-read every file, even those unchanged since the last sync
+  full?: boolean
+}
+
+// A note or attachment in a vault, as found on disk
+export interface VaultFile {
+  path: string
+  size: number
+  // Modification time in milliseconds since the epoch
+  mtime: number
+}
+
+interface ParsedNote {
+  frontmatter: Record<string, JsonValue>
+  body: string
+}
+
+/**
+ * Splits a note into its YAML frontmatter and body. Notes without
+ * frontmatter, or whose frontmatter isn't a valid YAML mapping, are returned
+ * whole with empty frontmatter.
+ */
+function parseFrontmatter(text: string): ParsedNote {
+  const match = text.match(FRONTMATTER_REGEX)
+  if (!match) {
+    return { frontmatter: {}, body: text }
+  }
+
+  let parsed: unknown
+  try {
+    parsed = Bun.YAML.parse(match[1] ?? '')
+  } catch (error) {
+    d('failed to parse frontmatter: %O', error)
+    return { frontmatter: {}, body: text }
+  }
+
+  const body = text.slice(match[0].length)
+  if (parsed === null || parsed === undefined) {
+    return { frontmatter: {}, body }
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    d('frontmatter is not a mapping, leaving it in place')
+    return { frontmatter: {}, body: text }
+  }
+
+  // Round-trip through JSON so the values are plain JSON
+  return { frontmatter: JSON.parse(JSON.stringify(parsed)), body }
+}
+
+/**
+ * Normalizes a frontmatter property that may be a single string or a list
+ * (e.g. tags or aliases) into a list of non-empty strings.
+ */
+function toStringList(value: JsonValue | undefined): string[] {
+  const values = Array.isArray(value) ? value : [value]
+  return values
+    .filter((v) => typeof v === 'string' || typeof v === 'number')
+    .map((v) => String(v).trim())
+    .filter(Boolean)
+}
+
+/**
+ * Collects inline #tags from a note body, ignoring code.
+ */
+function extractInlineTags(body: string): string[] {
+  const text = body.replace(CODE_REGEX, '')
+  return [...text.matchAll(TAG_REGEX)].map((match) => match[1] ?? '')
+}
+
+/**
+ * Collects [[wikilinks]] and ![[embeds]] from a note body, ignoring code.
+ * Targets are resolved to memories once the vault has been imported.
+ */
+function extractLinks(body: string): LinkReference[] {
+  const text = body.replace(CODE_REGEX, '')
+  return [...text.matchAll(LINK_REGEX)].map((match) => {
+    const [raw, bang, target = '', subpath, anchorText] = match
+    const link: LinkReference = {
+      linkType: bang ? 'embed' : 'link',
+      target: target.trim(),
+      raw,
+    }
+    if (subpath && subpath.length > 1) {
+      link.subpath = subpath.trim()
+    }
+    if (anchorText?.trim()) {
+      link.anchorText = anchorText.trim()
+    }
+    return link
+  })
+}
+
+/**
+ * Normalizes a vault path or link target for matching attachments against
+ * the links that reference them, the way link targets are resolved.
+ */
+function normalizePath(path: string): string {
+  return path
+    .trim()
+    .toLowerCase()
+    .replace(/^\.?\//, '')
+    .replace(/\/+$/, '')
+}
+
+function isAttachment(path: string): boolean {
+  return ATTACHMENT_EXTENSIONS.has(extname(path).toLowerCase())
+}
+
+/**
+ * Reads the vault's attachment folder from .obsidian/app.json. Returns
+ * undefined when attachments go in the vault root or next to each note
+ * ("./" paths), as those folders hold notes too.
+ */
+async function readAttachmentFolder(
+  rootDir: string
+): Promise<string | undefined> {
+  let config: { attachmentFolderPath?: unknown }
+  try {
+    config = JSON.parse(
+      await readFile(join(rootDir, '.obsidian', 'app.json'), 'utf-8')
+    )
+  } catch (error) {
+    d('no attachment folder setting: %O', error)
+    return undefined
+  }
+  const folder = config.attachmentFolderPath
+  if (typeof folder !== 'string' || folder.startsWith('./')) {
+    return undefined
+  }
+  return normalizePath(folder) || undefined
+}
+
+/**
+ * Reads an attachment into a memory holding the file itself, with its MIME
+ * type, size and hash in metadata. Text is extracted from PDFs so they can be
+ * searched and exported; other attachments have no content.
+ */
+async function readAttachment(
+  relativePath: string,
+  fileStat: Stats,
+  data: Uint8Array
+): Promise<ImportedMemory> {
+  const fileName = basename(relativePath)
+  const mimeType = getMimeType(fileName)
+
+  let content: string | null = null
+  if (mimeType === 'application/pdf') {
+    try {
+      content = extractPdfText(data) ?? null
+    } catch (error) {
+      d('failed to extract text from %s: %O', relativePath, error)
+    }
+  }
+
+  const memoryCreatedAt =
+    extractDateFromFilename(fileName) ?? DateTime.fromJSDate(fileStat.mtime)
+
+  return {
+    source: 'obsidian',
+    sourceKey: relativePath,
+    memoryCreatedAt,
+    title: fileName,
+    metadata: {
+      originalPath: relativePath,
+      fileName,
+      mimeType,
+      size: data.byteLength,
+      sha256: hashContent(data),
+    },
+    content,
+    contentBlob: data,
+  }
+}
+
+/**
+ * Reads a file unless options.shouldRead skips it, reporting its hash to
+ * options.onRead. Returns the file's stats and contents, or undefined if it
+ * was skipped.
+ */
+async function readVaultFile(
+  rootDir: string,
+  relativePath: string,
+  options: ObsidianImportOptions
+): Promise<[Stats, Uint8Array] | undefined> {
+  const fullPath = join(rootDir, relativePath)
+  const fileStat = await stat(fullPath)
+  const file = {
+    path: relativePath,
+    size: fileStat.size,
+    mtime: Math.trunc(fileStat.mtimeMs),
+  }
+  if (options.shouldRead && !options.shouldRead(file)) {
+    d('skipping unchanged file: %s', relativePath)
+    return undefined
+  }
+
+  const data = await Bun.file(fullPath).bytes()
+  d('read %d bytes from %s', data.byteLength, relativePath)
+  options.onRead?.({ ...file, contentHash: hashContent(data) })
+  return [fileStat, data]
+}
+
+function isTruthyProperty(value: JsonValue | undefined): boolean {
+  if (typeof value === 'string') {
+    return ['true', 'yes', '1'].includes(value.trim().toLowerCase())
+  }
+  return value === true || value === 1
+}
+
+/**
+ * Reads the note's date from its frontmatter, if it has a valid one.
+ * Dates without an offset are in local time, like filename dates.
+ */
+function extractDateFromFrontmatter(
+  frontmatter: Record<string, JsonValue>
+): DateTime | null {
+  for (const property of DATE_PROPERTIES) {
+    const value = frontmatter[property]
+    if (typeof value !== 'string') {
+      continue
+    }
+    const parsed = DateTime.fromISO(value.trim().replace(' ', 'T'))
+    if (parsed.isValid) {
+      return parsed
+    }
+    d('ignoring invalid %s property: %s', property, value)
+  }
+  return null
+}
+
 /**
  * Extracts a date from a filename if it contains a timestamp.
  * Supports YYYY-MM-DD format (e.g., "2025-09-11.md") and ISO format.
@@ -61,18 +373,39 @@ function extractDateFromFilename(filename: string): DateTime | null {
 /**
  * Imports Obsidian notes from a directory.
  *
- * - Only reads Markdown (.md) files
+ * - Reads notes from Markdown (.md) files
  * - Ignores the .obsidian directory
- * - Uses filename timestamps (YYYY-MM-DD or ISO) for memoryCreatedAt when available,
- *   otherwise falls back to file mtime (modification time)
+ * - Moves YAML frontmatter into metadata, and skips notes whose frontmatter
+ *   marks them private (the `private` property by default)
+ * - Takes memoryCreatedAt from a frontmatter `date`/`created` property, then
+ *   filename timestamps (YYYY-MM-DD or ISO), otherwise falls back to file
+ *   mtime (modification time)
+ * - Takes the title from a frontmatter `title`, then the first alias, then
+ *   the filename
+ * - Collects frontmatter and inline #tags into a `tags` metadata list
+ * - Strips %% comments %% from content
+ * - Records [[wikilinks]] and ![[embeds]] as links to other notes
+ * - Imports images, PDFs and audio files that notes link to, or that are in
+ *   the attachment folder, as memories of their own holding the file
  * - All dates preserve timezone information
+ * - Notes are yielded as they're read, so vaults of any size can be imported
  */
-export async function importObsidianNotes(
-  rootDir: string
-): Promise<NewMemory[]> {
+export async function* importObsidianNotes(
+  rootDir: string,
+  options: ObsidianImportOptions = {}
+): AsyncGenerator<ImportedMemory> {
+  const privateProperty = options.privateProperty ?? 'private'
   d('starting import from directory: %s', rootDir)
   const glob = new Glob('**/*.md')
-  const memories: NewMemory[] = []
+  let count = 0
+
+  // Attachments linked from imported notes, as normalized link targets
+  const referenced = new Set<string>()
+  for (const target of options.linkedTargets ?? []) {
+    if (isAttachment(target)) {
+      referenced.add(normalizePath(target))
+    }
+  }
 
   for await (const relativePath of glob.scan({
     cwd: rootDir,
@@ -85,19 +418,37 @@ export async function importObsidianNotes(
       continue
     }
 
-    const fullPath = join(rootDir, relativePath)
     const filename = basename(relativePath)
-    const title = basename(filename, '.md')
-    d('processing file: %s (title: %s)', relativePath, title)
+    d('processing file: %s', relativePath)
+
+    // Read the file content
+    const file = await readVaultFile(rootDir, relativePath, options)
+    if (!file) {
+      continue
+    }
+    const [fileStat, data] = file
+    const text = new TextDecoder().decode(data)
+
+    const { frontmatter, body } = parseFrontmatter(text)
+    if (isTruthyProperty(frontmatter[privateProperty])) {
+      d('skipping private note: %s', relativePath)
+      continue
+    }
 
-    // Try to extract date from filename, fall back to file mtime
+    const title =
+      toStringList(frontmatter['title'])[0] ??
+      toStringList(frontmatter['aliases'])[0] ??
+      basename(filename, '.md')
+
+    // Prefer the frontmatter date, then the filename, then file mtime
     let memoryCreatedAt: DateTime
-    const filenameDate = extractDateFromFilename(filename)
+    const noteDate =
+      extractDateFromFrontmatter(frontmatter) ??
+      extractDateFromFilename(filename)
 
-    if (filenameDate) {
-      memoryCreatedAt = filenameDate
+    if (noteDate) {
+      memoryCreatedAt = noteDate
     } else {
-      const fileStat = await stat(fullPath)
       // Convert JS Date to Luxon DateTime, preserving local timezone
       memoryCreatedAt = DateTime.fromJSDate(fileStat.mtime)
       d(
@@ -108,21 +459,362 @@ export async function importObsidianNotes(
       )
     }
 
-    // Read the file content
-    const content = await Bun.file(fullPath).text()
-    d('read %d bytes from %s', content.length, relativePath)
+    const content = body.replace(COMMENT_REGEX, '')
+    const tags = new Set(
+      [...toStringList(frontmatter['tags']), ...extractInlineTags(content)].map(
+        (tag) => tag.replace(/^#/, '')
+      )
+    )
+
+    const metadata: Record<string, JsonValue> = {
+      ...frontmatter,
+      originalPath: relativePath,
+    }
+    if (tags.size > 0) {
+      metadata['tags'] = [...tags]
+    }
+
+    const links = extractLinks(content)
+    for (const link of links) {
+      if (isAttachment(link.target)) {
+        referenced.add(normalizePath(link.target))
+      }
+    }
 
-    memories.push({
+    count++
+    yield {
       source: 'obsidian',
+      sourceKey: relativePath,
       memoryCreatedAt,
       title,
-      metadata: {
-        originalPath: relativePath,
-      },
+      metadata,
       content,
+      links,
+    }
+  }
+
+  d('import complete, found %d notes', count)
+  yield* importAttachments(rootDir, referenced, options)
+}
+
+/**
+ * Imports the attachments in a vault that are linked from a note (by path or
+ * by file name) or that are in the attachment folder.
+ */
+async function* importAttachments(
+  rootDir: string,
+  referenced: Set<string>,
+  options: ObsidianImportOptions
+): AsyncGenerator<ImportedMemory> {
+  const folder =
+    options.attachmentFolder !== undefined
+      ? normalizePath(options.attachmentFolder)
+      : await readAttachmentFolder(rootDir)
+  d('importing attachments, attachment folder: %s', folder)
+  let count = 0
+
+  for await (const relativePath of new Glob('**/*').scan({
+    cwd: rootDir,
+    dot: false,
+    onlyFiles: true,
+  })) {
+    if (!isAttachment(relativePath)) {
+      continue
+    }
+
+    const path = normalizePath(relativePath)
+    const parts = path.split('/')
+    const isReferenced = parts.some((_, i) =>
+      referenced.has(parts.slice(i).join('/'))
+    )
+    const inFolder = folder ? path.startsWith(`${folder}/`) : false
+    if (!isReferenced && !inFolder) {
+      d('skipping unreferenced attachment: %s', relativePath)
+      continue
+    }
+
+    const file = await readVaultFile(rootDir, relativePath, options)
+    if (!file) {
+      continue
+    }
+    count++
+    yield readAttachment(relativePath, ...file)
+  }
+
+  d('found %d attachments', count)
+}
+
+/**
+ * Lists the notes and possible attachments in a vault, without reading them.
+ */
+async function scanVault(rootDir: string): Promise<VaultFile[]> {
+  const files: VaultFile[] = []
+  for await (const relativePath of new Glob('**/*').scan({
+    cwd: rootDir,
+    dot: false,
+    onlyFiles: true,
+  })) {
+    if (!relativePath.endsWith('.md') && !isAttachment(relativePath)) {
+      continue
+    }
+    const fileStat = await stat(join(rootDir, relativePath))
+    files.push({
+      path: relativePath,
+      size: fileStat.size,
+      mtime: Math.trunc(fileStat.mtimeMs),
     })
   }
+  return files
+}
+
+/**
+ * Matches files that are new since the last sync to recorded files that are
+ * gone, by content hash, so moved and renamed notes keep their memory (and
+ * the links to it) rather than being removed and added again.
+ */
+async function findMoves(
+  rootDir: string,
+  newFiles: VaultFile[],
+  goneFiles: ItemState[]
+): Promise<{ from: string; to: string }[]> {
+  if (newFiles.length === 0 || goneFiles.length === 0) {
+    return []
+  }
+
+  const goneByHash = new Map<string, string[]>()
+  for (const file of goneFiles) {
+    const paths = goneByHash.get(file.contentHash) ?? []
+    paths.push(file.path)
+    goneByHash.set(file.contentHash, paths)
+  }
+
+  const moves: { from: string; to: string }[] = []
+  for (const file of newFiles) {
+    const data = await Bun.file(join(rootDir, file.path)).bytes()
+    const from = goneByHash.get(hashContent(data))?.shift()
+    if (from) {
+      d('%s moved to %s', from, file.path)
+      moves.push({ from, to: file.path })
+    }
+  }
+  return moves
+}
+
+/**
+ * Snapshots the memories at the given paths before a sync run moves or
+ * deletes them, so the run can be undone.
+ */
+async function snapshotByPath(
+  trx: Transaction<DatabaseSchema>,
+  source: string,
+  paths: string[],
+  importOptions: ImportOptions
+): Promise<void> {
+  if (importOptions.runId === undefined || paths.length === 0) {
+    return
+  }
+  const memories = await trx
+    .selectFrom('memory')
+    .select('id')
+    .where('source', '=', source)
+    .where('sourceKey', 'in', paths)
+    .execute()
+  await snapshotMemories(
+    trx,
+    importOptions.runId,
+    memories.map((memory) => memory.id)
+  )
+}
 
-  d('import complete, found %d notes', memories.length)
-  return memories
+/**
+ * Brings the Obsidian memories in the database up to date with a vault,
+ * using the state recorded by the last sync of it (see import-state):
+ *
+ * - Files whose size and mtime haven't changed aren't read again
+ * - Files that moved (a new path with the content of a file that's gone)
+ *   keep their memory, which is updated with the new path
+ * - Memories of files that are gone, or notes that have since been marked
+ *   private, are deleted
+ * - Only files recorded for this vault count as gone, so syncing another
+ *   vault leaves this one's memories alone
+ *
+ * Returns the import totals, with unchanged files counted as unchanged, and
+ * a summary of the notes and attachments added, changed, moved and removed.
+ */
+export async function syncObsidianVault(
+  db: Kysely<DatabaseSchema>,
+  rootDir: string,
+  options: ObsidianSyncOptions = {},
+  importOptions: ImportOptions = {}
+): Promise<SyncResult> {
+  const source = 'obsidian'
+  const root = await realpath(rootDir)
+  const files = await scanVault(rootDir)
+  const present = new Set(files.map((file) => file.path))
+  // Files recorded before roots were are taken to be this vault's if it has
+  // them, and are recorded under its root below
+  const state = new Map(
+    [...(await getImportState(db, source, root))].filter(
+      ([path, item]) => item.root !== null || present.has(path)
+    )
+  )
+  const existing = new Set(
+    (
+      await db
+        .selectFrom('memory')
+        .select('sourceKey')
+        .where('source', '=', source)
+        .execute()
+    ).map((row) => row.sourceKey)
+  )
+  d('syncing %d files against %d recorded', files.length, state.size)
+
+  const moved = await findMoves(
+    rootDir,
+    files.filter((file) => !state.has(file.path) && !existing.has(file.path)),
+    [...state.values()].filter(
+      (file) => !present.has(file.path) && existing.has(file.path)
+    )
+  )
+  const movedFrom = new Set(moved.map((move) => move.from))
+  const movedTo = new Set(moved.map((move) => move.to))
+  const gone = [...state.keys()].filter(
+    (path) => !present.has(path) && !movedFrom.has(path)
+  )
+
+  await db.transaction().execute(async (trx) => {
+    await snapshotByPath(trx, source, [...movedFrom, ...gone], importOptions)
+    for (const { from, to } of moved) {
+      await trx
+        .updateTable('memory')
+        .set({ sourceKey: to, importRunId: importOptions.runId ?? null })
+        .where('source', '=', source)
+        .where('sourceKey', '=', from)
+        .execute()
+    }
+    for (const path of gone) {
+      await trx
+        .deleteFrom('memory')
+        .where('source', '=', source)
+        .where('sourceKey', '=', path)
+        .execute()
+    }
+    await deleteImportState(trx, source, [...gone, ...movedFrom])
+  })
+
+  // Links from notes that won't be read, to find the attachments they embed
+  const linkedTargets = await db
+    .selectFrom('memory_link')
+    .innerJoin('memory', 'memory.id', 'memory_link.sourceId')
+    .select('memory_link.target')
+    .where('memory.source', '=', source)
+    .execute()
+
+  let skipped = 0
+  const read = new Map<string, ItemState>()
+  const imported = new Set<string>()
+  const memories = importObsidianNotes(rootDir, {
+    ...options,
+    shouldRead: (file) => {
+      const previous = state.get(file.path)
+      const unchanged =
+        !options.full &&
+        existing.has(file.path) &&
+        previous?.size === file.size &&
+        previous.mtime === file.mtime
+      if (unchanged) {
+        skipped++
+      }
+      return !unchanged
+    },
+    onRead: (file) => read.set(file.path, file),
+    linkedTargets: linkedTargets.map((link) => link.target),
+  })
+  const result = await importData(
+    db,
+    (async function* () {
+      for await (const memory of memories) {
+        imported.add(memory.sourceKey)
+        yield memory
+      }
+    })(),
+    importOptions
+  )
+
+  // Notes that were read but not imported have been marked private
+  const hidden = [...read.keys()].filter(
+    (path) => existing.has(path) && !imported.has(path)
+  )
+  await db.transaction().execute(async (trx) => {
+    await snapshotByPath(trx, source, hidden, importOptions)
+    for (const path of hidden) {
+      await trx
+        .deleteFrom('memory')
+        .where('source', '=', source)
+        .where('sourceKey', '=', path)
+        .execute()
+    }
+  })
+  const claimed = [...state.values()].filter(
+    (item) => item.root === null && !read.has(item.path)
+  )
+  await saveImportState(db, source, root, [...read.values(), ...claimed])
+
+  const summary = {
+    added: [...imported].filter(
+      (path) => !existing.has(path) && !movedTo.has(path)
+    ),
+    changed: [...imported].filter((path) => {
+      const previous = state.get(path)
+      return previous && previous.contentHash !== read.get(path)?.contentHash
+    }),
+    moved,
+    removed: [...gone.filter((path) => existing.has(path)), ...hidden],
+  }
+  d('sync summary: %O', summary)
+  return { ...result, unchanged: result.unchanged + skipped, summary }
+}
+
+export const obsidianImporter: ImporterDefinition = {
+  name: 'obsidian',
+  description: 'Obsidian vault (a folder of Markdown notes)',
+  options: [
+    {
+      flags: '--private-property <name>',
+      description: 'Skip notes whose frontmatter sets this property to true',
+      defaultValue: 'private',
+    },
+    {
+      flags: '--attachment-folder <path>',
+      description:
+        'Import every attachment in this folder, not just those linked from notes (defaults to the vault setting)',
+    },
+    {
+      flags: '--full',
+      description:
+        'Re-read every file, not just those changed since the last import',
+    },
+  ],
+  run: (path, options) => {
+    const privateProperty = options['privateProperty']
+    const attachmentFolder = options['attachmentFolder']
+    return importObsidianNotes(path, {
+      ...(typeof privateProperty === 'string' && { privateProperty }),
+      ...(typeof attachmentFolder === 'string' && { attachmentFolder }),
+    })
+  },
+  sync: (db, path, options, importOptions) => {
+    const privateProperty = options['privateProperty']
+    const attachmentFolder = options['attachmentFolder']
+    return syncObsidianVault(
+      db,
+      path,
+      {
+        ...(typeof privateProperty === 'string' && { privateProperty }),
+        ...(typeof attachmentFolder === 'string' && { attachmentFolder }),
+        full: options['full'] === true,
+      },
+      importOptions
+    )
+  },
 }
@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'bun:test'
+import { deflateSync } from 'node:zlib'
+import { extractPdfText } from './pdf'
+
+/**
+ * Builds a minimal PDF with one page per content stream. Cross-reference
+ * offsets aren't needed for text extraction, so they're left out.
+ */
+function buildPdf(
+  pages: string[],
+  options: { compress?: boolean } = {}
+): Uint8Array {
+  const parts: (string | Uint8Array)[] = ['%PDF-1.4\n']
+  pages.forEach((page, i) => {
+    const data = options.compress
+      ? deflateSync(Buffer.from(page, 'latin1'))
+      : Buffer.from(page, 'latin1')
+    const filter = options.compress ? ' /Filter /FlateDecode' : ''
+    parts.push(
+      `${i + 4} 0 obj\n<< /Length ${data.byteLength}${filter} >>\nstream\n`,
+      data,
+      '\nendstream\nendobj\n'
+    )
+  })
+  parts.push('trailer\n<< /Root 1 0 R >>\n%%EOF\n')
+  return Buffer.concat(
+    parts.map((part) =>
+      typeof part === 'string' ? Buffer.from(part, 'latin1') : part
+    )
+  )
+}
+
+describe('extractPdfText', () => {
+  test('extracts text shown by text operators', () => {
+    const pdf = buildPdf([
+      [
+        'BT /F1 12 Tf 72 720 Td',
+        '(Meeting notes) Tj',
+        '0 -14 Td [(Disc) 20 (ussed the) -300 (budget)] TJ',
+        'T* (Escaped \\(parens\\) and caf\\351) Tj',
+        '0 -14 Td <48656c6c6f> Tj',
+        'ET',
+      ].join('\n'),
+    ])
+
+    expect(extractPdfText(pdf)).toBe(
+      'Meeting notes\nDiscussed the budget\nEscaped (parens) and café\nHello'
+    )
+  })
+
+  test('inflates compressed streams and separates pages', () => {
+    const pdf = buildPdf(
+      ['BT (Page one) Tj ET', 'BT <FEFF00500061006700650020FF12> Tj ET'],
+      { compress: true }
+    )
+
+    expect(extractPdfText(pdf)).toBe('Page one\n\nPage ２')
+  })
+
+  test('returns undefined when there is no text', () => {
+    expect(extractPdfText(buildPdf(['0 0 m 100 100 l S']))).toBeUndefined()
+    expect(
+      extractPdfText(new TextEncoder().encode('not a pdf'))
+    ).toBeUndefined()
+  })
+})
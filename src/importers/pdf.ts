@@ -0,0 +1,269 @@
+import { constants, inflateSync } from 'node:zlib'
+import createDebug from 'debug'
+
+const d = createDebug('istoria:pdf')
+
+// A stream object's dictionary and data, e.g.
+// "<< /Length 42 /Filter /FlateDecode >> stream\r\n...\r\nendstream"
+const STREAM_REGEX = /<<((?:(?!>>\s*stream)[\s\S])*)>>\s*stream\r?\n/g
+
+// Streams that never hold page text
+const SKIPPED_STREAM_REGEX =
+  /\/Subtype\s*\/Image|\/Length[123]\b|\/Type\s*\/XRef/
+
+// Text-showing operands more negative than this in a TJ array are wide
+// enough gaps to be word breaks (units are thousandths of an em)
+const TJ_SPACE_THRESHOLD = -200
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  f: '\f',
+}
+
+/**
+ * Decodes the bytes of a PDF string: UTF-16BE when it starts with a byte order
+ * mark, otherwise treated as Latin-1, which is right for the standard fonts
+ * most simple PDFs use.
+ */
+function decodePdfString(bytes: number[]): string {
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(new Uint8Array(bytes.slice(2)))
+  }
+  return String.fromCharCode(...bytes)
+}
+
+/**
+ * Reads a literal string starting just after its opening parenthesis.
+ * Returns the string's bytes and the index after its closing parenthesis.
+ */
+function readLiteralString(text: string, start: number): [number[], number] {
+  const bytes: number[] = []
+  let depth = 1
+  let i = start
+  while (i < text.length) {
+    const char = text[i] ?? ''
+    if (char === '\\') {
+      const next = text[i + 1] ?? ''
+      const octal = text.slice(i + 1).match(/^[0-7]{1,3}/)?.[0]
+      if (octal) {
+        bytes.push(Number.parseInt(octal, 8) & 0xff)
+        i += 1 + octal.length
+        continue
+      }
+      if (next === '\r' || next === '\n') {
+        // Line continuation
+        i += next === '\r' && text[i + 2] === '\n' ? 3 : 2
+        continue
+      }
+      const escaped = ESCAPES[next] ?? next
+      bytes.push(escaped.charCodeAt(0))
+      i += 2
+      continue
+    }
+    if (char === '(') {
+      depth++
+    } else if (char === ')') {
+      depth--
+      if (depth === 0) {
+        return [bytes, i + 1]
+      }
+    }
+    bytes.push(char.charCodeAt(0) & 0xff)
+    i++
+  }
+  return [bytes, i]
+}
+
+function readHexString(hex: string): number[] {
+  const digits = hex.replace(/[^0-9a-f]/gi, '')
+  const padded = digits.length % 2 ? `${digits}0` : digits
+  const bytes: number[] = []
+  for (let i = 0; i < padded.length; i += 2) {
+    bytes.push(Number.parseInt(padded.slice(i, i + 2), 16))
+  }
+  return bytes
+}
+
+/**
+ * Pulls the text shown by a page content stream's text operators (Tj, TJ, '
+ * and "), starting new lines where the text moves to a new line.
+ */
+function extractStreamText(content: string): string {
+  let output = ''
+  let operands: (string | number)[] = []
+  let array: (string | number)[] | null = null
+  let i = 0
+
+  const push = (value: string | number) => {
+    if (array) {
+      array.push(value)
+    } else {
+      operands.push(value)
+    }
+  }
+  const newline = () => {
+    if (output && !output.endsWith('\n')) {
+      output += '\n'
+    }
+  }
+
+  while (i < content.length) {
+    const char = content[i] ?? ''
+
+    if (char === '(') {
+      const [bytes, end] = readLiteralString(content, i + 1)
+      push(decodePdfString(bytes))
+      i = end
+      continue
+    }
+    if (char === '<' && content[i + 1] !== '<') {
+      const end = content.indexOf('>', i)
+      if (end === -1) {
+        break
+      }
+      push(decodePdfString(readHexString(content.slice(i + 1, end))))
+      i = end + 1
+      continue
+    }
+    if (char === '[') {
+      array = []
+      i++
+      continue
+    }
+    if (char === ']') {
+      if (array) {
+        // Numbers in a TJ array adjust spacing; large gaps separate words
+        operands.push(
+          array
+            .map((part) =>
+              typeof part === 'number'
+                ? part < TJ_SPACE_THRESHOLD
+                  ? ' '
+                  : ''
+                : part
+            )
+            .join('')
+        )
+      }
+      array = null
+      i++
+      continue
+    }
+    if (char === '%') {
+      // Comment to end of line
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') {
+        i++
+      }
+      continue
+    }
+
+    const token = content
+      .slice(i)
+      .match(/^[^\s()<>[\]{}/%]+|^\/[^\s()<>[\]{}/%]*/)
+    if (!token) {
+      i++
+      continue
+    }
+    const word = token[0]
+    i += word.length
+
+    const number = Number(word)
+    if (!Number.isNaN(number) && /^[+-]?[\d.]/.test(word)) {
+      push(number)
+      continue
+    }
+    if (word.startsWith('/')) {
+      push(word)
+      continue
+    }
+
+    switch (word) {
+      case 'Tj':
+      case 'TJ':
+        output += String(operands.at(-1) ?? '')
+        break
+      case "'":
+      case '"':
+        newline()
+        output += String(operands.at(-1) ?? '')
+        break
+      case 'T*':
+      case 'ET':
+        newline()
+        break
+      case 'Td':
+      case 'TD': {
+        const ty = operands.at(-1)
+        if (typeof ty === 'number' && ty !== 0) {
+          newline()
+        } else if (output && !/\s$/.test(output)) {
+          output += ' '
+        }
+        break
+      }
+    }
+    operands = []
+  }
+
+  return output
+}
+
+/**
+ * Extracts plain text from a PDF, as well as can be done without a full PDF
+ * parser: reads every (optionally Flate-compressed) content stream and
+ * collects the strings its text operators show. Works for most PDFs produced
+ * by word processors and printers; scanned PDFs and fonts with custom
+ * encodings yield little or nothing. Returns undefined when no text is found.
+ */
+export function extractPdfText(data: Uint8Array): string | undefined {
+  const text = Buffer.from(data).toString('latin1')
+  const pages: string[] = []
+
+  for (const match of text.matchAll(STREAM_REGEX)) {
+    const dictionary = match[1] ?? ''
+    if (SKIPPED_STREAM_REGEX.test(dictionary)) {
+      continue
+    }
+
+    const start = match.index + match[0].length
+    const end = text.indexOf('endstream', start)
+    if (end === -1) {
+      continue
+    }
+    let stream = data.subarray(start, end)
+
+    if (/\/Filter\s*(?:\[\s*)?\/FlateDecode/.test(dictionary)) {
+      try {
+        stream = inflateSync(stream, {
+          // Accept truncated streams, which some writers produce
+          finishFlush: constants.Z_SYNC_FLUSH,
+        })
+      } catch (error) {
+        d('failed to inflate stream: %O', error)
+        continue
+      }
+    } else if (/\/Filter/.test(dictionary)) {
+      // Other encodings (e.g. DCT for images) never hold text
+      continue
+    }
+
+    const content = Buffer.from(stream).toString('latin1')
+    if (!/\bBT\b/.test(content)) {
+      continue
+    }
+    const pageText = extractStreamText(content).trim()
+    if (pageText) {
+      pages.push(pageText)
+    }
+  }
+
+  d('extracted text from %d streams', pages.length)
+  const result = pages
+    .join('\n\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .trim()
+  return result || undefined
+}
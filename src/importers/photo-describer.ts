@@ -0,0 +1,104 @@
+import createDebug from 'debug'
+
+const d = createDebug('istoria:describer')
+
+const DEFAULT_PROMPT =
+  'Describe this photo in one or two sentences for a personal journal. ' +
+  'Mention people, places, objects and activities, but do not speculate ' +
+  'about who anyone is.'
+
+export interface PhotoToDescribe {
+  // Path of the photo relative to the imported folder
+  path: string
+  mimeType: string
+  // Image bytes to describe; the thumbnail when one is available
+  data: Uint8Array
+}
+
+/**
+ * Produces a short text description of a photo. Returning undefined means
+ * "no description", which is what the offline default does.
+ */
+export interface PhotoDescriber {
+  describe(photo: PhotoToDescribe): Promise<string | undefined>
+}
+
+export interface OpenAIVisionDescriberOptions {
+  // Base URL of an OpenAI-compatible API, e.g. "http://localhost:11434/v1"
+  baseUrl: string
+  model: string
+  apiKey?: string
+  prompt?: string
+}
+
+/**
+ * A describer that never describes anything, so photo imports run fully
+ * offline unless a real describer is configured.
+ */
+export const noopDescriber: PhotoDescriber = {
+  async describe() {
+    return undefined
+  },
+}
+
+/**
+ * Creates a describer backed by the chat completions endpoint of an
+ * OpenAI-compatible vision model (e.g. Ollama, LM Studio or llama.cpp).
+ * Failures are logged and treated as "no description" so that one bad photo
+ * doesn't abort an import.
+ */
+export function createOpenAIVisionDescriber(
+  options: OpenAIVisionDescriberOptions
+): PhotoDescriber {
+  const url = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`
+
+  return {
+    async describe(photo) {
+      const image = Buffer.from(photo.data).toString('base64')
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+      }
+      if (options.apiKey) {
+        headers['Authorization'] = `Bearer ${options.apiKey}`
+      }
+
+      d('describing %s with %s', photo.path, options.model)
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            model: options.model,
+            messages: [
+              {
+                role: 'user',
+                content: [
+                  { type: 'text', text: options.prompt ?? DEFAULT_PROMPT },
+                  {
+                    type: 'image_url',
+                    image_url: {
+                      url: `data:${photo.mimeType};base64,${image}`,
+                    },
+                  },
+                ],
+              },
+            ],
+          }),
+        })
+
+        if (!response.ok) {
+          d('describer returned %d for %s', response.status, photo.path)
+          return undefined
+        }
+
+        const body = (await response.json()) as {
+          choices?: { message?: { content?: string } }[]
+        }
+        return body.choices?.[0]?.message?.content?.trim() || undefined
+      } catch (error) {
+        d('failed to describe %s: %O', photo.path, error)
+        return undefined
+      }
+    },
+  }
+}
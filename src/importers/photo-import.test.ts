@@ -0,0 +1,266 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdir, mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import sharp from 'sharp'
+import {
+  createOpenAIVisionDescriber,
+  type PhotoDescriber,
+} from './photo-describer'
+import { importPhotos } from './photo-import'
+
+type IfdTag = [tag: number, type: 2 | 4 | 5, value: string | number[]]
+
+const THUMBNAIL = new Uint8Array([0xff, 0xd8, 1, 2, 3, 0xff, 0xd9])
+
+function valueSize([, , value]: IfdTag): number {
+  if (typeof value === 'string') {
+    return value.length + 1
+  }
+  // LONGs are 4 bytes, RATIONALs are pairs of LONGs
+  return value.length * 4
+}
+
+function ifdSize(tags: IfdTag[]): number {
+  let size = 2 + tags.length * 12 + 4
+  for (const tag of tags) {
+    const bytes = valueSize(tag)
+    if (bytes > 4) {
+      size += bytes + (bytes % 2)
+    }
+  }
+  return size
+}
+
+function writeIfd(view: DataView, offset: number, tags: IfdTag[], next = 0) {
+  view.setUint16(offset, tags.length, true)
+  let dataOffset = offset + 2 + tags.length * 12 + 4
+
+  tags.forEach((tag, i) => {
+    const [id, type, value] = tag
+    const entry = offset + 2 + i * 12
+    const bytes = valueSize(tag)
+    const count =
+      typeof value === 'string'
+        ? value.length + 1
+        : type === 5
+          ? value.length / 2
+          : value.length
+
+    view.setUint16(entry, id, true)
+    view.setUint16(entry + 2, type, true)
+    view.setUint32(entry + 4, count, true)
+
+    let target = entry + 8
+    if (bytes > 4) {
+      view.setUint32(entry + 8, dataOffset, true)
+      target = dataOffset
+      dataOffset += bytes + (bytes % 2)
+    }
+
+    if (typeof value === 'string') {
+      for (let c = 0; c < value.length; c++) {
+        view.setUint8(target + c, value.charCodeAt(c))
+      }
+    } else {
+      value.forEach((v, j) => view.setUint32(target + j * 4, v, true))
+    }
+  })
+
+  view.setUint32(offset + 2 + tags.length * 12, next, true)
+}
+
+/**
+ * Builds a minimal JPEG whose EXIF block has a capture time with offset,
+ * camera, GPS position, dimensions and an embedded thumbnail.
+ */
+function createTestJpeg(): Uint8Array {
+  const exif: IfdTag[] = [
+    [0x9003, 2, '2025:03:04 10:15:00'],
+    [0x9011, 2, '+02:00'],
+    [0xa002, 4, [4032]],
+    [0xa003, 4, [3024]],
+  ]
+  const gps: IfdTag[] = [
+    [0x0001, 2, 'N'],
+    [0x0002, 5, [38, 1, 42, 1, 30, 1]],
+    [0x0003, 2, 'W'],
+    [0x0004, 5, [9, 1, 8, 1, 24, 1]],
+  ]
+  const ifd0: IfdTag[] = [
+    [0x010f, 2, 'Apple'],
+    [0x0110, 2, 'iPhone 15'],
+    [0x8769, 4, [0]],
+    [0x8825, 4, [0]],
+  ]
+  const ifd1: IfdTag[] = [
+    [0x0201, 4, [0]],
+    [0x0202, 4, [THUMBNAIL.length]],
+  ]
+
+  const exifOffset = 8 + ifdSize(ifd0)
+  const gpsOffset = exifOffset + ifdSize(exif)
+  const ifd1Offset = gpsOffset + ifdSize(gps)
+  const thumbnailOffset = ifd1Offset + ifdSize(ifd1)
+  ifd0[2] = [0x8769, 4, [exifOffset]]
+  ifd0[3] = [0x8825, 4, [gpsOffset]]
+  ifd1[0] = [0x0201, 4, [thumbnailOffset]]
+
+  const tiff = new Uint8Array(thumbnailOffset + THUMBNAIL.length)
+  const view = new DataView(tiff.buffer)
+  view.setUint16(0, 0x4949)
+  view.setUint16(2, 42, true)
+  view.setUint32(4, 8, true)
+  writeIfd(view, 8, ifd0, ifd1Offset)
+  writeIfd(view, exifOffset, exif)
+  writeIfd(view, gpsOffset, gps)
+  writeIfd(view, ifd1Offset, ifd1)
+  tiff.set(THUMBNAIL, thumbnailOffset)
+
+  const header = new TextEncoder().encode('Exif\0\0')
+  const length = 2 + header.length + tiff.length
+  return new Uint8Array([
+    ...[0xff, 0xd8, 0xff, 0xe1, length >> 8, length & 0xff],
+    ...header,
+    ...tiff,
+    ...[0xff, 0xd9],
+  ])
+}
+
+describe('importPhotos', () => {
+  let dir: string
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'istoria-photos-'))
+    await mkdir(join(dir, 'Lisbon'))
+    await Bun.write(join(dir, 'Lisbon/IMG_0001.JPG'), createTestJpeg())
+    await Bun.write(join(dir, 'Lisbon/IMG_0002.jpg'), createTestJpeg())
+    await Bun.write(join(dir, 'notes.txt'), 'not a photo')
+  })
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test('creates a memory per photo with EXIF metadata', async () => {
+    const memories = await importPhotos(dir)
+
+    expect(memories.map((m) => m.sourceKey)).toEqual([
+      'Lisbon/IMG_0001.JPG',
+      'Lisbon/IMG_0002.jpg',
+    ])
+
+    const memory = memories[0]!
+    expect(memory.source).toBe('photos')
+    expect(memory.title).toBe('Photo: IMG_0001.JPG')
+    expect(memory.memoryCreatedAt.toISO()).toBe('2025-03-04T10:15:00.000+02:00')
+    expect(memory.contentBlob).toEqual(THUMBNAIL)
+    expect(memory.content).toBe(
+      [
+        'Camera: Apple iPhone 15',
+        'Location: 38.70833, -9.14000',
+        'Size: 4032×3024',
+      ].join('\n')
+    )
+    expect(memory.metadata).toMatchObject({
+      originalPath: 'Lisbon/IMG_0001.JPG',
+      mimeType: 'image/jpeg',
+      thumbnailMimeType: 'image/jpeg',
+      camera: 'Apple iPhone 15',
+      width: 4032,
+      height: 3024,
+    })
+    expect(memory.metadata?.['description']).toBeUndefined()
+  })
+
+  test('groups photos by day and adds descriptions', async () => {
+    const describer: PhotoDescriber = {
+      async describe(photo) {
+        expect(photo.data).toEqual(THUMBNAIL)
+        return `A tram in ${photo.path.split('/')[0]}`
+      },
+    }
+
+    const memories = await importPhotos(dir, { describer, grouping: 'day' })
+
+    expect(memories).toHaveLength(1)
+    const day = memories[0]!
+    expect(day.sourceKey).toBe('day/2025-03-04')
+    expect(day.title).toBe('Photos: 2025-03-04')
+    expect(day.contentBlob).toEqual(THUMBNAIL)
+    expect(day.content?.split('\n')).toEqual([
+      '[10:15] IMG_0001.JPG (Apple iPhone 15, 38.70833, -9.14000): A tram in Lisbon',
+      '[10:15] IMG_0002.jpg (Apple iPhone 15, 38.70833, -9.14000): A tram in Lisbon',
+    ])
+    expect(day.metadata?.['photoCount']).toBe(2)
+    expect(day.metadata?.['thumbnailMimeType']).toBe('image/jpeg')
+  })
+
+  test('makes a JPEG thumbnail for photos without an embedded one', async () => {
+    const pngDir = join(dir, 'png')
+    await mkdir(pngDir)
+    // Noise, so the PNG doesn't compress below a few hundred KB
+    const pixels = new Uint8Array(1200 * 900 * 3).map(() =>
+      Math.floor(Math.random() * 256)
+    )
+    const png = await sharp(pixels, {
+      raw: { width: 1200, height: 900, channels: 3 },
+    })
+      .png()
+      .toBuffer()
+    expect(png.byteLength).toBeGreaterThan(1024 * 1024)
+    await Bun.write(join(pngDir, 'screenshot.png'), png)
+
+    const described: string[] = []
+    const describer: PhotoDescriber = {
+      async describe(photo) {
+        described.push(photo.mimeType)
+        expect(photo.data.byteLength).toBeLessThan(png.byteLength)
+        return 'Static'
+      },
+    }
+    const [memory] = await importPhotos(pngDir, { describer })
+
+    const thumbnail = memory?.contentBlob
+    expect(thumbnail).toBeInstanceOf(Uint8Array)
+    const { format, width, height } = await sharp(thumbnail!).metadata()
+    expect([format, width, height]).toEqual(['jpeg', 256, 192])
+    expect(memory?.metadata).toMatchObject({
+      mimeType: 'image/png',
+      thumbnailMimeType: 'image/jpeg',
+      description: 'Static',
+    })
+    expect(described).toEqual(['image/jpeg'])
+  })
+})
+
+describe('createOpenAIVisionDescriber', () => {
+  test('asks a chat completions endpoint to describe the image', async () => {
+    let request: { model?: string; messages?: unknown[] } | undefined
+    using server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        request = await req.json()
+        return Response.json({
+          choices: [{ message: { content: ' A cat on a windowsill. ' } }],
+        })
+      },
+    })
+
+    const describer = createOpenAIVisionDescriber({
+      baseUrl: `${server.url.href}v1/`,
+      model: 'llava',
+    })
+    const description = await describer.describe({
+      path: 'cat.jpg',
+      mimeType: 'image/jpeg',
+      data: THUMBNAIL,
+    })
+
+    expect(description).toBe('A cat on a windowsill.')
+    expect(request?.model).toBe('llava')
+    expect(JSON.stringify(request?.messages)).toContain(
+      `data:image/jpeg;base64,${Buffer.from(THUMBNAIL).toString('base64')}`
+    )
+  })
+})
@@ -0,0 +1,436 @@
+import { stat } from 'node:fs/promises'
+import { basename, extname, join } from 'node:path'
+import { Glob } from 'bun'
+import createDebug from 'debug'
+import exifr from 'exifr'
+import { DateTime } from 'luxon'
+import sharp from 'sharp'
+import type { ImporterDefinition } from '../registry'
+import type { JsonValue, NewMemory } from '../types'
+import { getMimeType } from './mime'
+import {
+  createOpenAIVisionDescriber,
+  noopDescriber,
+  type PhotoDescriber,
+} from './photo-describer'
+import { streamAll } from './stream'
+
+const d = createDebug('istoria:photos')
+
+const PHOTO_EXTENSIONS = new Set(['.jpg', '.jpeg', '.heic', '.heif', '.png'])
+
+// Longest side of the thumbnails made for photos that don't embed one (PNGs
+// never do)
+const THUMBNAIL_SIZE = 256
+
+// Embedded thumbnails are always JPEGs, and generated ones are made to match
+const THUMBNAIL_MIME_TYPE = 'image/jpeg'
+
+// EXIF date format, e.g. "2025:03:04 10:15:00"
+const EXIF_DATE_FORMAT = 'yyyy:MM:dd HH:mm:ss'
+
+export type PhotoGrouping = 'photo' | 'day'
+
+export interface PhotoImportOptions {
+  // Writes a description for each photo; defaults to no descriptions
+  describer?: PhotoDescriber
+  // 'photo' creates a Memory per photo, 'day' one per day, which keeps
+  // large libraries manageable
+  grouping?: PhotoGrouping
+}
+
+interface PhotoExif {
+  Make?: string
+  Model?: string
+  DateTimeOriginal?: string
+  OffsetTimeOriginal?: string
+  CreateDate?: string
+  OffsetTimeDigitized?: string
+  ModifyDate?: string
+  OffsetTime?: string
+  ExifImageWidth?: number
+  ExifImageHeight?: number
+  ImageWidth?: number
+  ImageHeight?: number
+  latitude?: number
+  longitude?: number
+}
+
+interface Photo {
+  relativePath: string
+  fileName: string
+  mimeType: string
+  size: number
+  takenAt: DateTime
+  camera?: string
+  latitude?: number
+  longitude?: number
+  width?: number
+  height?: number
+  thumbnail?: Uint8Array
+  thumbnailMimeType?: string
+  description?: string
+}
+
+/**
+ * Parses an EXIF date, applying its companion offset tag when there is one.
+ * EXIF dates without an offset are wall-clock times in whatever zone the
+ * camera was set to, so they're read as local time.
+ */
+function parseExifDate(
+  value: string | undefined,
+  offset: string | undefined
+): DateTime | null {
+  if (!value) {
+    return null
+  }
+
+  const parsed = offset
+    ? DateTime.fromFormat(`${value} ${offset}`, `${EXIF_DATE_FORMAT} ZZ`, {
+        setZone: true,
+      })
+    : DateTime.fromFormat(value, EXIF_DATE_FORMAT)
+
+  return parsed.isValid ? parsed : null
+}
+
+/**
+ * Makes a JPEG thumbnail no larger than THUMBNAIL_SIZE on either side,
+ * turned upright according to the photo's EXIF orientation.
+ */
+async function createThumbnail(data: Uint8Array): Promise<Uint8Array> {
+  const thumbnail = await sharp(data)
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, {
+      fit: 'inside',
+      withoutEnlargement: true,
+    })
+    .jpeg({ quality: 80 })
+    .toBuffer()
+  return new Uint8Array(thumbnail)
+}
+
+/**
+ * Combines make and model into a camera name, avoiding the "Canon Canon EOS
+ * 5D" repetition many manufacturers produce.
+ */
+function getCameraName(exif: PhotoExif): string | undefined {
+  const make = exif.Make?.trim()
+  const model = exif.Model?.trim()
+  if (!model) {
+    return make || undefined
+  }
+  if (!make || model.toLowerCase().startsWith(make.toLowerCase())) {
+    return model
+  }
+  return `${make} ${model}`
+}
+
+async function readPhoto(
+  rootDir: string,
+  relativePath: string,
+  describer: PhotoDescriber
+): Promise<Photo> {
+  const fullPath = join(rootDir, relativePath)
+  const data = await Bun.file(fullPath).bytes()
+  const mimeType = getMimeType(relativePath)
+
+  let exif: PhotoExif = {}
+  try {
+    exif =
+      (await exifr.parse(data, {
+        tiff: true,
+        exif: true,
+        gps: true,
+        ihdr: true,
+        reviveValues: false,
+      })) ?? {}
+  } catch (error) {
+    d('failed to read metadata from %s: %O', relativePath, error)
+  }
+
+  let takenAt =
+    parseExifDate(exif.DateTimeOriginal, exif.OffsetTimeOriginal) ??
+    parseExifDate(exif.CreateDate, exif.OffsetTimeDigitized) ??
+    parseExifDate(exif.ModifyDate, exif.OffsetTime)
+  if (!takenAt) {
+    takenAt = DateTime.fromJSDate((await stat(fullPath)).mtime)
+    d('no capture time in %s, using mtime', relativePath)
+  }
+
+  let thumbnail: Uint8Array | undefined
+  try {
+    const embedded = await exifr.thumbnail(data)
+    thumbnail = embedded ? new Uint8Array(embedded) : undefined
+  } catch (error) {
+    d('failed to read thumbnail from %s: %O', relativePath, error)
+  }
+  if (!thumbnail) {
+    try {
+      thumbnail = await createThumbnail(data)
+    } catch (error) {
+      // e.g. HEIC, which sharp's prebuilt binaries can't decode
+      d('failed to create a thumbnail for %s: %O', relativePath, error)
+    }
+  }
+
+  const photo: Photo = {
+    relativePath,
+    fileName: basename(relativePath),
+    mimeType,
+    size: data.byteLength,
+    takenAt,
+  }
+
+  const camera = getCameraName(exif)
+  if (camera) {
+    photo.camera = camera
+  }
+  if (exif.latitude !== undefined && exif.longitude !== undefined) {
+    photo.latitude = exif.latitude
+    photo.longitude = exif.longitude
+  }
+  const width = exif.ExifImageWidth ?? exif.ImageWidth
+  const height = exif.ExifImageHeight ?? exif.ImageHeight
+  if (width && height) {
+    photo.width = width
+    photo.height = height
+  }
+  if (!thumbnail) {
+    // Describers only get thumbnails, never the full-size original
+    d('no thumbnail for %s, so it is not described', relativePath)
+    return photo
+  }
+  photo.thumbnail = thumbnail
+  photo.thumbnailMimeType = THUMBNAIL_MIME_TYPE
+
+  const description = await describer.describe({
+    path: relativePath,
+    mimeType: THUMBNAIL_MIME_TYPE,
+    data: thumbnail,
+  })
+  if (description) {
+    photo.description = description
+  }
+
+  return photo
+}
+
+function formatLocation(photo: Photo): string | undefined {
+  if (photo.latitude === undefined || photo.longitude === undefined) {
+    return undefined
+  }
+  return `${photo.latitude.toFixed(5)}, ${photo.longitude.toFixed(5)}`
+}
+
+/**
+ * The metadata recorded for a photo, skipping anything it doesn't have.
+ */
+function getPhotoMetadata(photo: Photo): Record<string, JsonValue> {
+  const metadata: Record<string, JsonValue> = {
+    originalPath: photo.relativePath,
+    fileName: photo.fileName,
+    mimeType: photo.mimeType,
+    size: photo.size,
+    takenAt: photo.takenAt.toISO(),
+  }
+
+  for (const key of [
+    'camera',
+    'latitude',
+    'longitude',
+    'width',
+    'height',
+    'thumbnailMimeType',
+    'description',
+  ] as const) {
+    const value = photo[key]
+    if (value !== undefined) {
+      metadata[key] = value
+    }
+  }
+
+  return metadata
+}
+
+/**
+ * Formats a single photo's details.
+ * Format: Camera / Location / Size lines, then the description
+ */
+function formatPhoto(photo: Photo): string {
+  const lines: string[] = []
+  if (photo.camera) {
+    lines.push(`Camera: ${photo.camera}`)
+  }
+  const location = formatLocation(photo)
+  if (location) {
+    lines.push(`Location: ${location}`)
+  }
+  if (photo.width && photo.height) {
+    lines.push(`Size: ${photo.width}×${photo.height}`)
+  }
+  if (photo.description) {
+    lines.push(photo.description)
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Formats a photo as one line of a day summary.
+ * Format: [HH:mm] file.jpg (camera, location): description
+ */
+function formatPhotoLine(photo: Photo): string {
+  const details = [photo.camera, formatLocation(photo)].filter(Boolean)
+  let line = `[${photo.takenAt.toFormat('HH:mm')}] ${photo.fileName}`
+  if (details.length > 0) {
+    line += ` (${details.join(', ')})`
+  }
+  if (photo.description) {
+    line += `: ${photo.description}`
+  }
+  return line
+}
+
+/**
+ * Imports photos (JPEG, HEIC and PNG) from a directory tree.
+ *
+ * - Reads capture time (with UTC offset), camera, GPS and dimensions from
+ *   EXIF, falling back to file mtime when there's no capture time
+ * - Stores the embedded EXIF thumbnail in contentBlob, or a JPEG made from
+ *   the original when there isn't one; full-size images are never stored,
+ *   and metadata records the thumbnail's type next to the original's
+ * - Descriptions come from the given PhotoDescriber, which by default does
+ *   nothing so imports work offline
+ */
+export async function importPhotos(
+  rootDir: string,
+  options: PhotoImportOptions = {}
+): Promise<NewMemory[]> {
+  const describer = options.describer ?? noopDescriber
+  const grouping = options.grouping ?? 'photo'
+  d('starting import from directory: %s (grouping: %s)', rootDir, grouping)
+
+  const photos: Photo[] = []
+  const glob = new Glob('**/*')
+  for await (const relativePath of glob.scan({
+    cwd: rootDir,
+    dot: false,
+    onlyFiles: true,
+  })) {
+    if (!PHOTO_EXTENSIONS.has(extname(relativePath).toLowerCase())) {
+      continue
+    }
+
+    d('processing photo: %s', relativePath)
+    photos.push(await readPhoto(rootDir, relativePath, describer))
+  }
+
+  photos.sort((a, b) => a.takenAt.toMillis() - b.takenAt.toMillis())
+  d('read %d photos', photos.length)
+
+  const memories: NewMemory[] = []
+
+  if (grouping === 'photo') {
+    for (const photo of photos) {
+      const memory: NewMemory = {
+        source: 'photos',
+        sourceKey: photo.relativePath,
+        memoryCreatedAt: photo.takenAt,
+        title: `Photo: ${photo.fileName}`,
+        metadata: getPhotoMetadata(photo),
+        content: formatPhoto(photo),
+      }
+      if (photo.thumbnail) {
+        memory.contentBlob = photo.thumbnail
+      }
+      memories.push(memory)
+    }
+
+    d('import complete, created %d memories', memories.length)
+    return memories
+  }
+
+  // Group photos by the day they were taken, in their own offset
+  const photosByDay = new Map<string, Photo[]>()
+  for (const photo of photos) {
+    const dayKey = photo.takenAt.toFormat('yyyy-MM-dd')
+    const existing = photosByDay.get(dayKey) ?? []
+    existing.push(photo)
+    photosByDay.set(dayKey, existing)
+  }
+
+  for (const [dayKey, dayPhotos] of photosByDay) {
+    const first = dayPhotos[0]
+    if (!first) {
+      continue
+    }
+
+    const memory: NewMemory = {
+      source: 'photos',
+      sourceKey: `day/${dayKey}`,
+      memoryCreatedAt: first.takenAt,
+      title: `Photos: ${dayKey}`,
+      metadata: {
+        dayKey,
+        photoCount: dayPhotos.length,
+        photos: dayPhotos.map(getPhotoMetadata),
+      },
+      content: dayPhotos.map(formatPhotoLine).join('\n'),
+    }
+    // The first photo of the day stands in as the day's thumbnail
+    const cover = dayPhotos.find((p) => p.thumbnail)
+    if (cover?.thumbnail && cover.thumbnailMimeType) {
+      memory.contentBlob = cover.thumbnail
+      memory.metadata['thumbnailMimeType'] = cover.thumbnailMimeType
+    }
+    memories.push(memory)
+  }
+
+  d('import complete, created %d memories', memories.length)
+  return memories
+}
+
+export const photosImporter: ImporterDefinition = {
+  name: 'photos',
+  description: 'Folder of photos (JPEG, HEIC and PNG)',
+  options: [
+    {
+      flags: '--grouping <type>',
+      description: "Create a memory per 'photo' or per 'day' of photos",
+      defaultValue: 'photo',
+    },
+    {
+      flags: '--describer-url <url>',
+      description:
+        'OpenAI-compatible API used to describe photos (e.g. http://localhost:11434/v1)',
+    },
+    {
+      flags: '--describer-model <model>',
+      description: 'Vision model used to describe photos',
+      defaultValue: 'llava',
+    },
+  ],
+  run: (path, options) => {
+    const grouping = options['grouping']
+    if (grouping !== 'photo' && grouping !== 'day') {
+      throw new Error(`Invalid grouping: ${grouping}`)
+    }
+
+    const describerUrl = options['describerUrl']
+    const describerModel = options['describerModel']
+    const apiKey = process.env['DESCRIBER_API_KEY']
+    return streamAll(
+      importPhotos(path, {
+        grouping,
+        ...(typeof describerUrl === 'string' && {
+          describer: createOpenAIVisionDescriber({
+            baseUrl: describerUrl,
+            model:
+              typeof describerModel === 'string' ? describerModel : 'llava',
+            ...(apiKey && { apiKey }),
+          }),
+        }),
+      })
+    )
+  },
+}
@@ -0,0 +1,208 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import JSZip from 'jszip'
+import { Settings } from 'luxon'
+import { importSlackExport } from './slack-import'
+
+// 2025-09-11T09:00:00Z
+const DAY_ONE = 1757581200
+// 2025-09-12T09:00:00Z
+const DAY_TWO = DAY_ONE + 24 * 60 * 60
+
+async function createSlackExport(dir: string): Promise<string> {
+  const zip = new JSZip()
+  zip.file(
+    'users.json',
+    JSON.stringify([
+      { id: 'U1', name: 'ana', profile: { display_name: 'Ana' } },
+      { id: 'U2', name: 'bob', real_name: 'Bob Smith', profile: {} },
+      { id: 'U3', name: 'cleo', tz: 'Asia/Tokyo', profile: {} },
+      { id: 'U4', name: 'dev', tz: 'Not/AZone', profile: {} },
+    ])
+  )
+  zip.file(
+    'channels.json',
+    JSON.stringify([
+      { id: 'C1', name: 'general' },
+      { id: 'C2', name: 'random' },
+      { id: 'C3', name: 'travel' },
+    ])
+  )
+  zip.file(
+    'general/2025-09-11.json',
+    JSON.stringify([
+      {
+        type: 'message',
+        user: 'U1',
+        text: 'Morning all',
+        ts: `${DAY_ONE}.000100`,
+      },
+      {
+        type: 'message',
+        user: 'U2',
+        text: 'Anyone seen <@U1>? See <#C2|random> &amp; <https://example.com|this>',
+        ts: `${DAY_ONE + 60}.000100`,
+        thread_ts: `${DAY_ONE + 60}.000100`,
+      },
+      {
+        type: 'message',
+        user: 'U1',
+        text: 'Right here',
+        ts: `${DAY_ONE + 120}.000100`,
+        thread_ts: `${DAY_ONE + 60}.000100`,
+      },
+    ])
+  )
+  zip.file(
+    'general/2025-09-12.json',
+    JSON.stringify([
+      {
+        type: 'message',
+        user: 'U2',
+        text: 'Late reply to yesterday',
+        ts: `${DAY_TWO}.000100`,
+        thread_ts: `${DAY_ONE + 60}.000100`,
+      },
+      {
+        type: 'message',
+        user: 'U2',
+        text: 'New day',
+        ts: `${DAY_TWO + 60}.000100`,
+      },
+    ])
+  )
+  zip.file(
+    'random/2025-09-11.json',
+    JSON.stringify([
+      {
+        type: 'message',
+        user: 'U9',
+        user_profile: { display_name: 'Guest' },
+        text: 'Hello from outside',
+        ts: `${DAY_ONE + 300}.000100`,
+      },
+    ])
+  )
+
+  zip.file(
+    'travel/2025-09-11.json',
+    JSON.stringify([
+      {
+        type: 'message',
+        user: 'U3',
+        text: 'Evening from Tokyo',
+        ts: `${DAY_ONE + 360}.000100`,
+      },
+      {
+        type: 'message',
+        user: 'U4',
+        text: 'Somewhere',
+        ts: `${DAY_ONE + 420}.000100`,
+      },
+    ])
+  )
+
+  const zipPath = join(dir, 'slack-export.zip')
+  await Bun.write(zipPath, await zip.generateAsync({ type: 'uint8array' }))
+  return zipPath
+}
+
+describe('importSlackExport', () => {
+  let dir: string
+  let zipPath: string
+  let defaultZone: typeof Settings.defaultZone
+
+  beforeAll(async () => {
+    defaultZone = Settings.defaultZone
+    Settings.defaultZone = 'UTC'
+    dir = await mkdtemp(join(tmpdir(), 'istoria-slack-'))
+    zipPath = await createSlackExport(dir)
+  })
+
+  afterAll(async () => {
+    Settings.defaultZone = defaultZone
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test('creates one memory per channel per day', async () => {
+    const memories = await importSlackExport(zipPath)
+
+    expect(memories.map((m) => m.sourceKey)).toEqual([
+      'general/2025-09-11',
+      'random/2025-09-11',
+      'travel/2025-09-11',
+      'general/2025-09-12',
+    ])
+
+    for (const memory of memories) {
+      expect(memory.source).toBe('slack')
+      expect(memory.title).toMatch(/^Slack: #\w+ \d{4}-\d{2}-\d{2}$/)
+    }
+  })
+
+  test('resolves display names and Slack markup', async () => {
+    const memories = await importSlackExport(zipPath)
+    const general = memories.find((m) => m.sourceKey === 'general/2025-09-11')
+
+    expect(general?.content).toContain('[09:00] Ana: Morning all')
+    expect(general?.content).toContain(
+      '[09:01] Bob Smith: Anyone seen @Ana? See #random & this (https://example.com)'
+    )
+
+    const random = memories.find((m) => m.sourceKey === 'random/2025-09-11')
+    expect(random?.content).toBe('[09:05] Guest: Hello from outside')
+  })
+
+  test('keeps threads together on the parent day', async () => {
+    const memories = await importSlackExport(zipPath)
+    const general = memories.find((m) => m.sourceKey === 'general/2025-09-11')
+
+    expect(general?.content?.split('\n')).toEqual([
+      '[09:00] Ana: Morning all',
+      '[09:01] Bob Smith: Anyone seen @Ana? See #random & this (https://example.com)',
+      '    ↳ [09:02] Ana: Right here',
+      '    ↳ [09:00] Bob Smith: Late reply to yesterday',
+    ])
+    expect(general?.metadata).toEqual({
+      channel: 'general',
+      participants: ['Ana', 'Bob Smith'],
+      messageCount: 4,
+      dayKey: '2025-09-11',
+    })
+
+    const nextDay = memories.find((m) => m.sourceKey === 'general/2025-09-12')
+    expect(nextDay?.content).toBe('[09:01] Bob Smith: New day')
+    expect(nextDay?.metadata?.['messageCount']).toBe(1)
+  })
+
+  test("shows each day in its first author's zone, not the host's", async () => {
+    Settings.defaultZone = 'America/Los_Angeles'
+    try {
+      const memories = await importSlackExport(zipPath)
+
+      const travel = memories.find((m) => m.sourceKey === 'travel/2025-09-11')
+      expect(travel?.content).toBe(
+        '[18:06] cleo: Evening from Tokyo\n[18:07] dev: Somewhere'
+      )
+      expect(travel?.memoryCreatedAt.zoneName).toBe('Asia/Tokyo')
+
+      const random = memories.find((m) => m.sourceKey === 'random/2025-09-11')
+      expect(random?.content).toBe('[09:05] Guest: Hello from outside')
+      expect(random?.memoryCreatedAt.zoneName).toBe('UTC')
+
+      // Messages (leaving out thread replies, which can come days later) are
+      // in order, so their times should be too
+      for (const memory of memories) {
+        const times = (memory.content ?? '')
+          .split('\n')
+          .filter((line) => !line.startsWith('    ↳'))
+          .map((line) => line.slice(1, 6))
+        expect(times).toEqual([...times].sort())
+      }
+    } finally {
+      Settings.defaultZone = 'UTC'
+    }
+  })
+})
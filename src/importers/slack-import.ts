@@ -0,0 +1,338 @@
+import createDebug from 'debug'
+import JSZip from 'jszip'
+import { DateTime } from 'luxon'
+import type { ImporterDefinition } from '../registry'
+import type { NewMemory } from '../types'
+import { streamAll } from './stream'
+
+const d = createDebug('istoria:slack')
+
+// Matches per-channel daily files, e.g. "general/2025-09-11.json"
+const DAY_FILE_REGEX = /^(?:.*\/)?([^/]+)\/(\d{4}-\d{2}-\d{2})\.json$/
+
+// Matches Slack's angle-bracket markup, e.g. "<@U123>" or "<https://x|label>"
+const SLACK_MARKUP_REGEX = /<([^>]+)>/g
+
+// Conversation listings in an export; only channels.json is guaranteed, the
+// rest appear in exports that include private channels and DMs
+const CHANNEL_LISTS = ['channels.json', 'groups.json', 'mpims.json', 'dms.json']
+
+interface SlackUser {
+  id: string
+  name?: string
+  real_name?: string
+  // The user's time zone, e.g. "Europe/Berlin"
+  tz?: string
+  profile?: {
+    display_name?: string
+    real_name?: string
+  }
+}
+
+interface SlackChannel {
+  id: string
+  name?: string
+}
+
+interface SlackMessage {
+  type: string
+  subtype?: string
+  user?: string
+  username?: string
+  bot_profile?: { name?: string }
+  user_profile?: { display_name?: string; real_name?: string }
+  text?: string
+  ts: string
+  thread_ts?: string
+}
+
+interface ThreadedMessage {
+  message: SlackMessage
+  dayKey: string
+  replies: SlackMessage[]
+}
+
+/**
+ * Picks the most human-friendly name Slack has for a user.
+ */
+function getDisplayName(user: SlackUser): string {
+  return (
+    user.profile?.display_name?.trim() ||
+    user.profile?.real_name?.trim() ||
+    user.real_name?.trim() ||
+    user.name ||
+    user.id
+  )
+}
+
+/**
+ * Resolves the author of a message, preferring the workspace's user list and
+ * falling back to the profile Slack embeds in the message itself.
+ */
+function getAuthorName(
+  message: SlackMessage,
+  userLookup: Map<string, string>
+): string {
+  if (message.user && userLookup.has(message.user)) {
+    return userLookup.get(message.user)!
+  }
+
+  return (
+    message.user_profile?.display_name?.trim() ||
+    message.user_profile?.real_name?.trim() ||
+    message.bot_profile?.name ||
+    message.username ||
+    message.user ||
+    'Unknown'
+  )
+}
+
+/**
+ * Converts Slack's message markup into plain text: user and channel mentions
+ * become "@name" / "#name", links keep their label and URL, and HTML entities
+ * are unescaped.
+ */
+function formatSlackText(
+  text: string,
+  userLookup: Map<string, string>,
+  channelLookup: Map<string, string>
+): string {
+  const resolved = text.replace(SLACK_MARKUP_REGEX, (_match, inner: string) => {
+    const [target = '', label] = inner.split('|', 2)
+
+    if (target.startsWith('@')) {
+      const userId = target.slice(1)
+      return `@${label ?? userLookup.get(userId) ?? userId}`
+    }
+    if (target.startsWith('#')) {
+      const channelId = target.slice(1)
+      return `#${label ?? channelLookup.get(channelId) ?? channelId}`
+    }
+    if (target.startsWith('!')) {
+      // Special mentions like <!here> or <!subteam^ID|@team>
+      return label ?? `@${target.slice(1)}`
+    }
+    if (label && label !== target) {
+      return `${label} (${target})`
+    }
+    return target
+  })
+
+  return resolved
+    .replaceAll('&lt;', '<')
+    .replaceAll('&gt;', '>')
+    .replaceAll('&amp;', '&')
+}
+
+/**
+ * The zone of a message's author from users.json, or UTC when the author or
+ * their zone is unknown, so imports don't depend on the host's zone.
+ */
+function getAuthorZone(
+  message: SlackMessage,
+  zoneLookup: Map<string, string>
+): string {
+  return (message.user && zoneLookup.get(message.user)) || 'utc'
+}
+
+function timestampOf(message: SlackMessage, zone: string): DateTime {
+  return DateTime.fromMillis(Math.round(Number(message.ts) * 1000), { zone })
+}
+
+/**
+ * Reads and parses a JSON file from the export, returning undefined when the
+ * file isn't present.
+ */
+async function readJson<T>(zip: JSZip, name: string): Promise<T | undefined> {
+  const [file] = zip.file(new RegExp(`(^|/)${name.replace('.', '\\.')}$`))
+  if (!file) {
+    return undefined
+  }
+
+  return JSON.parse(await file.async('string')) as T
+}
+
+/**
+ * Groups a channel's messages into threads. Replies are attached to their
+ * parent even when they were posted (and exported) on a later day; replies
+ * whose parent isn't in the export are kept as top-level messages.
+ */
+function threadMessages(
+  messagesByDay: Map<string, SlackMessage[]>
+): ThreadedMessage[] {
+  const topLevel = new Map<string, ThreadedMessage>()
+  const replies: { message: SlackMessage; dayKey: string }[] = []
+
+  for (const [dayKey, messages] of messagesByDay) {
+    for (const message of messages) {
+      if (message.thread_ts && message.thread_ts !== message.ts) {
+        replies.push({ message, dayKey })
+      } else {
+        topLevel.set(message.ts, { message, dayKey, replies: [] })
+      }
+    }
+  }
+
+  for (const { message, dayKey } of replies) {
+    const parent = topLevel.get(message.thread_ts!)
+    if (parent) {
+      parent.replies.push(message)
+    } else {
+      d('orphaned thread reply %s in %s', message.ts, dayKey)
+      topLevel.set(message.ts, { message, dayKey, replies: [] })
+    }
+  }
+
+  const threads = [...topLevel.values()]
+  threads.sort((a, b) => Number(a.message.ts) - Number(b.message.ts))
+  for (const thread of threads) {
+    thread.replies.sort((a, b) => Number(a.ts) - Number(b.ts))
+  }
+
+  return threads
+}
+
+/**
+ * Imports a Slack workspace export (the ZIP produced by Slack's "Export data"
+ * admin tool).
+ *
+ * Each channel's messages are grouped into one Memory per day. Thread replies
+ * are nested under their parent message, on the parent's day.
+ *
+ * Output format for each message line:
+ * [HH:mm] Display Name: message text
+ */
+export async function importSlackExport(
+  filePath: string
+): Promise<NewMemory[]> {
+  d('starting import from file: %s', filePath)
+
+  const zipBuffer = await Bun.file(filePath).arrayBuffer()
+  d('read %d bytes from file', zipBuffer.byteLength)
+
+  const zip = await JSZip.loadAsync(zipBuffer)
+
+  const users = (await readJson<SlackUser[]>(zip, 'users.json')) ?? []
+  const userLookup = new Map<string, string>()
+  const zoneLookup = new Map<string, string>()
+  for (const user of users) {
+    userLookup.set(user.id, getDisplayName(user))
+    if (user.tz && DateTime.now().setZone(user.tz).isValid) {
+      zoneLookup.set(user.id, user.tz)
+    }
+  }
+
+  const channelLookup = new Map<string, string>()
+  for (const listName of CHANNEL_LISTS) {
+    const channels = (await readJson<SlackChannel[]>(zip, listName)) ?? []
+    for (const channel of channels) {
+      channelLookup.set(channel.id, channel.name ?? channel.id)
+    }
+  }
+
+  if (channelLookup.size === 0) {
+    throw new Error('Invalid Slack export: missing channels.json')
+  }
+
+  d('found %d users, %d channels', userLookup.size, channelLookup.size)
+
+  // Collect every day file, grouped by channel folder
+  const channelDays = new Map<string, Map<string, SlackMessage[]>>()
+  for (const file of Object.values(zip.files)) {
+    const match = file.dir ? null : file.name.match(DAY_FILE_REGEX)
+    if (!match) {
+      continue
+    }
+
+    const [, channelName = '', dayKey = ''] = match
+    const messages = JSON.parse(await file.async('string')) as SlackMessage[]
+    const days =
+      channelDays.get(channelName) ?? new Map<string, SlackMessage[]>()
+    days.set(
+      dayKey,
+      messages.filter((m) => m.type === 'message' && m.ts)
+    )
+    channelDays.set(channelName, days)
+  }
+
+  const memories: NewMemory[] = []
+
+  for (const [channelName, messagesByDay] of channelDays) {
+    const threadsByDay = new Map<string, ThreadedMessage[]>()
+    for (const thread of threadMessages(messagesByDay)) {
+      const existing = threadsByDay.get(thread.dayKey) ?? []
+      existing.push(thread)
+      threadsByDay.set(thread.dayKey, existing)
+    }
+
+    for (const [dayKey, threads] of threadsByDay) {
+      const firstThread = threads[0]
+      if (!firstThread) {
+        continue
+      }
+
+      // The whole day is shown in the zone of whoever wrote first, so its
+      // times read in order
+      const zone = getAuthorZone(firstThread.message, zoneLookup)
+      const participants = new Set<string>()
+      const lines: string[] = []
+      let messageCount = 0
+
+      const formatMessage = (message: SlackMessage) => {
+        const author = getAuthorName(message, userLookup)
+        participants.add(author)
+        messageCount++
+
+        const time = timestampOf(message, zone).toFormat('HH:mm')
+        const text = formatSlackText(
+          message.text ?? '',
+          userLookup,
+          channelLookup
+        )
+        return `[${time}] ${author}: ${text}`
+      }
+
+      for (const thread of threads) {
+        lines.push(formatMessage(thread.message))
+        for (const reply of thread.replies) {
+          lines.push(`    ↳ ${formatMessage(reply)}`)
+        }
+      }
+
+      d(
+        'created memory for #%s %s: %d messages',
+        channelName,
+        dayKey,
+        messageCount
+      )
+
+      memories.push({
+        source: 'slack',
+        sourceKey: `${channelName}/${dayKey}`,
+        memoryCreatedAt: timestampOf(firstThread.message, zone),
+        title: `Slack: #${channelName} ${dayKey}`,
+        metadata: {
+          channel: channelName,
+          participants: [...participants].sort(),
+          messageCount,
+          dayKey,
+        },
+        content: lines.join('\n'),
+      })
+    }
+  }
+
+  // Sort memories by date (oldest first)
+  memories.sort(
+    (a, b) => a.memoryCreatedAt.toMillis() - b.memoryCreatedAt.toMillis()
+  )
+
+  d('import complete, created %d memories', memories.length)
+  return memories
+}
+
+export const slackImporter: ImporterDefinition = {
+  name: 'slack',
+  description: 'Slack workspace export (.zip)',
+  run: (path) => streamAll(importSlackExport(path)),
+}
@@ -0,0 +1,269 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import JSZip from 'jszip'
+import { Settings } from 'luxon'
+import { importMastodonArchive, importTwitterArchive } from './social-import'
+
+const IMAGE_BYTES = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3])
+const OTHER_BYTES = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 4, 5, 6])
+
+const TWEETS = [
+  {
+    tweet: {
+      id_str: '100',
+      full_text: 'Reading this great post https://t.co/abc',
+      created_at: 'Tue Mar 04 09:00:00 +0000 2025',
+      entities: {
+        urls: [
+          { url: 'https://t.co/abc', expanded_url: 'https://example.com/post' },
+        ],
+      },
+    },
+  },
+  {
+    tweet: {
+      id_str: '103',
+      full_text: 'Linking, not quoting https://t.co/l1',
+      created_at: 'Tue Mar 04 11:00:00 +0000 2025',
+      entities: {
+        urls: [
+          {
+            url: 'https://t.co/l1',
+            expanded_url: 'https://twitter.com/friend/status/556',
+          },
+        ],
+      },
+    },
+  },
+  {
+    tweet: {
+      id_str: '101',
+      full_text: '@me Agreed &amp; then some',
+      created_at: 'Tue Mar 04 10:30:00 +0000 2025',
+      in_reply_to_status_id_str: '100',
+      in_reply_to_screen_name: 'me',
+    },
+  },
+  {
+    tweet: {
+      id_str: '102',
+      full_text: 'So true https://t.co/q1 via https://t.co/q2 https://t.co/pic',
+      created_at: 'Wed Mar 05 12:00:00 +0000 2025',
+      quoted_status_id_str: '555',
+      entities: {
+        urls: [
+          {
+            url: 'https://t.co/q1',
+            expanded_url: 'https://twitter.com/friend/status/555',
+          },
+          {
+            url: 'https://t.co/q2',
+            expanded_url: 'https://x.com/other/status/777',
+          },
+        ],
+        media: [
+          {
+            url: 'https://t.co/pic',
+            media_url_https: 'https://pbs.twimg.com/media/photo.jpg',
+          },
+        ],
+      },
+    },
+  },
+]
+
+const OUTBOX = {
+  orderedItems: [
+    {
+      type: 'Create',
+      id: 'https://social.example/users/me/statuses/1/activity',
+      published: '2025-03-04T08:00:00Z',
+      object: {
+        id: 'https://social.example/users/me/statuses/1',
+        url: 'https://social.example/@me/1',
+        published: '2025-03-04T08:00:00Z',
+        content: '<p>Hello fediverse</p><p>Second para</p>',
+        attachment: [
+          {
+            url: '/media_attachments/files/000/001/original/cat.jpg',
+            mediaType: 'image/jpeg',
+          },
+        ],
+      },
+    },
+    {
+      type: 'Create',
+      id: 'https://social.example/users/me/statuses/2/activity',
+      published: '2025-03-04T09:00:00Z',
+      object: {
+        id: 'https://social.example/users/me/statuses/2',
+        url: 'https://social.example/@me/2',
+        published: '2025-03-04T09:00:00Z',
+        content: '<p>Replying to myself</p>',
+        inReplyTo: 'https://social.example/users/me/statuses/1',
+        attachment: [
+          {
+            url: '/media_attachments/files/000/002/original/cat.jpg',
+            mediaType: 'image/jpeg',
+          },
+        ],
+      },
+    },
+    {
+      type: 'Announce',
+      id: 'https://social.example/users/me/statuses/3/activity',
+      published: '2025-03-04T10:00:00Z',
+      object: 'https://other.example/users/friend/statuses/9',
+    },
+  ],
+}
+
+describe('importTwitterArchive', () => {
+  let dir: string
+  let zipPath: string
+  let defaultZone: typeof Settings.defaultZone
+
+  beforeAll(async () => {
+    defaultZone = Settings.defaultZone
+    Settings.defaultZone = 'UTC'
+    dir = await mkdtemp(join(tmpdir(), 'istoria-social-'))
+
+    const zip = new JSZip()
+    zip.file(
+      'data/account.js',
+      `window.YTD.account.part0 = ${JSON.stringify([{ account: { username: 'me' } }])}`
+    )
+    zip.file(
+      'data/tweets.js',
+      `window.YTD.tweets.part0 = ${JSON.stringify(TWEETS)}`
+    )
+    zip.file('data/tweets_media/102-photo.jpg', IMAGE_BYTES)
+    zipPath = join(dir, 'twitter.zip')
+    await Bun.write(zipPath, await zip.generateAsync({ type: 'uint8array' }))
+  })
+
+  afterAll(async () => {
+    Settings.defaultZone = defaultZone
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test('groups tweets by day with expanded links and reply context', async () => {
+    const memories = await importTwitterArchive(zipPath)
+    const day = memories.find((m) => m.sourceKey === '2025-03-04')
+
+    expect(day?.source).toBe('twitter')
+    expect(day?.title).toBe('Twitter: 2025-03-04')
+    expect(day?.content).toBe(
+      [
+        '[09:00] Reading this great post https://example.com/post',
+        '',
+        '[10:30] @me Agreed & then some',
+        '> Replying to @me: Reading this great post https://example.com/post',
+        '',
+        '[11:00] Linking, not quoting https://twitter.com/friend/status/556',
+      ].join('\n')
+    )
+    expect(day?.metadata).toEqual({
+      dayKey: '2025-03-04',
+      postCount: 3,
+      postIds: ['100', '101', '103'],
+      postUrls: [
+        'https://twitter.com/me/status/100',
+        'https://twitter.com/me/status/101',
+        'https://twitter.com/me/status/103',
+      ],
+    })
+  })
+
+  test('keeps quotes and media', async () => {
+    const memories = await importTwitterArchive(zipPath)
+    const day = memories.find((m) => m.sourceKey === '2025-03-05')
+
+    expect(day?.content).toBe(
+      [
+        '[12:00] So true https://twitter.com/friend/status/555 via https://x.com/other/status/777',
+        '> Quoting @friend: https://twitter.com/friend/status/555',
+        'Media: 102-photo.jpg',
+      ].join('\n')
+    )
+
+    const media = memories.find(
+      (m) => m.sourceKey === 'media/data/tweets_media/102-photo.jpg'
+    )
+    expect(media?.contentBlob).toEqual(IMAGE_BYTES)
+    expect(media?.metadata).toEqual({
+      postId: '102',
+      postUrl: 'https://twitter.com/me/status/102',
+      fileName: '102-photo.jpg',
+      mimeType: 'image/jpeg',
+      size: IMAGE_BYTES.byteLength,
+    })
+  })
+})
+
+describe('importMastodonArchive', () => {
+  let dir: string
+  let zipPath: string
+  let defaultZone: typeof Settings.defaultZone
+
+  beforeAll(async () => {
+    defaultZone = Settings.defaultZone
+    Settings.defaultZone = 'UTC'
+    dir = await mkdtemp(join(tmpdir(), 'istoria-social-'))
+
+    const zip = new JSZip()
+    zip.file('outbox.json', JSON.stringify(OUTBOX))
+    zip.file('media_attachments/files/000/001/original/cat.jpg', IMAGE_BYTES)
+    zip.file('media_attachments/files/000/002/original/cat.jpg', OTHER_BYTES)
+    zipPath = join(dir, 'mastodon.zip')
+    await Bun.write(zipPath, await zip.generateAsync({ type: 'uint8array' }))
+  })
+
+  afterAll(async () => {
+    Settings.defaultZone = defaultZone
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test('groups posts, replies and boosts by day', async () => {
+    const memories = await importMastodonArchive(zipPath)
+    const day = memories.find((m) => m.sourceKey === '2025-03-04')
+
+    expect(day?.source).toBe('mastodon')
+    expect(day?.content).toBe(
+      [
+        '[08:00] Hello fediverse\nSecond para',
+        'Media: cat.jpg',
+        '',
+        '[09:00] Replying to myself',
+        '> Replying to @me: Hello fediverse Second para',
+        'Media: cat.jpg',
+        '',
+        '[10:00] Boosted https://other.example/users/friend/statuses/9',
+      ].join('\n')
+    )
+    expect(day?.metadata?.['postUrls']).toEqual([
+      'https://social.example/@me/1',
+      'https://social.example/@me/2',
+      'https://social.example/users/me/statuses/3/activity',
+    ])
+
+    // Both posts attach a cat.jpg, from different folders
+    const media = memories.filter((m) => m.sourceKey.startsWith('media/'))
+    expect(
+      media.map((m) => [m.sourceKey, m.metadata?.['fileName'], m.contentBlob])
+    ).toEqual([
+      [
+        'media/media_attachments/files/000/001/original/cat.jpg',
+        'cat.jpg',
+        IMAGE_BYTES,
+      ],
+      [
+        'media/media_attachments/files/000/002/original/cat.jpg',
+        'cat.jpg',
+        OTHER_BYTES,
+      ],
+    ])
+  })
+})
@@ -0,0 +1,485 @@
+import { dirname, join } from 'node:path'
+import createDebug from 'debug'
+import JSZip from 'jszip'
+import { DateTime } from 'luxon'
+import type { ImporterDefinition } from '../registry'
+import type { NewMemory } from '../types'
+import { decodeEntities, htmlToText } from './html'
+import { getMimeType } from './mime'
+import { streamAll } from './stream'
+import { toLocalFixedOffset } from './time'
+
+const d = createDebug('istoria:social')
+
+// The JS wrapper Twitter puts around archive data, e.g.
+// "window.YTD.tweets.part0 = [...]"
+const YTD_PREFIX_REGEX = /^\s*window\.YTD\.[\w.]+\s*=\s*/
+
+// Tweet data files, e.g. "data/tweets.js", "data/tweet.js" or
+// "data/tweets-part1.js" in archives split into several parts
+const TWEETS_FILE_REGEX = /(^|\/)data\/tweets?(-part\d+)?\.js$/
+
+// Media files are saved as "<tweet id>-<original name>"
+const TWEET_MEDIA_REGEX = /(^|\/)data\/tweets?_media\/(\d+)-([^/]+)$/
+
+// Links to a tweet, used to spot quote tweets
+const TWEET_URL_REGEX =
+  /^https?:\/\/(?:www\.|mobile\.)?(?:twitter|x)\.com\/(\w+)\/status(?:es)?\/(\d+)/
+
+// Twitter's created_at format, e.g. "Wed Oct 10 20:19:24 +0000 2018"
+const TWITTER_DATE_FORMAT = 'ccc LLL dd HH:mm:ss ZZZ yyyy'
+
+// Mastodon status URLs, e.g. "https://host/users/me/statuses/1" or
+// "https://host/@me/1"
+const MASTODON_USER_REGEX = /\/(?:users\/([^/]+)\/statuses|@([^/]+))\//
+
+interface SocialMedia {
+  fileName: string
+  // Where the file sits in the archive, which unlike the file name is unique
+  path: string
+  data: Uint8Array
+}
+
+interface SocialPost {
+  id: string
+  url: string
+  time: DateTime
+  text: string
+  replyTo?: { id?: string; user?: string; url?: string }
+  quote?: { id?: string; user?: string; url: string }
+  media: SocialMedia[]
+}
+
+interface TwitterUrlEntity {
+  url: string
+  expanded_url?: string
+}
+
+interface TwitterMediaEntity {
+  url: string
+  media_url_https?: string
+}
+
+interface TwitterTweet {
+  id_str: string
+  full_text: string
+  created_at: string
+  in_reply_to_status_id_str?: string
+  in_reply_to_screen_name?: string
+  quoted_status_id_str?: string
+  quoted_status_permalink?: { expanded?: string }
+  entities?: {
+    urls?: TwitterUrlEntity[]
+    media?: TwitterMediaEntity[]
+  }
+}
+
+interface ActivityPubAttachment {
+  url: string
+  mediaType?: string
+  name?: string | null
+}
+
+interface ActivityPubNote {
+  id: string
+  url?: string
+  published: string
+  content?: string
+  summary?: string | null
+  inReplyTo?: string | null
+  quoteUrl?: string
+  quoteUri?: string
+  attachment?: ActivityPubAttachment[]
+}
+
+interface ActivityPubActivity {
+  type: string
+  id: string
+  published: string
+  object: ActivityPubNote | string
+}
+
+/**
+ * Parses a Twitter archive data file, which is JSON behind a JS assignment.
+ */
+function parseYtdFile<T>(text: string): T {
+  return JSON.parse(text.replace(YTD_PREFIX_REGEX, '')) as T
+}
+
+/**
+ * Expands t.co links using the tweet's URL entities and drops the links
+ * Twitter appends for attached media, which are kept as files instead.
+ */
+function expandTweetText(tweet: TwitterTweet): string {
+  let text = tweet.full_text
+  for (const url of tweet.entities?.urls ?? []) {
+    text = text.replaceAll(url.url, url.expanded_url ?? url.url)
+  }
+  for (const media of tweet.entities?.media ?? []) {
+    text = text.replaceAll(media.url, '')
+  }
+  return decodeEntities(text).trim()
+}
+
+/**
+ * Finds the tweet a tweet quotes, from the quoted tweet's ID or permalink.
+ * A link in the text is only taken as the quote when it points at that
+ * tweet, so other tweets the text links to aren't mistaken for it.
+ */
+function getTweetQuote(tweet: TwitterTweet): SocialPost['quote'] {
+  const permalink = tweet.quoted_status_permalink?.expanded
+  const id =
+    tweet.quoted_status_id_str ?? permalink?.match(TWEET_URL_REGEX)?.[2]
+  if (!id) {
+    return undefined
+  }
+
+  const urls = [...(tweet.entities?.urls ?? []), { expanded_url: permalink }]
+  for (const { expanded_url: url } of urls) {
+    const match = url?.match(TWEET_URL_REGEX)
+    if (url && match?.[2] === id) {
+      return { id, url, user: match[1] ?? '' }
+    }
+  }
+  return { id, url: `https://twitter.com/i/web/status/${id}` }
+}
+
+function userFromMastodonUrl(url: string): string | undefined {
+  const match = url.match(MASTODON_USER_REGEX)
+  return match?.[1] ?? match?.[2]
+}
+
+/**
+ * Shortens a post to a single line for reply and quote context.
+ */
+function excerpt(text: string, length = 140): string {
+  const oneLine = text.replace(/\s+/g, ' ').trim()
+  return oneLine.length > length ? `${oneLine.slice(0, length - 1)}…` : oneLine
+}
+
+/**
+ * Formats a post with its reply / quote context and attached media.
+ * Format:
+ * [HH:mm] text
+ * > Replying to @user: parent text
+ * > Quoting @user: quoted text
+ * Media: file.jpg
+ */
+function formatPost(post: SocialPost, postsById: Map<string, SocialPost>) {
+  const lines = [`[${post.time.toFormat('HH:mm')}] ${post.text}`]
+
+  if (post.replyTo) {
+    const parent = post.replyTo.id ? postsById.get(post.replyTo.id) : undefined
+    const who = post.replyTo.user ? ` @${post.replyTo.user}` : ''
+    const context = parent
+      ? excerpt(parent.text)
+      : (post.replyTo.url ?? post.replyTo.id ?? '')
+    lines.push(`> Replying to${who}: ${context}`.trimEnd())
+  }
+
+  if (post.quote) {
+    const quoted = post.quote.id ? postsById.get(post.quote.id) : undefined
+    const who = post.quote.user ? ` @${post.quote.user}` : ''
+    lines.push(
+      `> Quoting${who}: ${quoted ? excerpt(quoted.text) : post.quote.url}`
+    )
+  }
+
+  if (post.media.length > 0) {
+    lines.push(`Media: ${post.media.map((m) => m.fileName).join(', ')}`)
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Groups posts into one Memory per day, plus one Memory per media file with
+ * the file kept in contentBlob.
+ */
+function buildMemories(
+  source: string,
+  label: string,
+  posts: SocialPost[]
+): NewMemory[] {
+  const postsById = new Map(posts.map((post) => [post.id, post]))
+
+  const postsByDay = new Map<string, SocialPost[]>()
+  for (const post of posts) {
+    post.time = toLocalFixedOffset(post.time)
+    const dayKey = post.time.toFormat('yyyy-MM-dd')
+    const existing = postsByDay.get(dayKey) ?? []
+    existing.push(post)
+    postsByDay.set(dayKey, existing)
+  }
+
+  d('grouped %d %s posts into %d days', posts.length, source, postsByDay.size)
+
+  const memories: NewMemory[] = []
+  for (const [dayKey, dayPosts] of postsByDay) {
+    dayPosts.sort((a, b) => a.time.toMillis() - b.time.toMillis())
+
+    const first = dayPosts[0]
+    if (!first) {
+      continue
+    }
+
+    memories.push({
+      source,
+      sourceKey: dayKey,
+      memoryCreatedAt: first.time,
+      title: `${label}: ${dayKey}`,
+      metadata: {
+        dayKey,
+        postCount: dayPosts.length,
+        postIds: dayPosts.map((p) => p.id),
+        postUrls: dayPosts.map((p) => p.url),
+      },
+      content: dayPosts.map((p) => formatPost(p, postsById)).join('\n\n'),
+    })
+
+    for (const post of dayPosts) {
+      for (const media of post.media) {
+        memories.push({
+          source,
+          sourceKey: `media/${media.path}`,
+          memoryCreatedAt: post.time,
+          title: `${label} media: ${media.fileName}`,
+          metadata: {
+            postId: post.id,
+            postUrl: post.url,
+            fileName: media.fileName,
+            mimeType: getMimeType(media.fileName),
+            size: media.data.byteLength,
+          },
+          content: `Attached to ${post.url}`,
+          contentBlob: media.data,
+        })
+      }
+    }
+  }
+
+  memories.sort(
+    (a, b) => a.memoryCreatedAt.toMillis() - b.memoryCreatedAt.toMillis()
+  )
+  return memories
+}
+
+/**
+ * Imports posts from a Twitter/X archive ZIP.
+ *
+ * Tweets are grouped into one Memory per day. Links are expanded, replies and
+ * quote tweets carry the text they refer to when it's in the archive, and
+ * attached media files are imported as their own Memories.
+ */
+export async function importTwitterArchive(
+  filePath: string
+): Promise<NewMemory[]> {
+  d('starting Twitter import from file: %s', filePath)
+
+  const zip = await JSZip.loadAsync(await Bun.file(filePath).arrayBuffer())
+
+  const [accountFile] = zip.file(/(^|\/)data\/account\.js$/)
+  const username = accountFile
+    ? parseYtdFile<{ account?: { username?: string } }[]>(
+        await accountFile.async('string')
+      )[0]?.account?.username
+    : undefined
+  d('archive belongs to: %s', username ?? 'unknown')
+
+  const tweetFiles = zip.file(TWEETS_FILE_REGEX)
+  if (tweetFiles.length === 0) {
+    throw new Error('Invalid Twitter archive: missing data/tweets.js')
+  }
+
+  const tweets: TwitterTweet[] = []
+  for (const file of tweetFiles) {
+    const entries = parseYtdFile<({ tweet?: TwitterTweet } | TwitterTweet)[]>(
+      await file.async('string')
+    )
+    for (const entry of entries) {
+      tweets.push(
+        'tweet' in entry && entry.tweet ? entry.tweet : (entry as TwitterTweet)
+      )
+    }
+  }
+  d('parsed %d tweets', tweets.length)
+
+  const mediaByTweet = new Map<string, SocialMedia[]>()
+  for (const file of zip.file(TWEET_MEDIA_REGEX)) {
+    const [, , tweetId = '', name = ''] =
+      file.name.match(TWEET_MEDIA_REGEX) ?? []
+    const existing = mediaByTweet.get(tweetId) ?? []
+    existing.push({
+      fileName: `${tweetId}-${name}`,
+      path: file.name.slice(file.name.lastIndexOf('data/')),
+      data: await file.async('uint8array'),
+    })
+    mediaByTweet.set(tweetId, existing)
+  }
+
+  const posts: SocialPost[] = []
+  for (const tweet of tweets) {
+    const time = DateTime.fromFormat(tweet.created_at, TWITTER_DATE_FORMAT, {
+      setZone: true,
+    })
+    if (!time.isValid) {
+      d(
+        'skipping tweet %s with invalid date: %s',
+        tweet.id_str,
+        tweet.created_at
+      )
+      continue
+    }
+
+    const post: SocialPost = {
+      id: tweet.id_str,
+      url: username
+        ? `https://twitter.com/${username}/status/${tweet.id_str}`
+        : `https://twitter.com/i/web/status/${tweet.id_str}`,
+      time,
+      text: expandTweetText(tweet),
+      media: mediaByTweet.get(tweet.id_str) ?? [],
+    }
+
+    if (tweet.in_reply_to_status_id_str) {
+      post.replyTo = { id: tweet.in_reply_to_status_id_str }
+      if (tweet.in_reply_to_screen_name) {
+        post.replyTo.user = tweet.in_reply_to_screen_name
+      }
+    }
+
+    const quote = getTweetQuote(tweet)
+    if (quote) {
+      post.quote = quote
+    }
+
+    posts.push(post)
+  }
+
+  const memories = buildMemories('twitter', 'Twitter', posts)
+  d('import complete, created %d memories', memories.length)
+  return memories
+}
+
+/**
+ * Imports posts from a Mastodon archive: either the archive ZIP, or an
+ * extracted outbox.json with its media_attachments folder alongside.
+ *
+ * Posts and boosts are grouped into one Memory per day, and attached media
+ * files are imported as their own Memories.
+ */
+export async function importMastodonArchive(
+  filePath: string
+): Promise<NewMemory[]> {
+  d('starting Mastodon import from: %s', filePath)
+
+  let outbox: { orderedItems?: ActivityPubActivity[] }
+  let readMedia: (path: string) => Promise<Uint8Array | undefined>
+
+  if (filePath.toLowerCase().endsWith('.zip')) {
+    const zip = await JSZip.loadAsync(await Bun.file(filePath).arrayBuffer())
+    const [outboxFile] = zip.file(/(^|\/)outbox\.json$/)
+    if (!outboxFile) {
+      throw new Error('Invalid Mastodon archive: missing outbox.json')
+    }
+    outbox = JSON.parse(await outboxFile.async('string'))
+    const root = outboxFile.name.slice(0, -'outbox.json'.length)
+    readMedia = async (path) =>
+      await zip.file(`${root}${path.replace(/^\//, '')}`)?.async('uint8array')
+  } else {
+    outbox = await Bun.file(filePath).json()
+    readMedia = async (path) => {
+      const file = Bun.file(join(dirname(filePath), path))
+      return (await file.exists()) ? await file.bytes() : undefined
+    }
+  }
+
+  const activities = outbox.orderedItems ?? []
+  d('parsed %d activities', activities.length)
+
+  const posts: SocialPost[] = []
+  for (const activity of activities) {
+    const time = DateTime.fromISO(activity.published, { setZone: true })
+    if (!time.isValid) {
+      continue
+    }
+
+    if (activity.type === 'Announce') {
+      const target =
+        typeof activity.object === 'string'
+          ? activity.object
+          : activity.object.id
+      posts.push({
+        id: activity.id,
+        url: activity.id,
+        time,
+        text: `Boosted ${target}`,
+        media: [],
+      })
+      continue
+    }
+
+    if (activity.type !== 'Create' || typeof activity.object === 'string') {
+      continue
+    }
+
+    const note = activity.object
+    const body = htmlToText(note.content ?? '').trim()
+    const post: SocialPost = {
+      id: note.id,
+      url: note.url ?? note.id,
+      time,
+      text: note.summary ? `CW: ${note.summary}\n${body}` : body,
+      media: [],
+    }
+
+    if (note.inReplyTo) {
+      post.replyTo = { id: note.inReplyTo, url: note.inReplyTo }
+      const user = userFromMastodonUrl(note.inReplyTo)
+      if (user) {
+        post.replyTo.user = user
+      }
+    }
+
+    const quote = note.quoteUrl ?? note.quoteUri
+    if (quote) {
+      post.quote = { id: quote, url: quote }
+      const user = userFromMastodonUrl(quote)
+      if (user) {
+        post.quote.user = user
+      }
+    }
+
+    for (const attachment of note.attachment ?? []) {
+      const data = await readMedia(attachment.url)
+      if (!data) {
+        d('media file missing from archive: %s', attachment.url)
+        continue
+      }
+      const name = attachment.url.split('/').at(-1) ?? attachment.url
+      post.media.push({
+        fileName: name,
+        path: attachment.url.replace(/^\//, ''),
+        data,
+      })
+    }
+
+    posts.push(post)
+  }
+
+  const memories = buildMemories('mastodon', 'Mastodon', posts)
+  d('import complete, created %d memories', memories.length)
+  return memories
+}
+
+export const twitterImporter: ImporterDefinition = {
+  name: 'twitter',
+  description: 'Twitter/X archive (.zip)',
+  run: (path) => streamAll(importTwitterArchive(path)),
+}
+
+export const mastodonImporter: ImporterDefinition = {
+  name: 'mastodon',
+  description: 'Mastodon archive (.zip or outbox.json)',
+  run: (path) => streamAll(importMastodonArchive(path)),
+}
@@ -0,0 +1,11 @@
+/**
+ * Adapts an importer that builds its whole result up front to the streaming
+ * importer contract. Sources that have to be sorted or grouped in full before
+ * anything can be emitted (e.g. one memory per day across a whole archive)
+ * use this rather than pretending to stream.
+ */
+export async function* streamAll<T>(
+  items: Promise<Iterable<T>>
+): AsyncGenerator<T> {
+  yield* await items
+}
@@ -0,0 +1,27 @@
+import type { DateTime } from 'luxon'
+
+/**
+ * Builds a fixed-offset Luxon zone name (e.g. "UTC+5:30") from an offset in
+ * minutes. Importers use this to pin a memory to the offset it was recorded
+ * in, rather than whatever zone the importing machine happens to be in.
+ */
+export function fixedOffsetZone(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+'
+  const hours = Math.floor(Math.abs(offsetMinutes) / 60)
+  const minutes = Math.abs(offsetMinutes) % 60
+
+  if (minutes === 0) {
+    return `UTC${sign}${hours}`
+  }
+  return `UTC${sign}${hours}:${String(minutes).padStart(2, '0')}`
+}
+
+/**
+ * Moves a UTC instant into the importing machine's zone, pinned to the UTC
+ * offset in effect at that instant. Used for sources that only record UTC
+ * times (scrobbles, posts) so their days line up with local-time sources.
+ */
+export function toLocalFixedOffset(date: DateTime): DateTime {
+  const local = date.toLocal()
+  return local.setZone(fixedOffsetZone(local.offset))
+}
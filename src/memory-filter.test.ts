@@ -0,0 +1,137 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import type { Kysely } from 'kysely'
+import { DateTime } from 'luxon'
+import { getMemories, importData } from './db-operations'
+import { type MemoryFilter, parseMetadataMatch } from './memory-filter'
+import { createDatabase, type DatabaseSchema, type NewMemory } from './types'
+
+const records: NewMemory[] = [
+  {
+    source: 'obsidian',
+    sourceKey: 'Projects/Istoria/Plan.md',
+    memoryCreatedAt: DateTime.fromISO('2024-11-02T10:00:00Z'),
+    title: 'Plan',
+    metadata: {
+      originalPath: 'Projects/Istoria/Plan.md',
+      tags: ['project', 'istoria'],
+    },
+  },
+  {
+    source: 'obsidian',
+    sourceKey: 'Daily/2025-01-05.md',
+    memoryCreatedAt: DateTime.fromISO('2025-01-05T00:00:00+01:00'),
+    title: '2025-01-05',
+    metadata: { originalPath: 'Daily/2025-01-05.md', tags: ['daily'] },
+  },
+  {
+    source: 'daylio',
+    sourceKey: '2025-01-05',
+    memoryCreatedAt: DateTime.fromISO('2025-01-05T21:00:00+01:00'),
+    title: 'Daylio: 2025-01-05',
+    metadata: { dayKey: '2025-01-05', entryCount: 2 },
+  },
+  {
+    source: 'slack',
+    sourceKey: 'general/2025-02-10',
+    memoryCreatedAt: DateTime.fromISO('2025-02-10T09:00:00-08:00'),
+    title: 'Slack: #general 2025-02-10',
+    metadata: { channel: 'general', dayKey: '2025-02-10' },
+  },
+]
+
+describe('memoryFilter', () => {
+  let db: Kysely<DatabaseSchema>
+  let cleanup: () => Promise<void>
+
+  beforeAll(async () => {
+    ;[db, cleanup] = await createDatabase(':memory:')
+    await importData(db, records)
+  })
+
+  afterAll(async () => {
+    await cleanup()
+  })
+
+  const keys = async (filter: MemoryFilter) =>
+    (await getMemories(db, filter)).map((m) => m.sourceKey)
+
+  test('an empty filter matches everything, oldest first', async () => {
+    expect(await keys({})).toEqual([
+      'Projects/Istoria/Plan.md',
+      'Daily/2025-01-05.md',
+      '2025-01-05',
+      'general/2025-02-10',
+    ])
+  })
+
+  test('filters by date range as instants', async () => {
+    expect(
+      await keys({
+        // Midnight at +01:00 is 23:00 UTC, so the daily note is excluded
+        // even though its local timestamp sorts after this one
+        since: DateTime.fromISO('2025-01-04T23:30:00Z'),
+        until: DateTime.fromISO('2025-01-31T23:59:59Z'),
+      })
+    ).toEqual(['2025-01-05'])
+  })
+
+  test('includes and excludes sources', async () => {
+    expect(await keys({ sources: ['daylio', 'slack'] })).toEqual([
+      '2025-01-05',
+      'general/2025-02-10',
+    ])
+    expect(await keys({ excludeSources: ['obsidian', 'slack'] })).toEqual([
+      '2025-01-05',
+    ])
+  })
+
+  test('matches title globs', async () => {
+    expect(await keys({ titles: ['2025-*', 'Slack: *'] })).toEqual([
+      'Daily/2025-01-05.md',
+      'general/2025-02-10',
+    ])
+    expect(
+      await keys({ sources: ['obsidian'], excludeTitles: ['2025-*'] })
+    ).toEqual(['Projects/Istoria/Plan.md'])
+  })
+
+  test('matches path prefixes, falling back to the source key', async () => {
+    expect(await keys({ pathPrefixes: ['Projects/'] })).toEqual([
+      'Projects/Istoria/Plan.md',
+    ])
+    expect(await keys({ pathPrefixes: ['general/'] })).toEqual([
+      'general/2025-02-10',
+    ])
+    // Prefixes are literal, not LIKE patterns
+    expect(await keys({ pathPrefixes: ['Daily_'] })).toEqual([])
+    expect(
+      await keys({ sources: ['obsidian'], excludePathPrefixes: ['Daily/'] })
+    ).toEqual(['Projects/Istoria/Plan.md'])
+  })
+
+  test('matches metadata keys, values and array elements', async () => {
+    expect(await keys({ metadata: [{ key: 'channel' }] })).toEqual([
+      'general/2025-02-10',
+    ])
+    expect(
+      await keys({ metadata: [{ key: 'tags', value: 'istoria' }] })
+    ).toEqual(['Projects/Istoria/Plan.md'])
+    expect(
+      await keys({ metadata: [{ key: 'entryCount', value: '2' }] })
+    ).toEqual(['2025-01-05'])
+    expect(
+      await keys({
+        excludeMetadata: [{ key: 'tags' }, { key: 'channel' }],
+      })
+    ).toEqual(['2025-01-05'])
+  })
+
+  test('parses metadata matches', () => {
+    expect(parseMetadataMatch('tags')).toEqual({ key: 'tags' })
+    expect(parseMetadataMatch('tags=a=b')).toEqual({
+      key: 'tags',
+      value: 'a=b',
+    })
+    expect(() => parseMetadataMatch('=x')).toThrow()
+  })
+})
@@ -0,0 +1,118 @@
+import {
+  type Expression,
+  type ExpressionBuilder,
+  type SqlBool,
+  sql,
+} from 'kysely'
+import type { DateTime } from 'luxon'
+import type { DatabaseSchema } from './types'
+
+/**
+ * Matches memories whose metadata has `key`, or, when `value` is given, whose
+ * `key` equals it. Array values (e.g. tags) match if any element does.
+ */
+export interface MetadataMatch {
+  key: string
+  value?: string
+}
+
+/**
+ * Selects a subset of memories. Every field is optional and the conditions
+ * are combined with AND. Within a list, includes match any entry and excludes
+ * reject any entry, except metadata includes, which must all match.
+ */
+export interface MemoryFilter {
+  since?: DateTime
+  until?: DateTime
+  sources?: string[]
+  excludeSources?: string[]
+  // SQLite GLOB patterns (case-sensitive, e.g. "Daylio: 2025-*")
+  titles?: string[]
+  excludeTitles?: string[]
+  // Prefixes of the memory's original path (the originalPath metadata that
+  // file-based importers record, otherwise the sourceKey)
+  pathPrefixes?: string[]
+  excludePathPrefixes?: string[]
+  metadata?: MetadataMatch[]
+  excludeMetadata?: MetadataMatch[]
+}
+
+/**
+ * Parses a "key" or "key=value" metadata match.
+ */
+export function parseMetadataMatch(text: string): MetadataMatch {
+  const index = text.indexOf('=')
+  const key = index === -1 ? text : text.slice(0, index)
+  if (!key || key.includes('"')) {
+    throw new Error(`Invalid metadata match: ${text}`)
+  }
+  return index === -1 ? { key } : { key, value: text.slice(index + 1) }
+}
+
+function matchesPathPrefix(prefix: string): Expression<SqlBool> {
+  return sql<SqlBool>`substr(coalesce(json_extract(memory.metadata, '$.originalPath'), memory.sourceKey), 1, ${prefix.length}) = ${prefix}`
+}
+
+function matchesMetadata({ key, value }: MetadataMatch): Expression<SqlBool> {
+  const path = `$."${key}"`
+  if (value === undefined) {
+    return sql<SqlBool>`json_type(memory.metadata, ${path}) is not null`
+  }
+  // json_each yields a scalar as a single row, so this covers both plain
+  // values and arrays
+  return sql<SqlBool>`exists (select 1 from json_each(memory.metadata, ${path}) where cast(json_each.value as text) = ${value})`
+}
+
+/**
+ * Builds the WHERE condition for a filter, for use with
+ * `.where((eb) => memoryFilter(eb, filter))` on any query that selects from
+ * the memory table.
+ */
+export function memoryFilter(
+  eb: ExpressionBuilder<DatabaseSchema, 'memory'>,
+  filter: MemoryFilter
+): Expression<SqlBool> {
+  const conditions: Expression<SqlBool>[] = []
+
+  // Compare as instants, since stored timestamps carry different offsets
+  if (filter.since) {
+    conditions.push(eb('memory.memoryInstant', '>=', filter.since.toMillis()))
+  }
+  if (filter.until) {
+    conditions.push(eb('memory.memoryInstant', '<=', filter.until.toMillis()))
+  }
+
+  if (filter.sources?.length) {
+    conditions.push(eb('memory.source', 'in', filter.sources))
+  }
+  if (filter.excludeSources?.length) {
+    conditions.push(eb('memory.source', 'not in', filter.excludeSources))
+  }
+
+  if (filter.titles?.length) {
+    conditions.push(
+      eb.or(
+        filter.titles.map((glob) => sql<SqlBool>`memory.title glob ${glob}`)
+      )
+    )
+  }
+  for (const glob of filter.excludeTitles ?? []) {
+    conditions.push(sql<SqlBool>`not (memory.title glob ${glob})`)
+  }
+
+  if (filter.pathPrefixes?.length) {
+    conditions.push(eb.or(filter.pathPrefixes.map(matchesPathPrefix)))
+  }
+  for (const prefix of filter.excludePathPrefixes ?? []) {
+    conditions.push(eb.not(matchesPathPrefix(prefix)))
+  }
+
+  for (const match of filter.metadata ?? []) {
+    conditions.push(matchesMetadata(match))
+  }
+  for (const match of filter.excludeMetadata ?? []) {
+    conditions.push(eb.not(matchesMetadata(match)))
+  }
+
+  return eb.and(conditions)
+}
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import type { Kysely } from 'kysely'
+import { DateTime } from 'luxon'
+import { importData } from './db-operations'
+import { getBacklinks } from './memory-links'
+import {
+  createDatabase,
+  type DatabaseSchema,
+  type ImportedMemory,
+  type LinkReference,
+} from './types'
+
+function note(
+  sourceKey: string,
+  links: LinkReference[],
+  extra: Partial<ImportedMemory> = {}
+): ImportedMemory {
+  return {
+    source: 'obsidian',
+    sourceKey,
+    memoryCreatedAt: DateTime.fromISO('2025-01-01T10:00:00Z'),
+    title: sourceKey.replace(/^.*\//, '').replace(/\.md$/, ''),
+    metadata: { originalPath: sourceKey },
+    content: links.map((link) => link.raw).join('\n'),
+    links,
+    ...extra,
+  }
+}
+
+function link(target: string, extra: Partial<LinkReference> = {}) {
+  return {
+    linkType: 'link' as const,
+    target,
+    raw: `[[${target}]]`,
+    ...extra,
+  }
+}
+
+describe('memory links', () => {
+  let db: Kysely<DatabaseSchema>
+  let cleanup: () => Promise<void>
+
+  beforeEach(async () => {
+    ;[db, cleanup] = await createDatabase(':memory:')
+  })
+
+  afterEach(async () => {
+    await cleanup()
+  })
+
+  const resolvedTargets = async () => {
+    const rows = await db
+      .selectFrom('memory_link')
+      .innerJoin('memory as source', 'source.id', 'memory_link.sourceId')
+      .leftJoin('memory as target', 'target.id', 'memory_link.targetId')
+      .select([
+        'source.sourceKey as from',
+        'memory_link.raw',
+        'target.sourceKey as to',
+      ])
+      .orderBy('memory_link.id')
+      .execute()
+    return rows.map((row) => [row.from, row.raw, row.to])
+  }
+
+  test('resolves names, paths, aliases and same-note references', async () => {
+    await importData(db, [
+      note('Index.md', [
+        link('Lisbon'),
+        link('Trips/Lisbon'),
+        link('Archive/Lisbon.md'),
+        link('Portugal trip'),
+        link('lisbon', { subpath: '#Day 2', raw: '[[lisbon#Day 2]]' }),
+        link('', { subpath: '#Top', raw: '[[#Top]]' }),
+        link('Nowhere'),
+      ]),
+      note('Trips/Lisbon.md', [], {
+        metadata: { originalPath: 'Trips/Lisbon.md', aliases: 'Portugal trip' },
+      }),
+      note('Archive/2019/Lisbon.md', []),
+    ])
+
+    expect(await resolvedTargets()).toEqual([
+      // Bare names prefer the shortest path
+      ['Index.md', '[[Lisbon]]', 'Trips/Lisbon.md'],
+      ['Index.md', '[[Trips/Lisbon]]', 'Trips/Lisbon.md'],
+      ['Index.md', '[[Archive/Lisbon.md]]', null],
+      ['Index.md', '[[Portugal trip]]', 'Trips/Lisbon.md'],
+      ['Index.md', '[[lisbon#Day 2]]', 'Trips/Lisbon.md'],
+      ['Index.md', '[[#Top]]', 'Index.md'],
+      ['Index.md', '[[Nowhere]]', null],
+    ])
+  })
+
+  test('keeps unresolved links until their target is imported', async () => {
+    await importData(db, [note('A.md', [link('B')])])
+    expect(await resolvedTargets()).toEqual([['A.md', '[[B]]', null]])
+
+    await importData(db, [note('B.md', [])])
+    expect(await resolvedTargets()).toEqual([['A.md', '[[B]]', 'B.md']])
+  })
+
+  test('only links within the same source', async () => {
+    await importData(db, [
+      note('A.md', [link('2025-01-01')]),
+      { ...note('2025-01-01', []), source: 'daylio' },
+    ])
+    expect(await resolvedTargets()).toEqual([['A.md', '[[2025-01-01]]', null]])
+  })
+
+  test('replaces links when a memory changes', async () => {
+    await importData(db, [note('A.md', [link('B')]), note('B.md', [])])
+    await importData(db, [note('A.md', [link('C')]), note('C.md', [])])
+
+    expect(await resolvedTargets()).toEqual([['A.md', '[[C]]', 'C.md']])
+  })
+
+  test('deleting memories removes or unresolves their links', async () => {
+    await importData(db, [note('A.md', [link('B')]), note('B.md', [link('A')])])
+
+    await db.deleteFrom('memory').where('sourceKey', '=', 'B.md').execute()
+    expect(await resolvedTargets()).toEqual([['A.md', '[[B]]', null]])
+  })
+
+  test('lists backlinks, excluding links to self', async () => {
+    await importData(db, [
+      note('A.md', [link('C'), link('', { raw: '[[#Self]]' })]),
+      note('B.md', [link('C'), link('C', { raw: '[[C|again]]' })]),
+      note('C.md', []),
+    ])
+
+    const backlinks = await getBacklinks(db, {})
+    expect(backlinks.map((b) => b.title).sort()).toEqual(['A', 'B'])
+  })
+})
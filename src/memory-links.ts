@@ -0,0 +1,249 @@
+import createDebug from 'debug'
+import { type Kysely, sql, type Transaction } from 'kysely'
+import { type MemoryFilter, memoryFilter } from './memory-filter'
+import type { DatabaseSchema, LinkReference, Memory } from './types'
+
+const d = createDebug('istoria:links')
+
+export interface Embed {
+  sourceId: string
+  raw: string
+  subpath: string | null
+  target: Memory
+}
+
+export interface Backlink {
+  targetId: string
+  sourceId: string
+  title: string
+}
+
+interface Candidate {
+  id: string
+  sourceKey: string
+  priority: number
+}
+
+/**
+ * Normalizes a link target or path for matching: case-insensitive, without a
+ * leading "./" or "/" and without a .md extension, as Obsidian does.
+ */
+function normalizeLinkTarget(target: string): string {
+  return target
+    .trim()
+    .toLowerCase()
+    .replace(/^\.?\//, '')
+    .replace(/\.md$/, '')
+}
+
+/**
+ * Replaces the outgoing links of a memory. New links start out unresolved;
+ * resolveMemoryLinks fills in their targets once the batch is written.
+ */
+export async function replaceMemoryLinks(
+  trx: Transaction<DatabaseSchema>,
+  sourceId: string,
+  links: LinkReference[]
+): Promise<void> {
+  await trx.deleteFrom('memory_link').where('sourceId', '=', sourceId).execute()
+  if (links.length === 0) {
+    return
+  }
+
+  await trx
+    .insertInto('memory_link')
+    .values(
+      links.map((link) => ({
+        sourceId,
+        targetId: null,
+        linkType: link.linkType,
+        target: link.target,
+        subpath: link.subpath ?? null,
+        anchorText: link.anchorText ?? null,
+        raw: link.raw,
+      }))
+    )
+    .execute()
+}
+
+/**
+ * Builds a lookup from every name a memory can be linked by to the best
+ * matching memory. Full paths win over partial paths (e.g. "Folder/Note" or
+ * "Note"), which win over titles and aliases; ties go to the shortest path.
+ */
+async function buildTargetIndex(
+  db: Kysely<DatabaseSchema>,
+  source: string
+): Promise<Map<string, Candidate>> {
+  const index = new Map<string, Candidate>()
+  const add = (key: string, candidate: Candidate) => {
+    const existing = index.get(key)
+    if (
+      !existing ||
+      candidate.priority < existing.priority ||
+      (candidate.priority === existing.priority &&
+        candidate.sourceKey.length < existing.sourceKey.length)
+    ) {
+      index.set(key, candidate)
+    }
+  }
+
+  const memories = await db
+    .selectFrom('memory')
+    .select(['id', 'sourceKey', 'title'])
+    .where('source', '=', source)
+    .execute()
+
+  for (const { id, sourceKey, title } of memories) {
+    const path = normalizeLinkTarget(sourceKey)
+    add(path, { id, sourceKey, priority: 0 })
+
+    // Every trailing part of the path, down to the bare file name
+    const parts = path.split('/')
+    for (let i = 1; i < parts.length; i++) {
+      add(parts.slice(i).join('/'), { id, sourceKey, priority: 1 })
+    }
+
+    add(normalizeLinkTarget(title), { id, sourceKey, priority: 2 })
+  }
+
+  // Aliases may be a single string or a list; json_each yields either way
+  const { rows: aliases } = await sql<{
+    id: string
+    sourceKey: string
+    alias: unknown
+  }>`
+    SELECT memory.id, memory.sourceKey, alias.value AS alias
+    FROM memory, json_each(memory.metadata, '$.aliases') AS alias
+    WHERE memory.source = ${source}
+  `.execute(db)
+  for (const { id, sourceKey, alias } of aliases) {
+    if (typeof alias === 'string') {
+      add(normalizeLinkTarget(alias), { id, sourceKey, priority: 2 })
+    }
+  }
+
+  return index
+}
+
+/**
+ * Resolves unresolved links to memories from the same source, matching on
+ * path, file name, title or alias. Links to the same note (e.g.
+ * [[#Heading]]) resolve to the linking memory. Returns how many links were
+ * resolved; the rest stay unresolved for a later pass.
+ */
+export async function resolveMemoryLinks(
+  db: Kysely<DatabaseSchema>
+): Promise<number> {
+  const unresolved = await db
+    .selectFrom('memory_link')
+    .innerJoin('memory', 'memory.id', 'memory_link.sourceId')
+    .select([
+      'memory_link.id',
+      'memory_link.sourceId',
+      'memory_link.target',
+      'memory.source',
+    ])
+    .where('memory_link.targetId', 'is', null)
+    .execute()
+  if (unresolved.length === 0) {
+    return 0
+  }
+
+  const indexes = new Map<string, Map<string, Candidate>>()
+  const resolved: { id: number; targetId: string }[] = []
+  for (const link of unresolved) {
+    if (!link.target) {
+      resolved.push({ id: link.id, targetId: link.sourceId })
+      continue
+    }
+
+    let index = indexes.get(link.source)
+    if (!index) {
+      index = await buildTargetIndex(db, link.source)
+      indexes.set(link.source, index)
+    }
+
+    const candidate = index.get(normalizeLinkTarget(link.target))
+    if (candidate) {
+      resolved.push({ id: link.id, targetId: candidate.id })
+    }
+  }
+
+  await db.transaction().execute(async (trx) => {
+    for (const { id, targetId } of resolved) {
+      await trx
+        .updateTable('memory_link')
+        .set({ targetId })
+        .where('id', '=', id)
+        .execute()
+    }
+  })
+
+  d('resolved %d of %d unresolved links', resolved.length, unresolved.length)
+  return resolved.length
+}
+
+/**
+ * Fetches the resolved embeds of the memories matching a filter, with the
+ * embedded memory.
+ */
+export async function getEmbeds(
+  db: Kysely<DatabaseSchema>,
+  filter: MemoryFilter
+): Promise<Embed[]> {
+  const rows = await db
+    .selectFrom('memory_link')
+    .innerJoin('memory', 'memory.id', 'memory_link.targetId')
+    .selectAll('memory')
+    .select([
+      'memory_link.sourceId as linkSourceId',
+      'memory_link.raw as linkRaw',
+      'memory_link.subpath as linkSubpath',
+    ])
+    .where('memory_link.linkType', '=', 'embed')
+    .where('memory_link.sourceId', 'in', (eb) =>
+      eb
+        .selectFrom('memory')
+        .select('memory.id')
+        .where((eb) => memoryFilter(eb, filter))
+    )
+    .execute()
+
+  return rows.map(({ linkSourceId, linkRaw, linkSubpath, ...target }) => ({
+    sourceId: linkSourceId,
+    raw: linkRaw,
+    subpath: linkSubpath,
+    target,
+  }))
+}
+
+/**
+ * Fetches the memories linking to each of the memories matching a filter,
+ * excluding links from a memory to itself. Linking memories are included
+ * whether or not they match the filter.
+ */
+export async function getBacklinks(
+  db: Kysely<DatabaseSchema>,
+  filter: MemoryFilter
+): Promise<Backlink[]> {
+  return db
+    .selectFrom('memory_link')
+    .innerJoin('memory', 'memory.id', 'memory_link.sourceId')
+    .select([
+      'memory_link.targetId as targetId',
+      'memory_link.sourceId as sourceId',
+      'memory.title as title',
+    ])
+    .distinct()
+    .where('memory_link.targetId', 'in', (eb) =>
+      eb
+        .selectFrom('memory')
+        .select('memory.id')
+        .where((eb) => memoryFilter(eb, filter))
+    )
+    .whereRef('memory_link.sourceId', '!=', 'memory_link.targetId')
+    .$narrowType<{ targetId: string }>()
+    .orderBy('memory.memoryInstant', 'asc')
+    .execute()
+}
@@ -0,0 +1,46 @@
+import type { Kysely } from 'kysely'
+import { sql } from 'kysely'
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // sourceKey is the stable, per-source identity of a memory (e.g. the vault
+  // path for Obsidian or the day for Daylio), so that re-imports update rows
+  // instead of duplicating them
+  await db.schema.alterTable('memory').addColumn('sourceKey', 'text').execute()
+
+  // contentHash lets re-imports skip rows that haven't changed
+  await db.schema
+    .alterTable('memory')
+    .addColumn('contentHash', 'text')
+    .execute()
+
+  // Backfill keys for rows written before this migration from the metadata
+  // the importers already recorded, falling back to the row id
+  await sql`
+    UPDATE memory SET sourceKey = coalesce(
+      json_extract(metadata, '$.originalPath'),
+      json_extract(metadata, '$.dayKey'),
+      id
+    )
+  `.execute(db)
+
+  // Earlier imports blindly inserted, so collapse any duplicates down to the
+  // most recently written row before adding the unique constraint
+  await sql`
+    DELETE FROM memory WHERE rowid NOT IN (
+      SELECT max(rowid) FROM memory GROUP BY source, sourceKey
+    )
+  `.execute(db)
+
+  await db.schema
+    .createIndex('idx_memory_source_sourceKey')
+    .on('memory')
+    .columns(['source', 'sourceKey'])
+    .unique()
+    .execute()
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.dropIndex('idx_memory_source_sourceKey').execute()
+  await db.schema.alterTable('memory').dropColumn('contentHash').execute()
+  await db.schema.alterTable('memory').dropColumn('sourceKey').execute()
+}
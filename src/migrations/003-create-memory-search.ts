@@ -0,0 +1,53 @@
+import type { Kysely } from 'kysely'
+import { sql } from 'kysely'
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // Full-text index over memory titles and content. This keeps its own copy
+  // of the text keyed by memory id, rather than using an external-content
+  // table, because memory has a text primary key and its rowids aren't
+  // stable across VACUUM
+  await sql`
+    CREATE VIRTUAL TABLE memory_fts USING fts5(
+      id UNINDEXED,
+      title,
+      content,
+      tokenize = 'porter unicode61'
+    )
+  `.execute(db)
+
+  // Keep the index in sync with the memory table
+  await sql`
+    CREATE TRIGGER memory_fts_insert AFTER INSERT ON memory BEGIN
+      INSERT INTO memory_fts (id, title, content)
+      VALUES (new.id, new.title, new.content);
+    END
+  `.execute(db)
+
+  await sql`
+    CREATE TRIGGER memory_fts_delete AFTER DELETE ON memory BEGIN
+      DELETE FROM memory_fts WHERE id = old.id;
+    END
+  `.execute(db)
+
+  await sql`
+    CREATE TRIGGER memory_fts_update AFTER UPDATE OF id, title, content
+    ON memory BEGIN
+      DELETE FROM memory_fts WHERE id = old.id;
+      INSERT INTO memory_fts (id, title, content)
+      VALUES (new.id, new.title, new.content);
+    END
+  `.execute(db)
+
+  // Index everything imported before this migration
+  await sql`
+    INSERT INTO memory_fts (id, title, content)
+    SELECT id, title, content FROM memory
+  `.execute(db)
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await sql`DROP TRIGGER memory_fts_update`.execute(db)
+  await sql`DROP TRIGGER memory_fts_delete`.execute(db)
+  await sql`DROP TRIGGER memory_fts_insert`.execute(db)
+  await sql`DROP TABLE memory_fts`.execute(db)
+}
@@ -0,0 +1,38 @@
+import type { Kysely } from 'kysely'
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // Links between memories, e.g. Obsidian [[wikilinks]] and ![[embeds]].
+  // Links are recorded even when their target hasn't been imported (yet), with
+  // a null targetId, so a later import can resolve them
+  await db.schema
+    .createTable('memory_link')
+    .addColumn('id', 'integer', (col) => col.primaryKey().autoIncrement())
+    .addColumn('sourceId', 'text', (col) =>
+      col.notNull().references('memory.id').onDelete('cascade')
+    )
+    .addColumn('targetId', 'text', (col) =>
+      col.references('memory.id').onDelete('set null')
+    )
+    .addColumn('linkType', 'text', (col) => col.notNull())
+    .addColumn('target', 'text', (col) => col.notNull())
+    .addColumn('subpath', 'text')
+    .addColumn('anchorText', 'text')
+    .addColumn('raw', 'text', (col) => col.notNull())
+    .execute()
+
+  await db.schema
+    .createIndex('idx_memory_link_sourceId')
+    .on('memory_link')
+    .column('sourceId')
+    .execute()
+
+  await db.schema
+    .createIndex('idx_memory_link_targetId')
+    .on('memory_link')
+    .column('targetId')
+    .execute()
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.dropTable('memory_link').execute()
+}
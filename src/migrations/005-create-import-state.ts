@@ -0,0 +1,20 @@
+import type { Kysely } from 'kysely'
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // What was last imported from each item (e.g. file) of a source, so a sync
+  // can skip unchanged items and notice moved and removed ones. mtime is in
+  // milliseconds since the epoch
+  await db.schema
+    .createTable('import_state')
+    .addColumn('source', 'text', (col) => col.notNull())
+    .addColumn('path', 'text', (col) => col.notNull())
+    .addColumn('size', 'integer', (col) => col.notNull())
+    .addColumn('mtime', 'integer', (col) => col.notNull())
+    .addColumn('contentHash', 'text', (col) => col.notNull())
+    .addPrimaryKeyConstraint('pk_import_state', ['source', 'path'])
+    .execute()
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.dropTable('import_state').execute()
+}
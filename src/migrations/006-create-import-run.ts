@@ -0,0 +1,65 @@
+import type { Kysely } from 'kysely'
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // One row per `istoria import`, recording where the data came from and what
+  // the import did
+  await db.schema
+    .createTable('import_run')
+    .addColumn('id', 'integer', (col) => col.primaryKey().autoIncrement())
+    .addColumn('source', 'text', (col) => col.notNull())
+    .addColumn('inputPath', 'text', (col) => col.notNull())
+    .addColumn('inputHash', 'text')
+    .addColumn('startedAt', 'text', (col) => col.notNull())
+    .addColumn('finishedAt', 'text')
+    .addColumn('inserted', 'integer', (col) => col.notNull().defaultTo(0))
+    .addColumn('updated', 'integer', (col) => col.notNull().defaultTo(0))
+    .addColumn('unchanged', 'integer', (col) => col.notNull().defaultTo(0))
+    .addColumn('removed', 'integer', (col) => col.notNull().defaultTo(0))
+    .addColumn('error', 'text')
+    .addColumn('undoneAt', 'text')
+    .execute()
+
+  // The run that last wrote each memory. Null for memories written before
+  // runs were recorded
+  await db.schema
+    .alterTable('memory')
+    .addColumn('importRunId', 'integer', (col) =>
+      col.references('import_run.id').onDelete('set null')
+    )
+    .execute()
+
+  await db.schema
+    .createIndex('idx_memory_importRunId')
+    .on('memory')
+    .column('importRunId')
+    .execute()
+
+  // Memories as they were before a run updated or removed them, with their
+  // outgoing links, so the run can be undone
+  await db.schema
+    .createTable('memory_snapshot')
+    .addColumn('runId', 'integer', (col) =>
+      col.notNull().references('import_run.id').onDelete('cascade')
+    )
+    .addColumn('memoryId', 'text', (col) => col.notNull())
+    .addColumn('source', 'text', (col) => col.notNull())
+    .addColumn('sourceKey', 'text', (col) => col.notNull())
+    .addColumn('contentHash', 'text')
+    .addColumn('createdAt', 'text', (col) => col.notNull())
+    .addColumn('memoryCreatedAt', 'text', (col) => col.notNull())
+    .addColumn('title', 'text', (col) => col.notNull())
+    .addColumn('metadata', 'json', (col) => col.notNull())
+    .addColumn('content', 'text')
+    .addColumn('contentBlob', 'blob')
+    .addColumn('importRunId', 'integer')
+    .addColumn('links', 'json', (col) => col.notNull())
+    .addPrimaryKeyConstraint('pk_memory_snapshot', ['runId', 'memoryId'])
+    .execute()
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.dropTable('memory_snapshot').execute()
+  await db.schema.dropIndex('idx_memory_importRunId').execute()
+  await db.schema.alterTable('memory').dropColumn('importRunId').execute()
+  await db.schema.dropTable('import_run').execute()
+}
@@ -0,0 +1,50 @@
+import type { Kysely } from 'kysely'
+import { sql } from 'kysely'
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // memoryCreatedAt keeps whatever offset the importer used, so its text
+  // doesn't sort chronologically. memoryInstant is the same moment in
+  // milliseconds since the epoch (UTC), derived by SQLite so that every way
+  // of writing a memory keeps it up to date, and indexed for ordering
+  await db.schema
+    .alterTable('memory')
+    .addColumn('memoryInstant', 'integer', (col) =>
+      col.generatedAlwaysAs(
+        sql`cast(round((julianday(memoryCreatedAt) - 2440587.5) * 86400000) as integer)`
+      )
+    )
+    .execute()
+
+  await db.schema
+    .createIndex('idx_memory_memoryInstant')
+    .on('memory')
+    .column('memoryInstant')
+    .execute()
+
+  // The zone the memory happened in, e.g. "Europe/Berlin", or a fixed offset
+  // like "UTC+5:30" when that's all the importer knew. Existing rows only
+  // have the offset in memoryCreatedAt to go on
+  for (const table of ['memory', 'memory_snapshot']) {
+    await db.schema
+      .alterTable(table)
+      .addColumn('memoryZone', 'text', (col) => col.notNull().defaultTo('UTC'))
+      .execute()
+
+    await sql`
+      UPDATE ${sql.table(table)} SET memoryZone = CASE
+        WHEN memoryCreatedAt LIKE '%Z' THEN 'UTC'
+        ELSE 'UTC' || substr(memoryCreatedAt, -6)
+      END
+    `.execute(db)
+  }
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .alterTable('memory_snapshot')
+    .dropColumn('memoryZone')
+    .execute()
+  await db.schema.alterTable('memory').dropColumn('memoryZone').execute()
+  await db.schema.dropIndex('idx_memory_memoryInstant').execute()
+  await db.schema.alterTable('memory').dropColumn('memoryInstant').execute()
+}
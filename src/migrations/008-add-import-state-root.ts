@@ -0,0 +1,12 @@
+import type { Kysely } from 'kysely'
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // The directory (e.g. vault) an item was imported from, so a sync of one
+  // only removes what it recorded itself. Items recorded before this are
+  // claimed by the first sync that finds them
+  await db.schema.alterTable('import_state').addColumn('root', 'text').execute()
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.alterTable('import_state').dropColumn('root').execute()
+}
@@ -5,8 +5,15 @@ import type { MigrationProvider } from 'kysely'
 // in both dev mode and single-file executable mode.
 
 import * as m1 from './001-create-memory-table'
+import * as m2 from './002-add-source-key'
+import * as m3 from './003-create-memory-search'
+import * as m4 from './004-create-memory-link'
+import * as m5 from './005-create-import-state'
+import * as m6 from './006-create-import-run'
+import * as m7 from './007-add-memory-instant'
+import * as m8 from './008-add-import-state-root'
 
-const migrations = [m1]
+const migrations = [m1, m2, m3, m4, m5, m6, m7, m8]
 
 export const migrator: MigrationProvider = {
   async getMigrations() {
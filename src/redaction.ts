@@ -0,0 +1,390 @@
+import { readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import createDebug from 'debug'
+
+const d = createDebug('istoria:redaction')
+
+export type DetectorName = 'email' | 'phone' | 'creditCard' | 'apiKey'
+
+/**
+ * A custom pattern from a rules file. `pattern` is a JavaScript regular
+ * expression; every match is replaced with `replacement`.
+ */
+export interface PatternRule {
+  name: string
+  pattern: string
+  flags?: string
+  replacement?: string
+}
+
+/**
+ * What to redact, as read from a rules file (JSON). Every field is optional:
+ * the built-in detectors all run unless `detectors` lists a subset, and
+ * `names` maps each name to its pseudonym, or lists names to be numbered
+ * "Person 1", "Person 2" and so on.
+ */
+export interface RedactionRules {
+  detectors?: DetectorName[]
+  patterns?: PatternRule[]
+  names?: string[] | Record<string, string | null>
+}
+
+export interface RedactionMatch {
+  // The detector, pattern name, or "name" for the names list
+  rule: string
+  text: string
+  replacement: string
+}
+
+export interface Redactor {
+  redact(text: string): { text: string; matches: RedactionMatch[] }
+}
+
+/**
+ * The matches of one output file. Exporters collect these as they redact,
+ * and write them with writeRedactionAudit.
+ */
+export interface FileRedactions {
+  file: string
+  matches: RedactionMatch[]
+}
+
+interface CompiledRule {
+  name: string
+  regex: RegExp
+  replacement: string | ((match: string) => string | undefined)
+}
+
+/**
+ * The audit's file name, prefixed with the exporter so that exporters
+ * writing to the same directory don't overwrite each other's audits.
+ */
+export function getRedactionAuditFile(exporter: string): string {
+  return `${exporter}-redaction-audit.json`
+}
+
+const DETECTOR_NAMES: DetectorName[] = [
+  'email',
+  'phone',
+  'creditCard',
+  'apiKey',
+]
+
+const DEFAULT_REPLACEMENT = '[REDACTED]'
+
+const EMAIL_REGEX = /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)+/gu
+
+// Optional country code and area code, then groups of digits separated by
+// spaces, dots or dashes; checked for a plausible digit count afterwards
+const PHONE_REGEX =
+  /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]?\d{2,4}){1,4}(?![\w-])/g
+
+const CARD_REGEX = /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g
+
+// Tokens with a well-known prefix, which are unlikely to be anything else
+const API_KEY_REGEX = new RegExp(
+  [
+    // OpenAI and Anthropic
+    'sk-[A-Za-z0-9_-]{20,}',
+    // GitHub
+    'gh[pousr]_[A-Za-z0-9]{30,}',
+    'github_pat_[A-Za-z0-9_]{30,}',
+    // Slack
+    'xox[abprs]-[A-Za-z0-9-]{10,}',
+    // AWS access key ids
+    'AKIA[0-9A-Z]{16}',
+    // Google
+    'AIza[0-9A-Za-z_-]{35}',
+    // GitLab
+    'glpat-[A-Za-z0-9_-]{20,}',
+    // Stripe
+    '[rs]k_live_[A-Za-z0-9]{20,}',
+    '-----BEGIN [A-Z ]*PRIVATE KEY-----[\\s\\S]*?-----END [A-Z ]*PRIVATE KEY-----',
+  ]
+    .map((pattern) => `(?:${pattern})`)
+    .join('|'),
+  'g'
+)
+
+// Dates ("2025-03-04", "04.03.2025") and year ranges ("2019-2020") have
+// enough digits to pass for phone numbers
+const DATE_LIKE_REGEX =
+  /^(?:\d{4}[-./]\d{1,2}[-./]\d{1,2}|\d{1,2}[-./]\d{1,2}[-./]\d{4}|\d{4}-\d{4})$/
+
+/**
+ * Checks a card number's Luhn checksum, which rules out most other long
+ * numbers (order ids, timestamps).
+ */
+function isLuhnValid(digits: string): boolean {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) {
+        digit -= 9
+      }
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+function isPhoneNumber(match: string): boolean {
+  const digits = match.replace(/\D/g, '')
+  return (
+    digits.length >= 7 && digits.length <= 15 && !DATE_LIKE_REGEX.test(match)
+  )
+}
+
+const DETECTORS: Record<DetectorName, CompiledRule> = {
+  email: { name: 'email', regex: EMAIL_REGEX, replacement: '[EMAIL]' },
+  phone: {
+    name: 'phone',
+    regex: PHONE_REGEX,
+    replacement: (match) => (isPhoneNumber(match) ? '[PHONE]' : undefined),
+  },
+  creditCard: {
+    name: 'creditCard',
+    regex: CARD_REGEX,
+    replacement: (match) =>
+      isLuhnValid(match.replace(/\D/g, '')) ? '[CARD]' : undefined,
+  },
+  apiKey: { name: 'apiKey', regex: API_KEY_REGEX, replacement: '[API_KEY]' },
+}
+
+// Secrets and cards go first, so the phone detector doesn't claim their digits
+const DETECTOR_ORDER: DetectorName[] = [
+  'apiKey',
+  'creditCard',
+  'email',
+  'phone',
+]
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Checks that parsed JSON is a valid rules file, so mistakes are reported
+ * before anything is exported.
+ */
+export function parseRedactionRules(value: unknown): RedactionRules {
+  if (!isRecord(value)) {
+    throw new Error('Redaction rules must be a JSON object')
+  }
+  const { detectors, patterns, names } = value
+
+  if (
+    detectors !== undefined &&
+    (!Array.isArray(detectors) ||
+      detectors.some((name) => !DETECTOR_NAMES.includes(name as DetectorName)))
+  ) {
+    throw new Error(
+      `Redaction detectors must be a list of: ${DETECTOR_NAMES.join(', ')}`
+    )
+  }
+
+  if (patterns !== undefined) {
+    if (!Array.isArray(patterns)) {
+      throw new Error('Redaction patterns must be a list')
+    }
+    for (const rule of patterns) {
+      if (
+        !isRecord(rule) ||
+        typeof rule['name'] !== 'string' ||
+        typeof rule['pattern'] !== 'string'
+      ) {
+        throw new Error('Redaction patterns need a name and a pattern')
+      }
+      try {
+        new RegExp(rule['pattern'], String(rule['flags'] ?? ''))
+      } catch (error) {
+        throw new Error(
+          `Invalid redaction pattern ${rule['name']}: ${(error as Error).message}`
+        )
+      }
+    }
+  }
+
+  if (
+    names !== undefined &&
+    !(
+      Array.isArray(names) && names.every((name) => typeof name === 'string')
+    ) &&
+    !(
+      isRecord(names) &&
+      Object.values(names).every(
+        (pseudonym) => pseudonym === null || typeof pseudonym === 'string'
+      )
+    )
+  ) {
+    throw new Error(
+      'Redaction names must be a list of names or map names to pseudonyms'
+    )
+  }
+
+  return value as RedactionRules
+}
+
+/**
+ * Reads and checks a rules file.
+ */
+export async function loadRedactionRules(
+  rulesPath: string
+): Promise<RedactionRules> {
+  let value: unknown
+  try {
+    value = JSON.parse(await readFile(rulesPath, 'utf-8'))
+  } catch (error) {
+    throw new Error(
+      `Failed to read redaction rules from ${rulesPath}: ${(error as Error).message}`
+    )
+  }
+  return parseRedactionRules(value)
+}
+
+/**
+ * Maps each name to its pseudonym. Names without one are numbered in the
+ * order they're listed, so the same name gets the same pseudonym in every
+ * export made with the same rules.
+ */
+export function getPseudonyms(
+  names: RedactionRules['names'] = []
+): Map<string, string> {
+  const entries: [string, string | null][] = Array.isArray(names)
+    ? names.map((name) => [name, null])
+    : Object.entries(names)
+  const pseudonyms = new Map<string, string>()
+  let next = 1
+  for (const [name, pseudonym] of entries) {
+    if (name.trim()) {
+      pseudonyms.set(
+        name.trim().replace(/\s+/g, ' '),
+        pseudonym ?? `Person ${next++}`
+      )
+    }
+  }
+  return pseudonyms
+}
+
+function compileNames(pseudonyms: Map<string, string>): CompiledRule[] {
+  if (pseudonyms.size === 0) {
+    return []
+  }
+  // Case-sensitive, so that names like "Will" or "Rose" leave the words alone.
+  // Longest first, so "Sam Smith" wins over "Sam"
+  const alternatives = [...pseudonyms.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map((name) => name.split(/\s+/).map(RegExp.escape).join('\\s+'))
+  return [
+    {
+      name: 'name',
+      regex: new RegExp(
+        `(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`,
+        'gu'
+      ),
+      replacement: (match) => pseudonyms.get(match.replace(/\s+/g, ' ')),
+    },
+  ]
+}
+
+/**
+ * Builds a redactor from rules. Custom patterns run first, then the
+ * built-in detectors, then the names list, each on the text the previous
+ * rules left.
+ */
+export function createRedactor(rules: RedactionRules = {}): Redactor {
+  const compiled: CompiledRule[] = [
+    ...(rules.patterns ?? []).map((rule) => {
+      const flags = rule.flags ?? ''
+      return {
+        name: rule.name,
+        regex: new RegExp(
+          rule.pattern,
+          flags.includes('g') ? flags : `${flags}g`
+        ),
+        replacement: rule.replacement ?? DEFAULT_REPLACEMENT,
+      }
+    }),
+    ...DETECTOR_ORDER.filter(
+      (name) => !rules.detectors || rules.detectors.includes(name)
+    ).map((name) => DETECTORS[name]),
+    ...compileNames(getPseudonyms(rules.names)),
+  ]
+  d(
+    'redacting with rules: %O',
+    compiled.map((rule) => rule.name)
+  )
+
+  return {
+    redact(text) {
+      const matches: RedactionMatch[] = []
+      let result = text
+      for (const rule of compiled) {
+        result = result.replace(rule.regex, (match) => {
+          const replacement =
+            typeof rule.replacement === 'string'
+              ? rule.replacement
+              : rule.replacement(match)
+          if (replacement === undefined || match === '') {
+            return match
+          }
+          matches.push({ rule: rule.name, text: match, replacement })
+          return replacement
+        })
+      }
+      return { text: result, matches }
+    },
+  }
+}
+
+/**
+ * Hides most of a redacted value, so the audit report doesn't repeat what
+ * was redacted.
+ */
+function mask(text: string): string {
+  return text.length > 8
+    ? `${text.slice(0, 2)}…${text.slice(-2)} (${text.length} chars)`
+    : `${text.slice(0, 1)}… (${text.length} chars)`
+}
+
+/**
+ * Writes a report of what was redacted in each exported file: counts by rule,
+ * and each distinct match (masked) with its replacement and count.
+ */
+export async function writeRedactionAudit(
+  outputDir: string,
+  exporter: string,
+  files: FileRedactions[]
+): Promise<void> {
+  const report = {
+    files: files.map(({ file, matches }) => {
+      const byRule: Record<string, number> = {}
+      const distinct = new Map<
+        string,
+        { rule: string; match: string; replacement: string; count: number }
+      >()
+      for (const { rule, text, replacement } of matches) {
+        byRule[rule] = (byRule[rule] ?? 0) + 1
+        const key = `${rule}\0${text}`
+        const existing = distinct.get(key)
+        if (existing) {
+          existing.count++
+        } else {
+          distinct.set(key, { rule, match: mask(text), replacement, count: 1 })
+        }
+      }
+      return {
+        file,
+        redactions: matches.length,
+        byRule,
+        matches: [...distinct.values()],
+      }
+    }),
+  }
+
+  const reportPath = path.join(outputDir, getRedactionAuditFile(exporter))
+  await writeFile(reportPath, `${JSON.stringify(report, null, 2)}\n`, 'utf-8')
+  d('wrote redaction audit for %d files to %s', files.length, reportPath)
+}
@@ -0,0 +1,92 @@
+import type { Kysely } from 'kysely'
+import type { ImportOptions } from './db-operations'
+import { claudeProjectsExporter } from './exporters/claude-export'
+import { markdownExporter } from './exporters/markdown-export'
+import { notebookLMExporter } from './exporters/notebooklm-export'
+import type { SyncResult } from './import-state'
+import {
+  chatgptImporter,
+  claudeImporter,
+} from './importers/conversations-import'
+import { daylioImporter } from './importers/daylio-import'
+import { imLogImporter } from './importers/im-log-import'
+import { lastfmImporter } from './importers/lastfm-import'
+import { obsidianImporter } from './importers/obsidian-import'
+import { photosImporter } from './importers/photo-import'
+import { slackImporter } from './importers/slack-import'
+import { mastodonImporter, twitterImporter } from './importers/social-import'
+import type { MemoryFilter } from './memory-filter'
+import type { Redactor } from './redaction'
+import type { DatabaseSchema, ImportedMemory } from './types'
+
+/**
+ * An extra command-line option for an importer or exporter, in commander's
+ * flag syntax (e.g. "--interval <type>"). Values reach the handler keyed by
+ * their camel-cased long name; flags without a value (e.g. "--backlinks")
+ * arrive as `true` when set.
+ */
+export interface CommandOption {
+  flags: string
+  description: string
+  defaultValue?: string
+}
+
+export type CommandOptions = Record<string, string | boolean | undefined>
+
+/**
+ * A data source that can be imported with `istoria import <name> <path>`.
+ * Memories are streamed so that large sources never have to be held in
+ * memory at once.
+ */
+export interface ImporterDefinition {
+  name: string
+  description: string
+  options?: CommandOption[]
+  run(path: string, options: CommandOptions): AsyncIterable<ImportedMemory>
+  // Importers that record what they imported (see import-state) sync
+  // instead: unchanged items are skipped and removed ones deleted
+  sync?(
+    db: Kysely<DatabaseSchema>,
+    path: string,
+    options: CommandOptions,
+    importOptions: ImportOptions
+  ): Promise<SyncResult>
+}
+
+/**
+ * An output format that can be written with `istoria export <name>`.
+ * Exporters only write the memories matching `filter`, and when given a
+ * redactor, pass everything they write through it and record what it
+ * redacted with writeRedactionAudit.
+ */
+export interface ExporterDefinition {
+  name: string
+  description: string
+  options?: CommandOption[]
+  run(
+    db: Kysely<DatabaseSchema>,
+    outputDir: string,
+    options: CommandOptions,
+    filter: MemoryFilter,
+    redactor?: Redactor
+  ): Promise<void>
+}
+
+export const importers: ImporterDefinition[] = [
+  obsidianImporter,
+  daylioImporter,
+  slackImporter,
+  claudeImporter,
+  chatgptImporter,
+  lastfmImporter,
+  imLogImporter,
+  twitterImporter,
+  mastodonImporter,
+  photosImporter,
+]
+
+export const exporters: ExporterDefinition[] = [
+  notebookLMExporter,
+  markdownExporter,
+  claudeProjectsExporter,
+]
@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { Kysely } from 'kysely'
+import { DateTime } from 'luxon'
+import { importData } from '../db-operations'
+import {
+  createDatabase,
+  type DatabaseSchema,
+  type JsonValue,
+  type NewMemory,
+} from '../types'
+import {
+  computeMoodReport,
+  getMoodEntries,
+  type MoodEntry,
+  writeMoodReport,
+} from './mood-report'
+
+function entry(time: string, level: number, tags: string[] = []): MoodEntry {
+  return { time: DateTime.fromISO(time, { setZone: true }), level, tags }
+}
+
+// Mon 2025-03-03 to Mon 2025-03-10, with no entries on Friday the 7th
+const ENTRIES = [
+  entry('2025-03-03T09:00:00+01:00', 5, ['running']),
+  entry('2025-03-03T21:00:00+01:00', 3, ['work']),
+  entry('2025-03-04T09:00:00+01:00', 4, ['running']),
+  entry('2025-03-05T09:00:00+01:00', 2, ['work']),
+  entry('2025-03-06T09:00:00+01:00', 1, ['work', 'sick']),
+  entry('2025-03-08T09:00:00+01:00', 5, ['running']),
+  entry('2025-03-09T09:00:00+01:00', 4),
+  entry('2025-03-10T23:30:00-08:00', 2, ['work']),
+]
+
+describe('computeMoodReport', () => {
+  test('averages days, weeks, months and weekdays', () => {
+    const report = computeMoodReport(ENTRIES)
+
+    expect(report.entries).toBe(8)
+    expect(report.days.map((day) => [day.date, day.average])).toEqual([
+      ['2025-03-03', 4],
+      ['2025-03-04', 4],
+      ['2025-03-05', 2],
+      ['2025-03-06', 1],
+      ['2025-03-08', 5],
+      ['2025-03-09', 4],
+      // Recorded at its own offset, so still the 10th
+      ['2025-03-10', 2],
+    ])
+    expect(report.average).toBeCloseTo(22 / 7)
+    expect(report.byWeek).toEqual([
+      { period: '2025-W10', days: 6, average: 20 / 6 },
+      { period: '2025-W11', days: 1, average: 2 },
+    ])
+    expect(report.byMonth).toEqual([
+      { period: '2025-03', days: 7, average: 22 / 7 },
+    ])
+    expect(report.byWeekday.map((p) => [p.period, p.days, p.average])).toEqual([
+      ['Monday', 2, 3],
+      ['Tuesday', 1, 4],
+      ['Wednesday', 1, 2],
+      ['Thursday', 1, 1],
+      ['Saturday', 1, 5],
+      ['Sunday', 1, 4],
+    ])
+  })
+
+  test('ranks tags by how days with them compare to days without', () => {
+    const report = computeMoodReport(ENTRIES, { minTagDays: 2 })
+
+    expect(report.goodDayTags.map((t) => t.tag)).toEqual(['running'])
+    expect(report.goodDayTags[0]?.average).toBeCloseTo(13 / 3)
+    expect(report.goodDayTags[0]?.difference).toBeCloseTo(13 / 3 - 9 / 4)
+    // "sick" is only on one day
+    expect(report.badDayTags.map((t) => t.tag)).toEqual(['work'])
+  })
+
+  test('finds streaks, broken by days without entries', () => {
+    const { streaks } = computeMoodReport(ENTRIES)
+
+    expect(streaks.logged).toEqual({
+      days: 4,
+      from: '2025-03-03',
+      to: '2025-03-06',
+    })
+    expect(streaks.good).toEqual({
+      days: 2,
+      from: '2025-03-03',
+      to: '2025-03-04',
+    })
+    expect(streaks.bad).toEqual({
+      days: 2,
+      from: '2025-03-05',
+      to: '2025-03-06',
+    })
+  })
+})
+
+describe('writeMoodReport', () => {
+  let db: Kysely<DatabaseSchema>
+  let cleanup: () => Promise<void>
+  let outDir: string
+
+  const day = (dayKey: string, entries: JsonValue[]): NewMemory => ({
+    source: 'daylio',
+    sourceKey: dayKey,
+    memoryCreatedAt: DateTime.fromISO(`${dayKey}T09:00:00+01:00`),
+    title: `Daylio: ${dayKey}`,
+    metadata: { dayKey, entryCount: String(entries.length), entries },
+    content: '',
+  })
+
+  beforeEach(async () => {
+    ;[db, cleanup] = await createDatabase(':memory:')
+    await importData(db, [
+      day('2025-03-03', [
+        {
+          id: 1,
+          time: '2025-03-03T09:00:00.000+01:00',
+          mood: 'Rad',
+          moodLevel: 5,
+          tags: [{ id: 1, name: 'running, outside', groupId: null }],
+        },
+        { id: 2, time: '2025-03-03T21:00:00.000+01:00', moodLevel: null },
+      ]),
+      day('2025-03-04', [
+        {
+          id: 3,
+          time: '2025-03-04T09:00:00.000+01:00',
+          moodLevel: 2,
+          tags: [],
+        },
+      ]),
+      {
+        ...day('2025-03-04', []),
+        sourceKey: 'photos/abc',
+        metadata: { dayKey: '2025-03-04' },
+      },
+    ])
+    outDir = await mkdtemp(join(tmpdir(), 'istoria-mood-'))
+  })
+
+  afterEach(async () => {
+    await cleanup()
+    await rm(outDir, { recursive: true, force: true })
+  })
+
+  test('reads entries with a mood level from Daylio days', async () => {
+    const entries = await getMoodEntries(db)
+
+    expect(entries.map((e) => [e.time.toISO(), e.level, e.tags])).toEqual([
+      ['2025-03-03T09:00:00.000+01:00', 5, ['running, outside']],
+      ['2025-03-04T09:00:00.000+01:00', 2, []],
+    ])
+    expect(
+      await getMoodEntries(db, { until: DateTime.utc(2025, 3, 4) })
+    ).toHaveLength(1)
+  })
+
+  test('writes a Markdown report and a CSV', async () => {
+    await writeMoodReport(db, outDir)
+
+    const markdown = await readFile(join(outDir, 'mood-report.md'), 'utf-8')
+    expect(markdown).toStartWith('# Mood report\n')
+    expect(markdown).toContain('2025-03-03 – 2025-03-04: 2 days, 2 entries.')
+    expect(markdown).toContain('Average mood: 3.50 (Good)')
+    expect(markdown).toContain('| 2025-03 | 2 | 3.50 (Good) |')
+    expect(markdown).toContain(
+      '- Longest run of days logged: 2 days (2025-03-03 – 2025-03-04)'
+    )
+
+    const csv = await readFile(join(outDir, 'mood-report.csv'), 'utf-8')
+    expect(csv).toBe(
+      [
+        'date,weekday,entries,average,mood,min,max,tags',
+        '2025-03-03,Monday,1,5,Rad,5,5,"running, outside"',
+        '2025-03-04,Tuesday,1,2,Bad,2,2,',
+        '',
+      ].join('\n')
+    )
+  })
+
+  test('reports when there are no entries', async () => {
+    await db.deleteFrom('memory').execute()
+    await writeMoodReport(db, outDir)
+
+    const markdown = await readFile(join(outDir, 'mood-report.md'), 'utf-8')
+    expect(markdown).toContain('No Daylio entries to report on.')
+  })
+})
@@ -0,0 +1,448 @@
+import { writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import createDebug from 'debug'
+import type { Kysely } from 'kysely'
+import { DateTime } from 'luxon'
+import {
+  getMoodLevelName,
+  PREDEFINED_MOOD_NAMES,
+} from '../importers/daylio-import'
+import { type MemoryFilter, memoryFilter } from '../memory-filter'
+import type { DatabaseSchema, JsonValue } from '../types'
+
+const d = createDebug('istoria:mood-report')
+
+// Days averaging at least this level count as good days, and at most
+// BAD_DAY_LEVEL as bad days (4 is Good, 2 is Bad)
+const GOOD_DAY_LEVEL = 4
+const BAD_DAY_LEVEL = 2
+
+// How many tags to list for good and bad days
+const TOP_TAGS = 5
+
+export interface MoodReportOptions {
+  // Only report on matching memories; reports on all Daylio days by default
+  filter?: MemoryFilter
+  // Tags logged on fewer days than this are left out of the tag rankings,
+  // as a handful of days says little
+  minTagDays?: number
+}
+
+// A Daylio entry's mood, as recorded in its day's metadata by the importer
+export interface MoodEntry {
+  time: DateTime
+  level: number
+  tags: string[]
+}
+
+export interface MoodDay {
+  date: string
+  weekday: string
+  entries: number
+  average: number
+  min: number
+  max: number
+  tags: string[]
+}
+
+export interface MoodPeriod {
+  period: string
+  days: number
+  average: number
+}
+
+export interface TagMood {
+  tag: string
+  days: number
+  average: number
+  // How much better (or worse, if negative) days with the tag are than days
+  // without it
+  difference: number
+}
+
+export interface MoodStreak {
+  days: number
+  from: string
+  to: string
+}
+
+export interface MoodReport {
+  days: MoodDay[]
+  entries: number
+  average: number
+  byWeek: MoodPeriod[]
+  byMonth: MoodPeriod[]
+  byWeekday: MoodPeriod[]
+  goodDayTags: TagMood[]
+  badDayTags: TagMood[]
+  streaks: {
+    logged?: MoodStreak
+    good?: MoodStreak
+    bad?: MoodStreak
+  }
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+function formatLevel(level: number): string {
+  return `${level.toFixed(2)} (${getMoodLevelName(level)})`
+}
+
+/**
+ * Reads the mood entries recorded in the metadata of imported Daylio days.
+ * Entries whose mood has no level (e.g. from a mood that was deleted) are
+ * skipped.
+ */
+export async function getMoodEntries(
+  db: Kysely<DatabaseSchema>,
+  filter: MemoryFilter = {}
+): Promise<MoodEntry[]> {
+  const rows = await db
+    .selectFrom('memory')
+    .select('metadata')
+    .where('source', '=', 'daylio')
+    .where((eb) => memoryFilter(eb, filter))
+    .orderBy('memoryInstant', 'asc')
+    .execute()
+
+  const entries: MoodEntry[] = []
+  for (const { metadata } of rows) {
+    const records = metadata['entries']
+    if (!Array.isArray(records)) {
+      continue
+    }
+    for (const record of records) {
+      const entry = toMoodEntry(record)
+      if (entry) {
+        entries.push(entry)
+      }
+    }
+  }
+
+  d('read %d mood entries from %d days', entries.length, rows.length)
+  return entries
+}
+
+function toMoodEntry(record: JsonValue): MoodEntry | undefined {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return undefined
+  }
+  const { time, moodLevel, tags } = record
+  if (typeof time !== 'string' || typeof moodLevel !== 'number') {
+    return undefined
+  }
+
+  // Keep the offset the entry was recorded at, so it lands on its own day
+  const parsed = DateTime.fromISO(time, { setZone: true })
+  if (!parsed.isValid) {
+    return undefined
+  }
+
+  const tagNames = Array.isArray(tags)
+    ? tags.flatMap((tag) =>
+        tag && typeof tag === 'object' && !Array.isArray(tag)
+          ? typeof tag['name'] === 'string'
+            ? [tag['name']]
+            : []
+          : []
+      )
+    : []
+  return { time: parsed, level: moodLevel, tags: tagNames }
+}
+
+function groupDays(entries: MoodEntry[]): MoodDay[] {
+  const byDate = new Map<string, MoodEntry[]>()
+  for (const entry of entries) {
+    const date = entry.time.toISODate() ?? ''
+    const existing = byDate.get(date) ?? []
+    existing.push(entry)
+    byDate.set(date, existing)
+  }
+
+  return [...byDate]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, dayEntries]) => {
+      const levels = dayEntries.map((entry) => entry.level)
+      return {
+        date,
+        weekday: DateTime.fromISO(date).toFormat('cccc'),
+        entries: dayEntries.length,
+        average: average(levels),
+        min: Math.min(...levels),
+        max: Math.max(...levels),
+        tags: [...new Set(dayEntries.flatMap((entry) => entry.tags))].sort(),
+      }
+    })
+}
+
+function groupPeriods(
+  days: MoodDay[],
+  periodOf: (day: MoodDay) => string
+): MoodPeriod[] {
+  const byPeriod = new Map<string, number[]>()
+  for (const day of days) {
+    const period = periodOf(day)
+    const existing = byPeriod.get(period) ?? []
+    existing.push(day.average)
+    byPeriod.set(period, existing)
+  }
+  return [...byPeriod].map(([period, averages]) => ({
+    period,
+    days: averages.length,
+    average: average(averages),
+  }))
+}
+
+/**
+ * Compares each tag's days with the days without it. Ranking by difference
+ * rather than by average keeps tags logged on an unusual run of days from
+ * swamping the list.
+ */
+function rankTags(days: MoodDay[], minTagDays: number): TagMood[] {
+  const tags = new Set(days.flatMap((day) => day.tags))
+  const ranked: TagMood[] = []
+  for (const tag of tags) {
+    const withTag = days.filter((day) => day.tags.includes(tag))
+    const withoutTag = days.filter((day) => !day.tags.includes(tag))
+    if (withTag.length < minTagDays || withoutTag.length === 0) {
+      continue
+    }
+    const tagAverage = average(withTag.map((day) => day.average))
+    ranked.push({
+      tag,
+      days: withTag.length,
+      average: tagAverage,
+      difference: tagAverage - average(withoutTag.map((day) => day.average)),
+    })
+  }
+  return ranked.sort(
+    (a, b) => b.difference - a.difference || a.tag.localeCompare(b.tag)
+  )
+}
+
+/**
+ * Finds the longest run of consecutive days matching a condition. Days
+ * without entries break a run.
+ */
+function longestStreak(
+  days: MoodDay[],
+  matches: (day: MoodDay) => boolean
+): MoodStreak | undefined {
+  let best: MoodStreak | undefined
+  let current: MoodStreak | undefined
+  let previous: DateTime | undefined
+
+  for (const day of days) {
+    const date = DateTime.fromISO(day.date)
+    const consecutive =
+      previous !== undefined && date.diff(previous, 'days').days === 1
+    previous = date
+
+    if (!matches(day)) {
+      current = undefined
+      continue
+    }
+    current =
+      current && consecutive
+        ? { ...current, days: current.days + 1, to: day.date }
+        : { days: 1, from: day.date, to: day.date }
+    if (!best || current.days > best.days) {
+      best = current
+    }
+  }
+  return best
+}
+
+/**
+ * Computes mood statistics from Daylio entries. Each day's mood is the average
+ * of its entries, so days with many entries don't count for more.
+ */
+export function computeMoodReport(
+  entries: MoodEntry[],
+  options: Pick<MoodReportOptions, 'minTagDays'> = {}
+): MoodReport {
+  const days = groupDays(entries)
+  const tags = rankTags(days, options.minTagDays ?? 3)
+
+  const logged = longestStreak(days, () => true)
+  const good = longestStreak(days, (day) => day.average >= GOOD_DAY_LEVEL)
+  const bad = longestStreak(days, (day) => day.average <= BAD_DAY_LEVEL)
+
+  // Monday first
+  const byWeekday = groupPeriods(
+    [...days].sort(
+      (a, b) =>
+        DateTime.fromISO(a.date).weekday - DateTime.fromISO(b.date).weekday
+    ),
+    (day) => day.weekday
+  )
+
+  return {
+    days,
+    entries: entries.length,
+    average: days.length ? average(days.map((day) => day.average)) : 0,
+    byWeek: groupPeriods(days, (day) =>
+      DateTime.fromISO(day.date).toFormat("kkkk-'W'WW")
+    ),
+    byMonth: groupPeriods(days, (day) => day.date.slice(0, 7)),
+    byWeekday,
+    goodDayTags: tags.filter((tag) => tag.difference > 0).slice(0, TOP_TAGS),
+    badDayTags: tags
+      .filter((tag) => tag.difference < 0)
+      .reverse()
+      .slice(0, TOP_TAGS),
+    streaks: {
+      ...(logged && { logged }),
+      ...(good && { good }),
+      ...(bad && { bad }),
+    },
+  }
+}
+
+function periodTable(heading: string, periods: MoodPeriod[]): string[] {
+  return [
+    `| ${heading} | Days | Average mood |`,
+    '| --- | ---: | --- |',
+    ...periods.map(
+      (period) =>
+        `| ${period.period} | ${period.days} | ${formatLevel(period.average)} |`
+    ),
+  ]
+}
+
+function tagTable(tags: TagMood[]): string[] {
+  if (tags.length === 0) {
+    return ['No tags stand out yet.']
+  }
+  return [
+    '| Tag | Days | Average mood | Compared to other days |',
+    '| --- | ---: | --- | ---: |',
+    ...tags.map(
+      (tag) =>
+        `| ${tag.tag} | ${tag.days} | ${formatLevel(tag.average)} | ${tag.difference > 0 ? '+' : ''}${tag.difference.toFixed(2)} |`
+    ),
+  ]
+}
+
+function formatStreak(label: string, streak: MoodStreak | undefined): string {
+  if (!streak) {
+    return `- ${label}: none`
+  }
+  const range =
+    streak.from === streak.to ? streak.from : `${streak.from} – ${streak.to}`
+  return `- ${label}: ${streak.days} ${streak.days === 1 ? 'day' : 'days'} (${range})`
+}
+
+/**
+ * Formats a mood report as Markdown, readable on its own or as a NotebookLM
+ * source next to the exported memories.
+ */
+export function formatMoodReportMarkdown(report: MoodReport): string {
+  const first = report.days[0]
+  const last = report.days.at(-1)
+  if (!first || !last) {
+    return '# Mood report\n\nNo Daylio entries to report on.\n'
+  }
+
+  const scale = [5, 4, 3, 2, 1]
+    .map((level) => `${level} = ${PREDEFINED_MOOD_NAMES[6 - level]}`)
+    .join(', ')
+
+  const lines = [
+    '# Mood report',
+    '',
+    `${first.date} – ${last.date}: ${report.days.length} days, ${report.entries} entries.`,
+    `Average mood: ${formatLevel(report.average)}, on a scale of ${scale}.`,
+    '',
+    '## By month',
+    '',
+    ...periodTable('Month', report.byMonth),
+    '',
+    '## By week',
+    '',
+    ...periodTable('Week', report.byWeek),
+    '',
+    '## By day of the week',
+    '',
+    ...periodTable('Day', report.byWeekday),
+    '',
+    '## Tags on better days',
+    '',
+    ...tagTable(report.goodDayTags),
+    '',
+    '## Tags on worse days',
+    '',
+    ...tagTable(report.badDayTags),
+    '',
+    '## Streaks',
+    '',
+    formatStreak('Longest run of days logged', report.streaks.logged),
+    formatStreak(
+      `Longest run of ${getMoodLevelName(GOOD_DAY_LEVEL)} days or better`,
+      report.streaks.good
+    ),
+    formatStreak(
+      `Longest run of ${getMoodLevelName(BAD_DAY_LEVEL)} days or worse`,
+      report.streaks.bad
+    ),
+  ]
+  return `${lines.join('\n')}\n`
+}
+
+function csvField(value: string | number): string {
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text
+}
+
+/**
+ * Formats a mood report as CSV with a row per day, for spreadsheets.
+ */
+export function formatMoodReportCsv(report: MoodReport): string {
+  const header = [
+    'date',
+    'weekday',
+    'entries',
+    'average',
+    'mood',
+    'min',
+    'max',
+    'tags',
+  ]
+  const rows = report.days.map((day) => [
+    day.date,
+    day.weekday,
+    day.entries,
+    Number(day.average.toFixed(2)),
+    getMoodLevelName(day.average),
+    day.min,
+    day.max,
+    day.tags.join('; '),
+  ])
+  return `${[header, ...rows].map((row) => row.map(csvField).join(',')).join('\n')}\n`
+}
+
+/**
+ * Writes a mood report on the imported Daylio entries to outputDir, as
+ * mood-report.md and mood-report.csv. Returns the report.
+ */
+export async function writeMoodReport(
+  db: Kysely<DatabaseSchema>,
+  outputDir: string,
+  options: MoodReportOptions = {}
+): Promise<MoodReport> {
+  const entries = await getMoodEntries(db, options.filter)
+  const report = computeMoodReport(entries, options)
+
+  await writeFile(
+    path.join(outputDir, 'mood-report.md'),
+    formatMoodReportMarkdown(report)
+  )
+  await writeFile(
+    path.join(outputDir, 'mood-report.csv'),
+    formatMoodReportCsv(report)
+  )
+  d('wrote mood report for %d days to %s', report.days.length, outputDir)
+  return report
+}
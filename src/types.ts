@@ -4,29 +4,187 @@ import type { Generated, Insertable, Selectable } from 'kysely'
 import { Kysely, Migrator } from 'kysely'
 import { BunSqliteDialect } from 'kysely-bun-sqlite'
 import { SerializePlugin } from 'kysely-plugin-serialize'
-import { DateTime } from 'luxon'
+import type { DateTime } from 'luxon'
+import {
+  type ColumnCodec,
+  createCodecPlugin,
+  encodeParameter,
+  jsonCodec,
+  timestampCodec,
+} from './codecs'
 import { migrator } from './migrations/this-sucks'
 
 const d = createDebug('istoria:types')
 
 type Timestamp = DateTime
 
+export type JsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsonValue[]
+  | { [key: string]: JsonValue }
+
 interface MemoryTable {
   id: Generated<string>
   source: string
+  // Stable identity of the memory within its source, e.g. the vault path of
+  // an Obsidian note. Re-imports match existing rows on (source, sourceKey)
+  sourceKey: string
+  // Computed by importData, used to skip unchanged rows on re-import
+  contentHash?: string
   createdAt: Generated<Timestamp>
   memoryCreatedAt: Timestamp
+  // memoryCreatedAt in milliseconds since the epoch, derived by SQLite (see
+  // 007-add-memory-instant); order and compare memories by this
+  memoryInstant: Generated<number>
+  // memoryCreatedAt's zone, e.g. "Europe/Berlin" or "UTC+5:30". Set by
+  // importData
+  memoryZone: Generated<string>
+  title: string
+  metadata: Record<string, JsonValue>
+  content?: string | null
+  contentBlob?: Uint8Array | null
+  // The import run that last wrote the memory (see 006-create-import-run)
+  importRunId?: number | null
+}
+
+// Full-text index over memory, maintained by triggers (see
+// 003-create-memory-search). Only ever queried, never written directly
+interface MemoryFtsTable {
+  id: string
   title: string
-  metadata: Record<string, string>
-  content?: string
-  contentBlob?: Uint8Array
+  content: string | null
+}
+
+export type LinkType = 'link' | 'embed'
+
+// A link from one memory to another (see 004-create-memory-link). Links
+// whose target hasn't been imported yet have a null targetId
+interface MemoryLinkTable {
+  id: Generated<number>
+  sourceId: string
+  targetId: string | null
+  linkType: LinkType
+  // The link target as written, without any heading or block reference
+  target: string
+  // Heading ("#Heading") or block ("#^id") reference within the target
+  subpath: string | null
+  // Display text, e.g. "alias" in [[Note|alias]]
+  anchorText: string | null
+  // The link exactly as it appears in the linking memory's content
+  raw: string
 }
 
 export type Memory = Selectable<MemoryTable>
 export type NewMemory = Insertable<MemoryTable>
+export type MemoryLink = Selectable<MemoryLinkTable>
+
+/**
+ * A link found by an importer, before it's resolved to a target memory.
+ */
+export interface LinkReference {
+  linkType: LinkType
+  target: string
+  subpath?: string
+  anchorText?: string
+  raw: string
+}
+
+/**
+ * What importers produce: a memory plus, for sources that have them, its
+ * outgoing links. Leaving `links` undefined keeps any existing links.
+ */
+export type ImportedMemory = NewMemory & { links?: LinkReference[] }
+
+// The last imported version of an item (e.g. a file) of a source, see
+// 005-create-import-state
+interface ImportStateTable {
+  source: string
+  path: string
+  size: number
+  // Modification time in milliseconds since the epoch
+  mtime: number
+  contentHash: string
+  // The directory the item was imported from, or null when it was recorded
+  // before roots were (see 008-add-import-state-root)
+  root: string | null
+}
+
+export type ImportState = Selectable<ImportStateTable>
+
+interface ImportRunTable {
+  id: Generated<number>
+  source: string
+  inputPath: string
+  // Hash of the input file, or of a directory's listing (see hashInput)
+  inputHash: string | null
+  startedAt: Timestamp
+  // Null while the run is in progress (or if it crashed)
+  finishedAt: Timestamp | null
+  inserted: number
+  updated: number
+  unchanged: number
+  removed: number
+  // Why the run failed; memories from batches committed before the failure
+  // are kept
+  error: string | null
+  undoneAt: Timestamp | null
+}
+
+// A memory as it was before an import run changed or removed it
+interface MemorySnapshotTable {
+  runId: number
+  memoryId: string
+  source: string
+  sourceKey: string
+  contentHash: string | null
+  createdAt: Timestamp
+  memoryCreatedAt: Timestamp
+  memoryZone: string
+  title: string
+  metadata: Record<string, JsonValue>
+  content: string | null
+  contentBlob: Uint8Array | null
+  importRunId: number | null
+  // The memory's outgoing links, as LinkReference-shaped objects
+  links: JsonValue
+}
+
+export type ImportRun = Selectable<ImportRunTable>
+
+// How the columns that aren't plain SQLite values are stored
+const COLUMN_CODECS: {
+  [Table in keyof DatabaseSchema]?: {
+    [Column in keyof DatabaseSchema[Table]]?: ColumnCodec
+  }
+} = {
+  memory: {
+    createdAt: timestampCodec,
+    memoryCreatedAt: timestampCodec,
+    metadata: jsonCodec,
+  },
+  memory_snapshot: {
+    createdAt: timestampCodec,
+    memoryCreatedAt: timestampCodec,
+    metadata: jsonCodec,
+    links: jsonCodec,
+  },
+  import_run: {
+    startedAt: timestampCodec,
+    finishedAt: timestampCodec,
+    undoneAt: timestampCodec,
+  },
+}
 
 export interface DatabaseSchema {
   memory: MemoryTable
+  memory_fts: MemoryFtsTable
+  memory_link: MemoryLinkTable
+  import_state: ImportStateTable
+  import_run: ImportRunTable
+  memory_snapshot: MemorySnapshotTable
 }
 
 export async function createDatabase(
@@ -34,12 +192,17 @@ export async function createDatabase(
 ): Promise<[Kysely<DatabaseSchema>, () => Promise<void>]> {
   d('creating database at: %s', path)
   const sqlite = new Database(path)
+  // Foreign keys are off by default and have to be enabled per connection
+  sqlite.run('PRAGMA foreign_keys = ON')
   const db = new Kysely<DatabaseSchema>({
     dialect: new BunSqliteDialect({ database: sqlite }),
     plugins: [
+      createCodecPlugin(COLUMN_CODECS),
+      // Results are decoded by column above, so only parameters go through
+      // this
       new SerializePlugin({
-        serializer: luxonSerializer,
-        deserializer: luxonDeserializer,
+        serializer: encodeParameter,
+        deserializer: (value) => value,
       }),
     ],
   })
@@ -77,56 +240,3 @@ export async function createDatabase(
     },
   ]
 }
-
-const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/
-
-/**
- * Custom serializer for kysely-plugin-serialize that handles:
- * - Luxon DateTime objects (to ISO strings)
- * - JSON objects (to JSON strings)
- * - Uint8Array (passed through as-is)
- */
-function luxonSerializer(value: unknown): unknown {
-  // Handle Luxon DateTime - convert to ISO string
-  if (DateTime.isDateTime(value)) {
-    return value.toISO()
-  }
-  // Uint8Array passes through (SQLite handles blobs)
-  if (value instanceof Uint8Array) {
-    return value
-  }
-  // Handle plain objects - convert to JSON (but not arrays, handled separately)
-  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
-    return JSON.stringify(value)
-  }
-  return value
-}
-
-/**
- * Custom deserializer that handles:
- * - ISO date strings (to Luxon DateTime)
- * - JSON strings (to objects)
- */
-function luxonDeserializer(value: unknown): unknown {
-  if (typeof value === 'string') {
-    // Check if it looks like an ISO date string
-    if (ISO_DATE_REGEX.test(value)) {
-      const dt = DateTime.fromISO(value)
-      if (dt.isValid) {
-        return dt
-      }
-    }
-    // Check if it looks like JSON
-    if (
-      (value.startsWith('{') && value.endsWith('}')) ||
-      (value.startsWith('[') && value.endsWith(']'))
-    ) {
-      try {
-        return JSON.parse(value)
-      } catch {
-        return value
-      }
-    }
-  }
-  return value
-}